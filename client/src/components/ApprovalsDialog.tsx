@@ -0,0 +1,166 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Check, FolderOpen, ShieldCheck, X } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { apiRequest } from "@/lib/queryClient";
+import type { QuoteApprovalDecision, QuoteApprovalQueueItem, QuoteFormData } from "@shared/schema";
+
+interface ApprovalsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onOpenQuote: (quoteId: string) => void;
+  onDecided?: (quote: QuoteFormData) => void;
+}
+
+const formatAmount = (amount: number, currency: string) =>
+  `${currency} ${Math.round(amount).toLocaleString()}`;
+
+// Manager view of the quotes whose discount or margin is waiting for approval
+export default function ApprovalsDialog({ open, onOpenChange, onOpenQuote, onDecided }: ApprovalsDialogProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { user } = useAuth();
+  // Comment per quote, sent with the decision
+  const [comments, setComments] = useState<Record<string, string>>({});
+
+  const { data: queue = [], isLoading } = useQuery<QuoteApprovalQueueItem[]>({
+    queryKey: ['/api/quote-forms/approvals'],
+    enabled: open,
+    staleTime: 0, // Requests arrive whenever sales save a quote
+  });
+
+  const decideMutation = useMutation({
+    mutationFn: async ({ id, decision }: { id: string; decision: QuoteApprovalDecision }) => {
+      const response = await apiRequest('POST', `/api/quote-forms/${id}/approval`, decision);
+      return await response.json();
+    },
+    onSuccess: (updatedQuote: QuoteFormData) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/quote-forms/approvals'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/quote-forms'] });
+      onDecided?.(updatedQuote);
+      setComments(prev => {
+        const { [updatedQuote.id!]: _decided, ...rest } = prev;
+        return rest;
+      });
+      toast({
+        title: updatedQuote.approval?.status === 'approved' ? "Discount approved" : "Discount rejected",
+        description: `"${updatedQuote.quoteSubject || 'Untitled'}" has been ${updatedQuote.approval?.status}.`,
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Failed to record decision",
+        description: error.message || "An error occurred while saving the decision.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const decide = (item: QuoteApprovalQueueItem, decision: QuoteApprovalDecision['decision']) => {
+    const comment = comments[item.id!]?.trim();
+    decideMutation.mutate({ id: item.id!, decision: { decision, ...(comment ? { comment } : {}) } });
+  };
+
+  // Another manager decides on the user's own quotes
+  const isOwnRequest = (item: QuoteApprovalQueueItem) =>
+    item.ownerId === user?.id || item.approval.requestedBy === user?.username;
+
+  const handleOpen = (item: QuoteApprovalQueueItem) => {
+    onOpenQuote(item.id!);
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <ShieldCheck className="h-5 w-5" />
+            Discount Approvals
+          </DialogTitle>
+          <DialogDescription>
+            These quotes go beyond the discount or margin limits in settings. They cannot be exported or sent until approved; a rejection needs a comment for the quote owner.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-3 py-2">
+          {isLoading ? (
+            <p className="text-sm text-muted-foreground">Loading approval requests...</p>
+          ) : queue.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No quotes are waiting for approval.</p>
+          ) : (
+            queue.map(item => (
+              <div key={item.id} className="rounded-md border p-3 space-y-2" data-testid={`approval-item-${item.id}`}>
+                <div className="flex items-start justify-between gap-2">
+                  <div className="min-w-0">
+                    <div className="font-medium truncate">
+                      {item.quoteNumber && <span className="text-muted-foreground font-normal">{item.quoteNumber} · </span>}
+                      {item.quoteSubject || 'Untitled Quote'}
+                    </div>
+                    <div className="text-xs text-muted-foreground">
+                      {item.customerCompany || 'No customer'} · {formatAmount(item.grandTotal, item.currency)}
+                    </div>
+                  </div>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => handleOpen(item)}
+                    data-testid={`button-open-approval-${item.id}`}
+                  >
+                    <FolderOpen className="h-4 w-4 mr-2" />
+                    Open
+                  </Button>
+                </div>
+                <ul className="text-sm list-disc pl-5">
+                  {item.approval.reasons.map(reason => (
+                    <li key={reason}>{reason}</li>
+                  ))}
+                </ul>
+                <div className="text-xs text-muted-foreground">
+                  Discount {item.approval.discountPercent}%
+                  {item.approval.marginPercent !== null && <> · Margin {item.approval.marginPercent}%</>}
+                  {' '}· Requested by {item.approval.requestedBy} on {new Date(item.approval.requestedAt).toLocaleString()}
+                </div>
+                {isOwnRequest(item) ? (
+                  <p className="text-xs text-muted-foreground">Your own request - another manager needs to decide on it.</p>
+                ) : (
+                  <div className="flex gap-2">
+                    <Input
+                      placeholder="Comment (required to reject)"
+                      value={comments[item.id!] ?? ''}
+                      onChange={(e) => setComments(prev => ({ ...prev, [item.id!]: e.target.value }))}
+                      data-testid={`input-approval-comment-${item.id}`}
+                    />
+                    <Button
+                      size="sm"
+                      onClick={() => decide(item, 'approved')}
+                      disabled={decideMutation.isPending}
+                      data-testid={`button-approve-${item.id}`}
+                    >
+                      <Check className="h-4 w-4 mr-2" />
+                      Approve
+                    </Button>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => decide(item, 'rejected')}
+                      disabled={!comments[item.id!]?.trim() || decideMutation.isPending}
+                      data-testid={`button-reject-${item.id}`}
+                    >
+                      <X className="h-4 w-4 mr-2" />
+                      Reject
+                    </Button>
+                  </div>
+                )}
+              </div>
+            ))
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
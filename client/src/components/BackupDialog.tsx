@@ -0,0 +1,193 @@
+import { useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Archive, Download, Eye, Loader2, Upload } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { backupSections, type BackupImportMode, type BackupImportResult, type BackupSection } from "@shared/schema";
+
+interface BackupDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const SECTION_LABELS: Record<BackupSection, string> = {
+  quotes: "Quotes",
+  customers: "Customers",
+  salesPeople: "Sales team",
+  catalogItems: "Catalog items",
+  catalogImportMappings: "Import mappings",
+  bomKits: "BOM kits",
+};
+
+// Download a backup archive, or preview and then apply one in merge or replace mode
+export default function BackupDialog({ open, onOpenChange }: BackupDialogProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [file, setFile] = useState<File | null>(null);
+  const [mode, setMode] = useState<BackupImportMode>("merge");
+  const [preview, setPreview] = useState<BackupImportResult | null>(null);
+
+  const importMutation = useMutation({
+    mutationFn: async (dryRun: boolean) => {
+      const body = new FormData();
+      body.append('archive', file!);
+      body.append('mode', mode);
+      body.append('dryRun', String(dryRun));
+      const response = await apiRequest('POST', '/api/admin/import', body);
+      return await response.json();
+    },
+    onSuccess: (result: BackupImportResult) => {
+      setPreview(result);
+      if (result.dryRun) return;
+      // Everything may have changed, so drop every cached query
+      queryClient.invalidateQueries();
+      toast({
+        title: "Backup imported",
+        description: `${result.sections.quotes.added + result.sections.quotes.updated} quote(s) restored from the ${result.manifest.exportedAt.slice(0, 10)} backup.`,
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Failed to import backup",
+        description: error.message || "An error occurred while reading the backup.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const resetPreview = () => setPreview(null);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Archive className="h-5 w-5" />
+            Backup & Restore
+          </DialogTitle>
+          <DialogDescription>
+            The archive holds all quotes with their history, settings, customers, sales team, catalog and kits.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-6 py-2">
+          <Button variant="outline" asChild data-testid="button-download-backup">
+            <a href="/api/admin/export" download>
+              <Download className="h-4 w-4 mr-2" />
+              Download Backup
+            </a>
+          </Button>
+
+          <div className="space-y-4 border-t pt-4">
+            <div className="space-y-2">
+              <Label htmlFor="backup-file">Restore from archive</Label>
+              <Input
+                id="backup-file"
+                type="file"
+                accept=".gz,.json"
+                onChange={(e) => {
+                  setFile(e.target.files?.[0] ?? null);
+                  resetPreview();
+                }}
+                data-testid="input-backup-file"
+              />
+            </div>
+
+            <RadioGroup
+              value={mode}
+              onValueChange={(value) => {
+                setMode(value as BackupImportMode);
+                resetPreview();
+              }}
+            >
+              <div className="flex items-start space-x-2">
+                <RadioGroupItem value="merge" id="backup-mode-merge" data-testid="radio-backup-merge" />
+                <Label htmlFor="backup-mode-merge" className="font-normal leading-snug">
+                  <span className="font-medium">Merge</span>
+                  <span className="block text-xs text-muted-foreground">
+                    Adds the archive records and overwrites matching ones. Current settings are kept.
+                  </span>
+                </Label>
+              </div>
+              <div className="flex items-start space-x-2">
+                <RadioGroupItem value="replace" id="backup-mode-replace" data-testid="radio-backup-replace" />
+                <Label htmlFor="backup-mode-replace" className="font-normal leading-snug">
+                  <span className="font-medium">Replace</span>
+                  <span className="block text-xs text-muted-foreground">
+                    Removes everything that is not in the archive, including settings.
+                  </span>
+                </Label>
+              </div>
+            </RadioGroup>
+
+            {preview && (
+              <div className="space-y-2" data-testid="backup-import-summary">
+                <p className="text-sm text-muted-foreground">
+                  {preview.dryRun ? "Preview of" : "Imported"} the backup from {new Date(preview.manifest.exportedAt).toLocaleString()}.
+                </p>
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Section</TableHead>
+                      <TableHead className="text-right">Added</TableHead>
+                      <TableHead className="text-right">Updated</TableHead>
+                      <TableHead className="text-right">Removed</TableHead>
+                      <TableHead className="text-right">Skipped</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {backupSections.map(section => (
+                      <TableRow key={section}>
+                        <TableCell>{SECTION_LABELS[section]}</TableCell>
+                        <TableCell className="text-right">{preview.sections[section].added}</TableCell>
+                        <TableCell className="text-right">{preview.sections[section].updated}</TableCell>
+                        <TableCell className="text-right">{preview.sections[section].removed}</TableCell>
+                        <TableCell className="text-right">{preview.sections[section].skipped}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+                {preview.warnings.length > 0 && (
+                  <ul className="text-xs text-destructive list-disc pl-4" data-testid="list-backup-warnings">
+                    {preview.warnings.map((warning, index) => <li key={index}>{warning}</li>)}
+                  </ul>
+                )}
+              </div>
+            )}
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button
+            variant="outline"
+            onClick={() => importMutation.mutate(true)}
+            disabled={!file || importMutation.isPending}
+            data-testid="button-preview-backup"
+          >
+            <Eye className="h-4 w-4 mr-2" />
+            Preview
+          </Button>
+          <Button
+            variant={mode === "replace" ? "destructive" : "default"}
+            onClick={() => importMutation.mutate(false)}
+            disabled={!preview?.dryRun || importMutation.isPending}
+            data-testid="button-confirm-import-backup"
+          >
+            {importMutation.isPending ? (
+              <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+            ) : (
+              <Upload className="h-4 w-4 mr-2" />
+            )}
+            {mode === "replace" ? "Replace All Data" : "Import"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -5,9 +5,14 @@ import { Label } from "@/components/ui/label";
 import { Button } from "@/components/ui/button";
 import { Switch } from "@/components/ui/switch";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
-import { Plus, Trash2, Upload, Eye, EyeOff, ChevronDown, ChevronUp } from "lucide-react";
+import { Plus, Trash2, Upload, Eye, EyeOff, ChevronDown, ChevronUp, Package, Boxes, BookmarkPlus } from "lucide-react";
 import { Checkbox } from "@/components/ui/checkbox";
-import type { ColumnVisibility, BomGroup } from "@shared/schema";
+import type { ColumnVisibility, BomGroup, BomKit, CatalogItem } from "@shared/schema";
+import PartNumberInput from "./PartNumberInput";
+import CatalogDialog from "./CatalogDialog";
+import PriceHistoryPopover from "./PriceHistoryPopover";
+import BomKitsDialog from "./BomKitsDialog";
+import SaveBomKitDialog from "./SaveBomKitDialog";
 
 interface BomItem {
   no: number;
@@ -22,6 +27,8 @@ interface BomGroupsSectionProps {
   bomEnabled: boolean;
   bomGroups: BomGroup[];
   columnVisibility: ColumnVisibility;
+  currency?: string; // Catalog list prices are only filled in when they are in the quote currency
+  currentQuoteId?: string | null; // Left out of the price history shown for each part
   onBomEnabledChange: (enabled: boolean) => void;
   onBomGroupsChange: (groups: BomGroup[]) => void;
   onColumnVisibilityChange: (visibility: ColumnVisibility) => void;
@@ -31,10 +38,15 @@ export default function BomGroupsSection({
   bomEnabled,
   bomGroups,
   columnVisibility,
+  currency,
+  currentQuoteId,
   onBomEnabledChange,
   onBomGroupsChange,
   onColumnVisibilityChange,
 }: BomGroupsSectionProps) {
+  const [isCatalogDialogOpen, setIsCatalogDialogOpen] = useState(false);
+  const [isKitsDialogOpen, setIsKitsDialogOpen] = useState(false);
+  const [groupToSaveAsKit, setGroupToSaveAsKit] = useState<BomGroup | null>(null);
   
   // State for collapsing individual groups
   const [collapsedGroups, setCollapsedGroups] = useState<Set<string>>(new Set());
@@ -60,6 +72,29 @@ export default function BomGroupsSection({
     console.log(`Added new BOM group: ${newGroup.name}`);
   };
 
+  // Insert a library kit as a new group. Kit prices in another currency than the quote are left out.
+  const insertBomKit = (kit: BomKit, multiplier: number) => {
+    const keepsPrices = !currency || kit.currency === currency;
+    const newGroup: BomGroup = {
+      id: `bom-${Date.now()}`,
+      name: kit.name,
+      items: kit.items.map((item, index) => {
+        const quantity = item.quantity * multiplier;
+        const unitPrice = keepsPrices ? item.unitPrice : undefined;
+        return {
+          no: index + 1,
+          partNumber: item.partNumber,
+          productDescription: item.productDescription,
+          quantity,
+          unitPrice,
+          totalPrice: unitPrice !== undefined ? quantity * unitPrice : undefined,
+        };
+      }),
+    };
+    onBomGroupsChange([...bomGroups, newGroup]);
+    console.log(`Inserted BOM kit ${kit.name} x${multiplier}`);
+  };
+
   const removeBomGroup = (groupId: string) => {
     const updatedGroups = bomGroups.filter(group => group.id !== groupId);
     // Renumber remaining groups
@@ -152,6 +187,32 @@ export default function BomGroupsSection({
     onBomGroupsChange(updatedGroups);
   };
 
+  // Fill a BOM row from a catalog item picked in the part number cell
+  const applyCatalogItem = (groupId: string, itemIndex: number, catalogItem: CatalogItem) => {
+    const usesListPrice = catalogItem.listPrice != null && (!currency || catalogItem.currency === currency);
+    const updatedGroups = bomGroups.map(group => {
+      if (group.id !== groupId) return group;
+      return {
+        ...group,
+        items: group.items.map((item, i) => {
+          if (i !== itemIndex) return item;
+          const updatedItem = {
+            ...item,
+            partNumber: catalogItem.partNumber,
+            productDescription: catalogItem.description || item.productDescription,
+          };
+          if (usesListPrice) {
+            updatedItem.unitPrice = catalogItem.listPrice!;
+            updatedItem.totalPrice = updatedItem.quantity * catalogItem.listPrice!;
+          }
+          return updatedItem;
+        }),
+      };
+    });
+    onBomGroupsChange(updatedGroups);
+    console.log(`Filled BOM item from catalog: ${catalogItem.partNumber}`);
+  };
+
   const handleExcelPaste = (e: React.ClipboardEvent, groupId: string) => {
     e.preventDefault();
     const text = e.clipboardData.getData('text');
@@ -396,16 +457,49 @@ export default function BomGroupsSection({
               </div>
             </div>
             
-            <Button
-              onClick={addBomGroup}
-              variant="outline"
-              size="sm"
-              data-testid="button-add-bom-group"
-            >
-              <Plus className="h-4 w-4 mr-2" />
-              Add BOM Group
-            </Button>
+            <div className="flex items-center gap-2">
+              <Button
+                onClick={() => setIsCatalogDialogOpen(true)}
+                variant="outline"
+                size="sm"
+                data-testid="button-open-catalog"
+              >
+                <Package className="h-4 w-4 mr-2" />
+                Catalog
+              </Button>
+              <Button
+                onClick={() => setIsKitsDialogOpen(true)}
+                variant="outline"
+                size="sm"
+                data-testid="button-open-bom-kits"
+              >
+                <Boxes className="h-4 w-4 mr-2" />
+                Kits
+              </Button>
+              <Button
+                onClick={addBomGroup}
+                variant="outline"
+                size="sm"
+                data-testid="button-add-bom-group"
+              >
+                <Plus className="h-4 w-4 mr-2" />
+                Add BOM Group
+              </Button>
+            </div>
           </div>
+          <CatalogDialog open={isCatalogDialogOpen} onOpenChange={setIsCatalogDialogOpen} />
+          <BomKitsDialog
+            open={isKitsDialogOpen}
+            onOpenChange={setIsKitsDialogOpen}
+            currency={currency}
+            onInsert={insertBomKit}
+          />
+          <SaveBomKitDialog
+            open={groupToSaveAsKit !== null}
+            onOpenChange={(open) => !open && setGroupToSaveAsKit(null)}
+            group={groupToSaveAsKit}
+            currency={currency}
+          />
 
           {/* BOM Groups */}
           {bomGroups.length === 0 ? (
@@ -456,6 +550,17 @@ export default function BomGroupsSection({
                             <Plus className="h-4 w-4 mr-1" />
                             Add Item
                           </Button>
+
+                          <Button
+                            onClick={() => setGroupToSaveAsKit(group)}
+                            variant="outline"
+                            size="sm"
+                            disabled={group.items.length === 0}
+                            title="Save as kit"
+                            data-testid={`button-save-kit-${group.id}`}
+                          >
+                            <BookmarkPlus className="h-4 w-4" />
+                          </Button>
                           
                           {bomGroups.length > 1 && (
                             <Button
@@ -508,9 +613,10 @@ export default function BomGroupsSection({
                                     )}
                                     {columnVisibility.partNumber && (
                                       <TableCell>
-                                        <Input
+                                        <PartNumberInput
                                           value={item.partNumber}
-                                          onChange={(e) => updateBomItem(group.id, itemIndex, 'partNumber', e.target.value)}
+                                          onChange={(value) => updateBomItem(group.id, itemIndex, 'partNumber', value)}
+                                          onCatalogItemSelect={(catalogItem) => applyCatalogItem(group.id, itemIndex, catalogItem)}
                                           placeholder="e.g., VH2G4324-ONE"
                                           data-testid={`input-bom-part-number-${group.id}-${itemIndex}`}
                                         />
@@ -540,15 +646,22 @@ export default function BomGroupsSection({
                                     )}
                                     {columnVisibility.unitPrice && (
                                       <TableCell>
-                                        <Input
-                                          type="number"
-                                          step="0.01"
-                                          value={item.unitPrice || ''}
-                                          onChange={(e) => updateBomItem(group.id, itemIndex, 'unitPrice', parseFloat(e.target.value) || 0)}
-                                          placeholder="0.00"
-                                          className="w-24"
-                                          data-testid={`input-bom-unit-price-${group.id}-${itemIndex}`}
-                                        />
+                                        <div className="flex items-center gap-1">
+                                          <Input
+                                            type="number"
+                                            step="0.01"
+                                            value={item.unitPrice || ''}
+                                            onChange={(e) => updateBomItem(group.id, itemIndex, 'unitPrice', parseFloat(e.target.value) || 0)}
+                                            placeholder="0.00"
+                                            className="w-24"
+                                            data-testid={`input-bom-unit-price-${group.id}-${itemIndex}`}
+                                          />
+                                          <PriceHistoryPopover
+                                            partNumber={item.partNumber}
+                                            currency={currency}
+                                            excludeQuoteId={currentQuoteId}
+                                          />
+                                        </div>
                                       </TableCell>
                                     )}
                                     {columnVisibility.totalPrice && (
@@ -0,0 +1,286 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Textarea } from "@/components/ui/textarea";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Boxes, Search, Save, Trash2, Loader2, PackagePlus } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { useDebounce } from "../hooks/use-debounce";
+import { apiRequest } from "@/lib/queryClient";
+import type { BomKit } from "@shared/schema";
+import { parseKitTags } from "./SaveBomKitDialog";
+
+interface BomKitsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  currency?: string;
+  onInsert: (kit: BomKit, multiplier: number) => void;
+}
+
+type KitDetailsDraft = { name: string; description: string; tags: string };
+
+// Shared library of saved BOM groups; a kit is inserted as a new group with every quantity multiplied
+export default function BomKitsDialog({ open, onOpenChange, currency, onInsert }: BomKitsDialogProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [search, setSearch] = useState("");
+  const [selectedKit, setSelectedKit] = useState<BomKit | null>(null);
+  const [draft, setDraft] = useState<KitDetailsDraft>({ name: "", description: "", tags: "" });
+  const [multiplier, setMultiplier] = useState(1);
+  const debouncedSearch = useDebounce(search.trim(), 300);
+
+  const { data: kits = [], isLoading } = useQuery<BomKit[]>({
+    queryKey: ['/api/bom-kits', debouncedSearch],
+    queryFn: async () => {
+      const response = await apiRequest('GET', `/api/bom-kits?search=${encodeURIComponent(debouncedSearch)}`);
+      return await response.json();
+    },
+    enabled: open,
+  });
+
+  const updateKitMutation = useMutation({
+    mutationFn: async (kit: BomKit) => {
+      const { id, createdAt, updatedAt, ...fields } = kit;
+      const response = await apiRequest('PUT', `/api/bom-kits/${id}`, fields);
+      return await response.json();
+    },
+    onSuccess: (savedKit: BomKit) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/bom-kits'] });
+      setSelectedKit(savedKit);
+      toast({
+        title: "Kit saved",
+        description: `"${savedKit.name}" has been updated.`,
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Failed to save kit",
+        description: error.message || "An error occurred while saving the kit.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteKitMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const response = await apiRequest('DELETE', `/api/bom-kits/${id}`);
+      return await response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/bom-kits'] });
+      setSelectedKit(null);
+      toast({
+        title: "Kit deleted",
+        description: "Quotes the kit was inserted into are not affected.",
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Failed to delete kit",
+        description: error.message || "An error occurred while deleting the kit.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleSelectKit = (kit: BomKit) => {
+    setSelectedKit(kit);
+    setDraft({ name: kit.name, description: kit.description, tags: kit.tags.join(', ') });
+    setMultiplier(1);
+  };
+
+  const handleSaveDetails = () => {
+    if (!selectedKit) return;
+    updateKitMutation.mutate({
+      ...selectedKit,
+      name: draft.name.trim(),
+      description: draft.description.trim(),
+      tags: parseKitTags(draft.tags),
+    });
+  };
+
+  const handleInsert = () => {
+    if (!selectedKit) return;
+    onInsert(selectedKit, multiplier);
+    onOpenChange(false);
+  };
+
+  const pricesDropped = Boolean(selectedKit && currency && selectedKit.currency !== currency);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-4xl max-h-[85vh]">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Boxes className="h-5 w-5" />
+            BOM Kits
+          </DialogTitle>
+          <DialogDescription>
+            Insert a saved kit as a new BOM group. Use "Save as Kit" on a group to add it to the library.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid grid-cols-1 md:grid-cols-[18rem_1fr] gap-4">
+          <div className="space-y-2">
+            <div className="relative">
+              <Search className="absolute left-2 top-2.5 h-4 w-4 text-muted-foreground" />
+              <Input
+                placeholder="Search name, description, tag..."
+                value={search}
+                onChange={(e) => setSearch(e.target.value)}
+                className="pl-8"
+                data-testid="input-kit-search"
+              />
+            </div>
+            <ScrollArea className="h-[50vh] border rounded-md">
+              {isLoading ? (
+                <div className="p-4 text-sm text-muted-foreground">Loading kits...</div>
+              ) : kits.length === 0 ? (
+                <div className="p-4 text-sm text-muted-foreground">No kits found</div>
+              ) : (
+                kits.map(kit => (
+                  <button
+                    key={kit.id}
+                    type="button"
+                    onClick={() => handleSelectKit(kit)}
+                    className={`w-full text-left px-3 py-2 border-b text-sm hover-elevate ${
+                      kit.id === selectedKit?.id ? 'bg-muted font-medium' : ''
+                    }`}
+                    data-testid={`button-kit-${kit.id}`}
+                  >
+                    <div className="truncate">{kit.name}</div>
+                    <div className="text-xs text-muted-foreground truncate">
+                      {kit.items.length} line(s){kit.tags.length > 0 && ` · ${kit.tags.join(', ')}`}
+                    </div>
+                  </button>
+                ))
+              )}
+            </ScrollArea>
+          </div>
+
+          {!selectedKit ? (
+            <div className="flex items-center justify-center text-sm text-muted-foreground border rounded-md">
+              Select a kit to see its lines.
+            </div>
+          ) : (
+            <div className="space-y-4">
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="kit-details-name">Name</Label>
+                  <Input
+                    id="kit-details-name"
+                    value={draft.name}
+                    onChange={(e) => setDraft(prev => ({ ...prev, name: e.target.value }))}
+                    data-testid="input-kit-details-name"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="kit-details-tags">Tags</Label>
+                  <Input
+                    id="kit-details-tags"
+                    value={draft.tags}
+                    onChange={(e) => setDraft(prev => ({ ...prev, tags: e.target.value }))}
+                    placeholder="Comma separated"
+                    data-testid="input-kit-details-tags"
+                  />
+                </div>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="kit-details-description">Description</Label>
+                <Textarea
+                  id="kit-details-description"
+                  value={draft.description}
+                  onChange={(e) => setDraft(prev => ({ ...prev, description: e.target.value }))}
+                  rows={2}
+                  data-testid="input-kit-details-description"
+                />
+              </div>
+
+              <ScrollArea className="h-48 border rounded-md">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Part Number</TableHead>
+                      <TableHead>Description</TableHead>
+                      <TableHead className="text-right">QTY</TableHead>
+                      <TableHead className="text-right">Unit Price</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {selectedKit.items.map((item, index) => (
+                      <TableRow key={index}>
+                        <TableCell className="font-mono">{item.partNumber}</TableCell>
+                        <TableCell className="text-xs">{item.productDescription}</TableCell>
+                        <TableCell className="text-right">{item.quantity * multiplier}</TableCell>
+                        <TableCell className="text-right">
+                          {item.unitPrice != null ? `${item.unitPrice.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })} ${selectedKit.currency}` : ''}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </ScrollArea>
+
+              <div className="flex flex-wrap items-end justify-between gap-2">
+                <div className="flex items-end gap-2">
+                  <Button
+                    variant="destructive"
+                    onClick={() => deleteKitMutation.mutate(selectedKit.id)}
+                    disabled={deleteKitMutation.isPending}
+                    data-testid="button-delete-kit"
+                  >
+                    <Trash2 className="h-4 w-4 mr-2" />
+                    Delete
+                  </Button>
+                  <Button
+                    variant="outline"
+                    onClick={handleSaveDetails}
+                    disabled={!draft.name.trim() || updateKitMutation.isPending}
+                    data-testid="button-save-kit-details"
+                  >
+                    {updateKitMutation.isPending ? (
+                      <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                    ) : (
+                      <Save className="h-4 w-4 mr-2" />
+                    )}
+                    Save Changes
+                  </Button>
+                </div>
+                <div className="flex items-end gap-2">
+                  <div className="space-y-1">
+                    <Label htmlFor="kit-multiplier" className="text-xs">Multiply quantities by</Label>
+                    <Input
+                      id="kit-multiplier"
+                      type="number"
+                      min={1}
+                      step={1}
+                      value={multiplier}
+                      onChange={(e) => setMultiplier(Math.max(1, parseInt(e.target.value, 10) || 1))}
+                      className="w-24"
+                      data-testid="input-kit-multiplier"
+                    />
+                  </div>
+                  <Button onClick={handleInsert} data-testid="button-insert-kit">
+                    <PackagePlus className="h-4 w-4 mr-2" />
+                    Insert Kit
+                  </Button>
+                </div>
+              </div>
+              {pricesDropped && (
+                <p className="text-xs text-muted-foreground" data-testid="text-kit-currency-note">
+                  <Badge variant="outline" className="mr-1">{selectedKit.currency}</Badge>
+                  Kit prices are in another currency than this quote and are left out when inserting.
+                </p>
+              )}
+            </div>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
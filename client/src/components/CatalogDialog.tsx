@@ -0,0 +1,284 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Package, Plus, Save, Search, Trash2, Loader2, FileSpreadsheet } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { useDebounce } from "../hooks/use-debounce";
+import { apiRequest } from "@/lib/queryClient";
+import type { CatalogItem, InsertCatalogItem } from "@shared/schema";
+import { CURRENCY_OPTIONS } from "./QuoteHeader";
+import CatalogImportDialog from "./CatalogImportDialog";
+
+const EMPTY_CATALOG_ITEM: InsertCatalogItem = {
+  partNumber: "",
+  description: "",
+  manufacturer: null,
+  listPrice: null,
+  cost: null,
+  currency: "USD",
+};
+
+interface CatalogDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+// Parse a price input; an empty field clears the price
+function parsePrice(value: string): number | null {
+  const parsed = parseFloat(value);
+  return Number.isNaN(parsed) ? null : parsed;
+}
+
+export default function CatalogDialog({ open, onOpenChange }: CatalogDialogProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { can } = useAuth();
+  const canEdit = can('catalog.edit');
+  const [search, setSearch] = useState("");
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [draft, setDraft] = useState<InsertCatalogItem>(EMPTY_CATALOG_ITEM);
+  const [isImportDialogOpen, setIsImportDialogOpen] = useState(false);
+  const debouncedSearch = useDebounce(search.trim(), 300);
+
+  const { data: catalogItems = [], isLoading } = useQuery<CatalogItem[]>({
+    queryKey: ['/api/catalog', debouncedSearch],
+    queryFn: async () => {
+      const response = await apiRequest('GET', `/api/catalog?search=${encodeURIComponent(debouncedSearch)}`);
+      return await response.json();
+    },
+    enabled: open,
+  });
+
+  const saveCatalogItemMutation = useMutation({
+    mutationFn: async (item: InsertCatalogItem) => {
+      const response = selectedId
+        ? await apiRequest('PUT', `/api/catalog/${selectedId}`, item)
+        : await apiRequest('POST', '/api/catalog', item);
+      return await response.json();
+    },
+    onSuccess: (savedItem: CatalogItem) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/catalog'] });
+      setSelectedId(savedItem.id);
+      toast({
+        title: "Catalog item saved",
+        description: `${savedItem.partNumber} has been saved to the catalog.`,
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Failed to save catalog item",
+        description: error.message || "An error occurred while saving the catalog item.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteCatalogItemMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const response = await apiRequest('DELETE', `/api/catalog/${id}`);
+      return await response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/catalog'] });
+      handleNewCatalogItem();
+      toast({
+        title: "Catalog item deleted",
+        description: "Existing BOM lines are not affected.",
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Failed to delete catalog item",
+        description: error.message || "An error occurred while deleting the catalog item.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleSelectCatalogItem = (item: CatalogItem) => {
+    const { id, createdAt, updatedAt, ...fields } = item;
+    setSelectedId(id);
+    setDraft(fields);
+  };
+
+  const handleNewCatalogItem = () => {
+    setSelectedId(null);
+    setDraft(EMPTY_CATALOG_ITEM);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-4xl max-h-[85vh]">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Package className="h-5 w-5" />
+            Product Catalog
+          </DialogTitle>
+          <DialogDescription>
+            Catalog parts are suggested while typing a part number in a BOM row.
+            {!canEdit && " Only managers can change the catalog."}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid grid-cols-1 md:grid-cols-[18rem_1fr] gap-4">
+          <div className="space-y-2">
+            <div className="relative">
+              <Search className="absolute left-2 top-2.5 h-4 w-4 text-muted-foreground" />
+              <Input
+                placeholder="Search part, description, vendor..."
+                value={search}
+                onChange={(e) => setSearch(e.target.value)}
+                className="pl-8"
+                data-testid="input-catalog-search"
+              />
+            </div>
+            <div className="grid grid-cols-2 gap-2">
+              <Button variant="outline" onClick={handleNewCatalogItem} disabled={!canEdit} data-testid="button-new-catalog-item">
+                <Plus className="h-4 w-4 mr-2" />
+                New Part
+              </Button>
+              <Button variant="outline" onClick={() => setIsImportDialogOpen(true)} disabled={!canEdit} data-testid="button-import-price-list">
+                <FileSpreadsheet className="h-4 w-4 mr-2" />
+                Import
+              </Button>
+            </div>
+            <ScrollArea className="h-[50vh] border rounded-md">
+              {isLoading ? (
+                <div className="p-4 text-sm text-muted-foreground">Loading catalog...</div>
+              ) : catalogItems.length === 0 ? (
+                <div className="p-4 text-sm text-muted-foreground">No parts found</div>
+              ) : (
+                catalogItems.map(item => (
+                  <button
+                    key={item.id}
+                    type="button"
+                    onClick={() => handleSelectCatalogItem(item)}
+                    className={`w-full text-left px-3 py-2 border-b text-sm hover-elevate ${
+                      item.id === selectedId ? 'bg-muted font-medium' : ''
+                    }`}
+                    data-testid={`button-catalog-item-${item.id}`}
+                  >
+                    <div className="font-mono truncate">{item.partNumber}</div>
+                    <div className="text-xs text-muted-foreground truncate">
+                      {[item.manufacturer, item.description].filter(Boolean).join(' · ')}
+                    </div>
+                  </button>
+                ))
+              )}
+            </ScrollArea>
+          </div>
+
+          <fieldset className="space-y-4" disabled={!canEdit}>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="catalog-part-number">Part Number</Label>
+                <Input
+                  id="catalog-part-number"
+                  value={draft.partNumber}
+                  onChange={(e) => setDraft(prev => ({ ...prev, partNumber: e.target.value }))}
+                  placeholder="e.g., C9300-48P-E"
+                  data-testid="input-catalog-part-number"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="catalog-manufacturer">Manufacturer</Label>
+                <Input
+                  id="catalog-manufacturer"
+                  value={draft.manufacturer || ""}
+                  onChange={(e) => setDraft(prev => ({ ...prev, manufacturer: e.target.value || null }))}
+                  placeholder="e.g., Cisco"
+                  data-testid="input-catalog-manufacturer"
+                />
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="catalog-description">Description</Label>
+              <Input
+                id="catalog-description"
+                value={draft.description || ""}
+                onChange={(e) => setDraft(prev => ({ ...prev, description: e.target.value }))}
+                placeholder="e.g., Catalyst 9300 48-port PoE+"
+                data-testid="input-catalog-description"
+              />
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="catalog-list-price">List Price</Label>
+                <Input
+                  id="catalog-list-price"
+                  type="number"
+                  step="0.01"
+                  min={0}
+                  value={draft.listPrice ?? ""}
+                  onChange={(e) => setDraft(prev => ({ ...prev, listPrice: parsePrice(e.target.value) }))}
+                  data-testid="input-catalog-list-price"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="catalog-cost">Cost</Label>
+                <Input
+                  id="catalog-cost"
+                  type="number"
+                  step="0.01"
+                  min={0}
+                  value={draft.cost ?? ""}
+                  onChange={(e) => setDraft(prev => ({ ...prev, cost: parsePrice(e.target.value) }))}
+                  data-testid="input-catalog-cost"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Currency</Label>
+                <Select
+                  value={draft.currency || "USD"}
+                  onValueChange={(value) => setDraft(prev => ({ ...prev, currency: value }))}
+                >
+                  <SelectTrigger data-testid="select-catalog-currency">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {CURRENCY_OPTIONS.map(option => (
+                      <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            <div className="flex justify-between pt-2">
+              <Button
+                variant="destructive"
+                onClick={() => selectedId && deleteCatalogItemMutation.mutate(selectedId)}
+                disabled={!selectedId || deleteCatalogItemMutation.isPending}
+                data-testid="button-delete-catalog-item"
+              >
+                <Trash2 className="h-4 w-4 mr-2" />
+                Delete
+              </Button>
+              <Button
+                onClick={() => saveCatalogItemMutation.mutate(draft)}
+                disabled={!draft.partNumber.trim() || saveCatalogItemMutation.isPending}
+                data-testid="button-save-catalog-item"
+              >
+                {saveCatalogItemMutation.isPending ? (
+                  <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                ) : (
+                  <Save className="h-4 w-4 mr-2" />
+                )}
+                {selectedId ? "Save Changes" : "Add Part"}
+              </Button>
+            </div>
+          </fieldset>
+        </div>
+        <CatalogImportDialog open={isImportDialogOpen} onOpenChange={setIsImportDialogOpen} />
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,308 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { FileSpreadsheet, Eye, Upload, Loader2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { mapCatalogColumns, parsePriceListFile, toCatalogImportRows, type PriceListSheet } from "@/lib/excelParser";
+import type { CatalogImportField, CatalogImportMapping, CatalogImportRequest, CatalogImportResult } from "@shared/schema";
+import { CURRENCY_OPTIONS } from "./QuoteHeader";
+
+const FIELD_LABELS: Record<CatalogImportField, string> = {
+  partNumber: "Part Number",
+  description: "Description",
+  manufacturer: "Manufacturer",
+  listPrice: "List Price",
+  cost: "Cost",
+  currency: "Currency",
+};
+
+const ACTION_BADGE_VARIANTS: Record<CatalogImportResult["rows"][number]["action"], "default" | "secondary" | "destructive" | "outline"> = {
+  added: "default",
+  updated: "secondary",
+  unchanged: "outline",
+  skipped: "destructive",
+};
+
+// Select items cannot have an empty value, so "not mapped" gets its own key
+const NOT_MAPPED = "__none__";
+
+type ColumnMapping = Partial<Record<CatalogImportField, string>>;
+
+interface CatalogImportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+export default function CatalogImportDialog({ open, onOpenChange }: CatalogImportDialogProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [vendor, setVendor] = useState("");
+  const [fileName, setFileName] = useState("");
+  const [sheet, setSheet] = useState<PriceListSheet | null>(null);
+  const [columns, setColumns] = useState<ColumnMapping>({});
+  const [defaultCurrency, setDefaultCurrency] = useState("USD");
+  const [preview, setPreview] = useState<CatalogImportResult | null>(null);
+  const [parseWarnings, setParseWarnings] = useState<string[]>([]);
+
+  const { data: savedMappings = [] } = useQuery<CatalogImportMapping[]>({
+    queryKey: ['/api/catalog/import-mappings'],
+    enabled: open,
+  });
+
+  const resetDialog = () => {
+    setVendor("");
+    setFileName("");
+    setSheet(null);
+    setColumns({});
+    setDefaultCurrency("USD");
+    setPreview(null);
+    setParseWarnings([]);
+  };
+
+  // Use the vendor's saved mapping where its headers exist in this file, otherwise guess from the headers
+  const applyMapping = (headers: string[], vendorName: string) => {
+    const saved = savedMappings.find(mapping => mapping.vendor.toLowerCase() === vendorName.trim().toLowerCase());
+    const guessed = mapCatalogColumns(headers);
+    if (!saved) {
+      setColumns(guessed);
+      return;
+    }
+    const restored: ColumnMapping = {};
+    for (const [field, header] of Object.entries(saved.columns) as [CatalogImportField, string][]) {
+      if (headers.includes(header)) restored[field] = header;
+    }
+    setColumns({ ...guessed, ...restored });
+    setDefaultCurrency(saved.defaultCurrency);
+  };
+
+  const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+    try {
+      const parsedSheet = await parsePriceListFile(file);
+      setSheet(parsedSheet);
+      setFileName(file.name);
+      setPreview(null);
+      applyMapping(parsedSheet.headers, vendor);
+    } catch (error) {
+      toast({
+        title: "Could not read price list",
+        description: error instanceof Error ? error.message : "The file could not be parsed.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleVendorChange = (vendorName: string) => {
+    setVendor(vendorName);
+    setPreview(null);
+    if (sheet) applyMapping(sheet.headers, vendorName);
+  };
+
+  const buildRequest = (dryRun: boolean): CatalogImportRequest | null => {
+    if (!sheet || !columns.partNumber) return null;
+    const { rows, warnings } = toCatalogImportRows(sheet, columns);
+    setParseWarnings(warnings);
+    return {
+      mapping: { vendor: vendor.trim(), columns: { ...columns, partNumber: columns.partNumber }, defaultCurrency },
+      rows,
+      dryRun,
+    };
+  };
+
+  const importMutation = useMutation({
+    mutationFn: async (request: CatalogImportRequest) => {
+      const response = await apiRequest('POST', '/api/catalog/import', request);
+      return await response.json();
+    },
+    onSuccess: (result: CatalogImportResult) => {
+      if (result.dryRun) {
+        setPreview(result);
+        return;
+      }
+      queryClient.invalidateQueries({ queryKey: ['/api/catalog'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/catalog/import-mappings'] });
+      toast({
+        title: "Price list imported",
+        description: `${result.vendor}: ${result.added} added, ${result.updated} updated, ${result.unchanged} unchanged.`,
+      });
+      resetDialog();
+      onOpenChange(false);
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Import failed",
+        description: error.message || "An error occurred while importing the price list.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const runImport = (dryRun: boolean) => {
+    const request = buildRequest(dryRun);
+    if (request) importMutation.mutate(request);
+  };
+
+  const canPreview = Boolean(vendor.trim() && sheet && columns.partNumber);
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => { if (!isOpen) resetDialog(); onOpenChange(isOpen); }}>
+      <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <FileSpreadsheet className="h-5 w-5" />
+            Import Price List
+          </DialogTitle>
+          <DialogDescription>
+            Map the vendor's columns to catalog fields, preview the changes, then import. Parts are matched by part number.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="import-vendor">Vendor</Label>
+              <Input
+                id="import-vendor"
+                list="import-vendor-mappings"
+                value={vendor}
+                onChange={(e) => handleVendorChange(e.target.value)}
+                placeholder="e.g., Ingram Micro"
+                data-testid="input-import-vendor"
+              />
+              <datalist id="import-vendor-mappings">
+                {savedMappings.map(mapping => <option key={mapping.vendor} value={mapping.vendor} />)}
+              </datalist>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="import-file">Price List (XLSX or CSV)</Label>
+              <Input
+                id="import-file"
+                type="file"
+                accept=".xlsx,.xls,.csv"
+                onChange={handleFileChange}
+                data-testid="input-import-file"
+              />
+              {sheet && (
+                <p className="text-xs text-muted-foreground">
+                  {fileName}: {sheet.rows.length} rows, {sheet.headers.filter(Boolean).length} columns
+                </p>
+              )}
+            </div>
+          </div>
+
+          {sheet && (
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+              {(Object.keys(FIELD_LABELS) as CatalogImportField[]).map(field => (
+                <div key={field} className="space-y-1">
+                  <Label className="text-xs">{FIELD_LABELS[field]}{field === 'partNumber' && ' *'}</Label>
+                  <Select
+                    value={columns[field] || NOT_MAPPED}
+                    onValueChange={(header) => {
+                      setColumns(prev => ({ ...prev, [field]: header === NOT_MAPPED ? undefined : header }));
+                      setPreview(null);
+                    }}
+                  >
+                    <SelectTrigger data-testid={`select-import-column-${field}`}>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={NOT_MAPPED}>Not mapped</SelectItem>
+                      {sheet.headers.map((header, index) => header && (
+                        <SelectItem key={`${header}-${index}`} value={header}>{header}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              ))}
+              {!columns.currency && (
+                <div className="space-y-1">
+                  <Label className="text-xs">Prices are in</Label>
+                  <Select value={defaultCurrency} onValueChange={(value) => { setDefaultCurrency(value); setPreview(null); }}>
+                    <SelectTrigger data-testid="select-import-default-currency">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {CURRENCY_OPTIONS.map(option => (
+                        <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
+            </div>
+          )}
+
+          {preview && (
+            <div className="space-y-2" data-testid="import-preview">
+              <div className="flex flex-wrap items-center gap-2 text-sm">
+                <span className="font-medium">Preview:</span>
+                <Badge variant="default">{preview.added} added</Badge>
+                <Badge variant="secondary">{preview.updated} updated</Badge>
+                <Badge variant="outline">{preview.unchanged} unchanged</Badge>
+                {preview.skipped > 0 && <Badge variant="destructive">{preview.skipped} skipped</Badge>}
+              </div>
+              {parseWarnings.length > 0 && (
+                <p className="text-xs text-muted-foreground">
+                  {parseWarnings.length} row(s) not sent: {parseWarnings.slice(0, 3).join('; ')}{parseWarnings.length > 3 && '...'}
+                </p>
+              )}
+              <ScrollArea className="h-64 border rounded-md">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead className="w-16">Row</TableHead>
+                      <TableHead>Part Number</TableHead>
+                      <TableHead>Result</TableHead>
+                      <TableHead>Details</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {preview.rows.filter(row => row.action !== 'unchanged').slice(0, 500).map((row, index) => (
+                      <TableRow key={`${row.partNumber}-${index}`}>
+                        <TableCell className="text-muted-foreground">{row.sourceRow}</TableCell>
+                        <TableCell className="font-mono">{row.partNumber}</TableCell>
+                        <TableCell><Badge variant={ACTION_BADGE_VARIANTS[row.action]}>{row.action}</Badge></TableCell>
+                        <TableCell className="text-xs text-muted-foreground">
+                          {row.changes?.map(field => FIELD_LABELS[field as CatalogImportField] || field).join(', ') || row.reason}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </ScrollArea>
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button
+            variant="outline"
+            onClick={() => runImport(true)}
+            disabled={!canPreview || importMutation.isPending}
+            data-testid="button-preview-import"
+          >
+            {importMutation.isPending && !preview ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Eye className="h-4 w-4 mr-2" />}
+            Preview
+          </Button>
+          <Button
+            onClick={() => runImport(false)}
+            disabled={!preview || importMutation.isPending || preview.added + preview.updated === 0}
+            data-testid="button-confirm-import"
+          >
+            {importMutation.isPending && preview ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Upload className="h-4 w-4 mr-2" />}
+            Import {preview ? preview.added + preview.updated : ''} Changes
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,158 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Copy, Loader2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import type { Customer, QuoteCloneMode, QuoteCloneRequest, QuoteCloneResult } from "@shared/schema";
+
+// Select items cannot have an empty value, so "no customer" gets its own key
+const NO_CUSTOMER = "__none__";
+
+interface CloneQuoteDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  quoteId: string;
+  version: string;
+  onCloned: (result: QuoteCloneResult) => void;
+}
+
+// Describe what repricing did, e.g. "3 line(s) repriced, 1 not in catalog"
+function describeReprice(reprice: NonNullable<QuoteCloneResult["reprice"]>): string {
+  const parts = [`${reprice.repriced} line(s) repriced`];
+  if (reprice.notInCatalog.length > 0) parts.push(`${reprice.notInCatalog.length} not in catalog`);
+  if (reprice.currencyMismatch.length > 0) parts.push(`${reprice.currencyMismatch.length} priced in another currency`);
+  return parts.join(', ');
+}
+
+export default function CloneQuoteDialog({ open, onOpenChange, quoteId, version, onCloned }: CloneQuoteDialogProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [mode, setMode] = useState<QuoteCloneMode>("version");
+  const [reprice, setReprice] = useState(false);
+  const [customerId, setCustomerId] = useState(NO_CUSTOMER);
+
+  const { data: customers = [] } = useQuery<Customer[]>({
+    queryKey: ['/api/customers'],
+    enabled: open && mode === "customer",
+  });
+
+  const cloneMutation = useMutation({
+    mutationFn: async (request: QuoteCloneRequest) => {
+      const response = await apiRequest('POST', `/api/quote-forms/${quoteId}/clone`, request);
+      return await response.json();
+    },
+    onSuccess: (result: QuoteCloneResult) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/quote-forms'] });
+      onOpenChange(false);
+      onCloned(result);
+      toast({
+        title: mode === "version" ? `Version ${result.quote.version} created` : "Copy created",
+        description: [
+          `Saved as ${result.quote.quoteNumber || 'a new quote'}.`,
+          result.reprice ? `${describeReprice(result.reprice)}.` : '',
+        ].filter(Boolean).join(' '),
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Failed to clone quote",
+        description: error.message || "An error occurred while cloning the quote.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleClone = () => {
+    cloneMutation.mutate({
+      mode,
+      reprice,
+      ...(mode === "customer" && customerId !== NO_CUSTOMER ? { customerId } : {}),
+    });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Copy className="h-5 w-5" />
+            Clone Quote
+          </DialogTitle>
+          <DialogDescription>
+            The saved quote is cloned; save first to include unsaved changes.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 py-2">
+          <RadioGroup value={mode} onValueChange={(value) => setMode(value as QuoteCloneMode)}>
+            <div className="flex items-start space-x-2">
+              <RadioGroupItem value="version" id="clone-mode-version" data-testid="radio-clone-version" />
+              <Label htmlFor="clone-mode-version" className="font-normal leading-snug">
+                <span className="font-medium">New version</span>
+                <span className="block text-xs text-muted-foreground">
+                  Version {version || "1"} becomes the parent of the new quote.
+                </span>
+              </Label>
+            </div>
+            <div className="flex items-start space-x-2">
+              <RadioGroupItem value="customer" id="clone-mode-customer" data-testid="radio-clone-customer" />
+              <Label htmlFor="clone-mode-customer" className="font-normal leading-snug">
+                <span className="font-medium">Copy for customer</span>
+                <span className="block text-xs text-muted-foreground">
+                  Starts over with a new customer, today's date and a new quote number.
+                </span>
+              </Label>
+            </div>
+          </RadioGroup>
+
+          {mode === "customer" && (
+            <div className="space-y-2">
+              <Label>Customer</Label>
+              <Select value={customerId} onValueChange={setCustomerId}>
+                <SelectTrigger data-testid="select-clone-customer">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NO_CUSTOMER}>Choose later</SelectItem>
+                  {customers.map(customer => (
+                    <SelectItem key={customer.id} value={customer.id}>{customer.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
+          <div className="flex items-center space-x-2">
+            <Checkbox
+              id="clone-reprice"
+              checked={reprice}
+              onCheckedChange={(checked) => setReprice(checked === true)}
+              data-testid="checkbox-clone-reprice"
+            />
+            <Label htmlFor="clone-reprice" className="text-sm">Reprice BOM lines from the current catalog</Label>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} data-testid="button-cancel-clone">
+            Cancel
+          </Button>
+          <Button onClick={handleClone} disabled={cloneMutation.isPending} data-testid="button-confirm-clone">
+            {cloneMutation.isPending ? (
+              <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+            ) : (
+              <Copy className="h-4 w-4 mr-2" />
+            )}
+            Clone
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
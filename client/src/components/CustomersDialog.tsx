@@ -0,0 +1,354 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Building2, Plus, Save, Search, Trash2, Upload, X, Loader2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import type { Customer, CustomerContact, InsertCustomer } from "@shared/schema";
+import { CURRENCY_OPTIONS, PAYMENT_TERMS_OPTIONS } from "./QuoteHeader";
+
+const EMPTY_CUSTOMER: InsertCustomer = {
+  name: "",
+  logo: null,
+  address: null,
+  vatId: null,
+  defaultCurrency: null,
+  defaultPaymentTerms: null,
+  contacts: [],
+};
+
+// Select items cannot have an empty value, so "no default" gets its own key
+const NO_DEFAULT = "__none__";
+
+interface CustomersDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onCustomerSaved?: (customer: Customer) => void;
+}
+
+export default function CustomersDialog({ open, onOpenChange, onCustomerSaved }: CustomersDialogProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [search, setSearch] = useState("");
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [draft, setDraft] = useState<InsertCustomer>(EMPTY_CUSTOMER);
+
+  const { data: customers = [], isLoading } = useQuery<Customer[]>({
+    queryKey: ['/api/customers'],
+    enabled: open,
+  });
+
+  const visibleCustomers = customers.filter(customer => {
+    const term = search.trim().toLowerCase();
+    return !term
+      || customer.name.toLowerCase().includes(term)
+      || (customer.vatId || "").toLowerCase().includes(term);
+  });
+
+  const saveCustomerMutation = useMutation({
+    mutationFn: async (customer: InsertCustomer) => {
+      const response = selectedId
+        ? await apiRequest('PUT', `/api/customers/${selectedId}`, customer)
+        : await apiRequest('POST', '/api/customers', customer);
+      return await response.json();
+    },
+    onSuccess: (savedCustomer: Customer) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/customers'] });
+      setSelectedId(savedCustomer.id);
+      onCustomerSaved?.(savedCustomer);
+      toast({
+        title: "Customer saved",
+        description: `"${savedCustomer.name}" has been saved to the directory.`,
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Failed to save customer",
+        description: error.message || "An error occurred while saving the customer.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteCustomerMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const response = await apiRequest('DELETE', `/api/customers/${id}`);
+      return await response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/customers'] });
+      handleNewCustomer();
+      toast({
+        title: "Customer deleted",
+        description: "Quotes for this customer keep their header details.",
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Failed to delete customer",
+        description: error.message || "An error occurred while deleting the customer.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleSelectCustomer = (customer: Customer) => {
+    const { id, createdAt, updatedAt, ...fields } = customer;
+    setSelectedId(id);
+    setDraft(fields);
+  };
+
+  const handleNewCustomer = () => {
+    setSelectedId(null);
+    setDraft(EMPTY_CUSTOMER);
+  };
+
+  const handleLogoUpload = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+
+    if (file.size > 5 * 1024 * 1024) { // 5MB limit, as for the template images
+      toast({
+        title: "File too large",
+        description: "Please choose an image smaller than 5MB.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const reader = new FileReader();
+    reader.onload = (e) => {
+      setDraft(prev => ({ ...prev, logo: e.target?.result as string }));
+    };
+    reader.readAsDataURL(file);
+  };
+
+  const updateContact = (index: number, changes: Partial<CustomerContact>) => {
+    setDraft(prev => ({
+      ...prev,
+      contacts: prev.contacts.map((contact, i) => i === index ? { ...contact, ...changes } : contact),
+    }));
+  };
+
+  const removeContact = (index: number) => {
+    setDraft(prev => ({ ...prev, contacts: prev.contacts.filter((_, i) => i !== index) }));
+  };
+
+  const addContact = () => {
+    setDraft(prev => ({ ...prev, contacts: [...prev.contacts, { name: "" }] }));
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-4xl max-h-[85vh]">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Building2 className="h-5 w-5" />
+            Customers
+          </DialogTitle>
+          <DialogDescription>
+            Reusable company profiles. Picking a customer in a quote fills in its header details.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid grid-cols-1 md:grid-cols-[16rem_1fr] gap-4">
+          <div className="space-y-2">
+            <div className="relative">
+              <Search className="absolute left-2 top-2.5 h-4 w-4 text-muted-foreground" />
+              <Input
+                placeholder="Search name or VAT ID..."
+                value={search}
+                onChange={(e) => setSearch(e.target.value)}
+                className="pl-8"
+                data-testid="input-customer-search"
+              />
+            </div>
+            <Button variant="outline" className="w-full" onClick={handleNewCustomer} data-testid="button-new-customer">
+              <Plus className="h-4 w-4 mr-2" />
+              New Customer
+            </Button>
+            <ScrollArea className="h-[50vh] border rounded-md">
+              {isLoading ? (
+                <div className="p-4 text-sm text-muted-foreground">Loading customers...</div>
+              ) : visibleCustomers.length === 0 ? (
+                <div className="p-4 text-sm text-muted-foreground">No customers found</div>
+              ) : (
+                visibleCustomers.map(customer => (
+                  <button
+                    key={customer.id}
+                    type="button"
+                    onClick={() => handleSelectCustomer(customer)}
+                    className={`w-full text-left px-3 py-2 border-b text-sm hover-elevate ${
+                      customer.id === selectedId ? 'bg-muted font-medium' : ''
+                    }`}
+                    data-testid={`button-customer-${customer.id}`}
+                  >
+                    <div className="truncate">{customer.name}</div>
+                    {customer.vatId && <div className="text-xs text-muted-foreground">{customer.vatId}</div>}
+                  </button>
+                ))
+              )}
+            </ScrollArea>
+          </div>
+
+          <ScrollArea className="h-[60vh] pr-3">
+            <div className="space-y-4">
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="customer-name">Company Name</Label>
+                  <Input
+                    id="customer-name"
+                    value={draft.name}
+                    onChange={(e) => setDraft(prev => ({ ...prev, name: e.target.value }))}
+                    data-testid="input-customer-name"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="customer-vat-id">VAT / Company ID</Label>
+                  <Input
+                    id="customer-vat-id"
+                    value={draft.vatId || ""}
+                    onChange={(e) => setDraft(prev => ({ ...prev, vatId: e.target.value || null }))}
+                    data-testid="input-customer-vat-id"
+                  />
+                </div>
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="customer-address">Address</Label>
+                <Textarea
+                  id="customer-address"
+                  rows={2}
+                  value={draft.address || ""}
+                  onChange={(e) => setDraft(prev => ({ ...prev, address: e.target.value || null }))}
+                  data-testid="input-customer-address"
+                />
+              </div>
+
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label>Default Currency</Label>
+                  <Select
+                    value={draft.defaultCurrency || NO_DEFAULT}
+                    onValueChange={(value) => setDraft(prev => ({ ...prev, defaultCurrency: value === NO_DEFAULT ? null : value }))}
+                  >
+                    <SelectTrigger data-testid="select-customer-currency">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={NO_DEFAULT}>No default</SelectItem>
+                      {CURRENCY_OPTIONS.map(option => (
+                        <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label>Default Payment Terms</Label>
+                  <Select
+                    value={draft.defaultPaymentTerms || NO_DEFAULT}
+                    onValueChange={(value) => setDraft(prev => ({ ...prev, defaultPaymentTerms: value === NO_DEFAULT ? null : value }))}
+                  >
+                    <SelectTrigger data-testid="select-customer-payment-terms">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={NO_DEFAULT}>No default</SelectItem>
+                      {PAYMENT_TERMS_OPTIONS.map(terms => (
+                        <SelectItem key={terms} value={terms}>{terms}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+
+              <div className="space-y-2">
+                <Label>Logo</Label>
+                {draft.logo ? (
+                  <div className="relative inline-block">
+                    <img src={draft.logo} alt="Customer logo" className="h-16 w-auto border rounded-md" data-testid="img-customer-directory-logo" />
+                    <Button
+                      size="icon"
+                      variant="destructive"
+                      className="absolute -top-2 -right-2 h-6 w-6"
+                      onClick={() => setDraft(prev => ({ ...prev, logo: null }))}
+                      data-testid="button-remove-customer-logo"
+                    >
+                      <X className="h-3 w-3" />
+                    </Button>
+                  </div>
+                ) : (
+                  <label className="flex items-center gap-2 text-sm text-primary cursor-pointer hover:underline">
+                    <Upload className="h-4 w-4" />
+                    Upload logo
+                    <input
+                      type="file"
+                      accept="image/*"
+                      onChange={handleLogoUpload}
+                      className="hidden"
+                      data-testid="input-customer-logo-file"
+                    />
+                  </label>
+                )}
+              </div>
+
+              <div className="space-y-2">
+                <div className="flex items-center justify-between">
+                  <Label>Contacts</Label>
+                  <Button variant="ghost" size="sm" onClick={addContact} data-testid="button-add-customer-contact">
+                    <Plus className="h-4 w-4 mr-1" />
+                    Add Contact
+                  </Button>
+                </div>
+                {draft.contacts.length === 0 && (
+                  <p className="text-sm text-muted-foreground">No contacts yet</p>
+                )}
+                {draft.contacts.map((contact, index) => (
+                  <div key={index} className="grid grid-cols-[1fr_1fr_1fr_1fr_auto] gap-2" data-testid={`row-customer-contact-${index}`}>
+                    <Input placeholder="Name" value={contact.name} onChange={(e) => updateContact(index, { name: e.target.value })} />
+                    <Input placeholder="Role" value={contact.role || ""} onChange={(e) => updateContact(index, { role: e.target.value })} />
+                    <Input placeholder="Email" type="email" value={contact.email || ""} onChange={(e) => updateContact(index, { email: e.target.value })} />
+                    <Input placeholder="Phone" value={contact.phone || ""} onChange={(e) => updateContact(index, { phone: e.target.value })} />
+                    <Button size="icon" variant="ghost" onClick={() => removeContact(index)} data-testid={`button-remove-customer-contact-${index}`}>
+                      <X className="h-4 w-4" />
+                    </Button>
+                  </div>
+                ))}
+              </div>
+
+              <div className="flex justify-between pt-2">
+                <Button
+                  variant="destructive"
+                  onClick={() => selectedId && deleteCustomerMutation.mutate(selectedId)}
+                  disabled={!selectedId || deleteCustomerMutation.isPending}
+                  data-testid="button-delete-customer"
+                >
+                  <Trash2 className="h-4 w-4 mr-2" />
+                  Delete
+                </Button>
+                <Button
+                  onClick={() => saveCustomerMutation.mutate(draft)}
+                  disabled={!draft.name.trim() || saveCustomerMutation.isPending}
+                  data-testid="button-save-customer"
+                >
+                  {saveCustomerMutation.isPending ? (
+                    <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                  ) : (
+                    <Save className="h-4 w-4 mr-2" />
+                  )}
+                  {selectedId ? "Save Changes" : "Create Customer"}
+                </Button>
+              </div>
+            </div>
+          </ScrollArea>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,104 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Input } from "@/components/ui/input";
+import { Popover, PopoverAnchor, PopoverContent } from "@/components/ui/popover";
+import { useDebounce } from "../hooks/use-debounce";
+import { apiRequest } from "@/lib/queryClient";
+import type { CatalogItem } from "@shared/schema";
+
+interface PartNumberInputProps {
+  value: string;
+  onChange: (value: string) => void;
+  onCatalogItemSelect: (item: CatalogItem) => void;
+  placeholder?: string;
+  "data-testid"?: string;
+}
+
+// Part number cell that suggests matching catalog items while typing
+export default function PartNumberInput({ value, onChange, onCatalogItemSelect, placeholder, "data-testid": testId }: PartNumberInputProps) {
+  const [isFocused, setIsFocused] = useState(false);
+  const [highlightedIndex, setHighlightedIndex] = useState(0);
+  const debouncedValue = useDebounce(value.trim(), 200);
+
+  const { data: suggestions = [] } = useQuery<CatalogItem[]>({
+    queryKey: ['/api/catalog', 'search', debouncedValue],
+    queryFn: async () => {
+      const response = await apiRequest('GET', `/api/catalog/search?q=${encodeURIComponent(debouncedValue)}&limit=8`);
+      return await response.json();
+    },
+    enabled: isFocused && debouncedValue.length >= 2,
+  });
+
+  // Nothing to suggest once the cell already holds an exact catalog part number
+  const visibleSuggestions = suggestions.filter(item => item.partNumber !== value);
+  const isOpen = isFocused && debouncedValue.length >= 2 && visibleSuggestions.length > 0;
+
+  const selectItem = (item: CatalogItem) => {
+    onCatalogItemSelect(item);
+    setHighlightedIndex(0);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (!isOpen) return;
+    if (e.key === 'ArrowDown') {
+      e.preventDefault();
+      setHighlightedIndex(index => Math.min(index + 1, visibleSuggestions.length - 1));
+    } else if (e.key === 'ArrowUp') {
+      e.preventDefault();
+      setHighlightedIndex(index => Math.max(index - 1, 0));
+    } else if (e.key === 'Enter') {
+      e.preventDefault();
+      selectItem(visibleSuggestions[Math.min(highlightedIndex, visibleSuggestions.length - 1)]);
+    } else if (e.key === 'Escape') {
+      setIsFocused(false);
+    }
+  };
+
+  return (
+    <Popover open={isOpen}>
+      <PopoverAnchor asChild>
+        <Input
+          value={value}
+          onChange={(e) => {
+            onChange(e.target.value);
+            setHighlightedIndex(0);
+          }}
+          onFocus={() => setIsFocused(true)}
+          onBlur={() => setIsFocused(false)}
+          onKeyDown={handleKeyDown}
+          placeholder={placeholder}
+          autoComplete="off"
+          data-testid={testId}
+        />
+      </PopoverAnchor>
+      <PopoverContent
+        align="start"
+        className="w-96 p-1"
+        onOpenAutoFocus={(e) => e.preventDefault()} // Keep typing in the cell
+        onMouseDown={(e) => e.preventDefault()} // Don't blur the cell before the click lands
+      >
+        {visibleSuggestions.map((item, index) => (
+          <button
+            key={item.id}
+            type="button"
+            onClick={() => selectItem(item)}
+            className={`w-full text-left rounded-sm px-2 py-1.5 text-sm ${index === highlightedIndex ? 'bg-accent text-accent-foreground' : ''}`}
+            data-testid={`option-catalog-${item.id}`}
+          >
+            <div className="flex items-center justify-between gap-2">
+              <span className="font-mono font-medium">{item.partNumber}</span>
+              {item.listPrice != null && (
+                <span className="text-xs text-muted-foreground">
+                  {item.listPrice.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })} {item.currency}
+                </span>
+              )}
+            </div>
+            <div className="text-xs text-muted-foreground truncate">
+              {[item.manufacturer, item.description].filter(Boolean).join(' · ')}
+            </div>
+          </button>
+        ))}
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -0,0 +1,106 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { History } from "lucide-react";
+import { apiRequest } from "@/lib/queryClient";
+import type { PartPriceHistory } from "@shared/schema";
+
+interface PriceHistoryPopoverProps {
+  partNumber: string;
+  currency?: string; // Stats in the quote's currency are shown first
+  excludeQuoteId?: string | null; // The quote being edited
+}
+
+function formatPrice(value: number, currency: string): string {
+  return `${value.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })} ${currency}`;
+}
+
+function formatDate(date: string): string {
+  return new Date(date).toLocaleDateString('en-GB');
+}
+
+// What we charged for this part on earlier quotes: last, minimum and maximum unit price
+export default function PriceHistoryPopover({ partNumber, currency, excludeQuoteId }: PriceHistoryPopoverProps) {
+  const [open, setOpen] = useState(false);
+  const trimmedPartNumber = partNumber.trim();
+
+  const { data: history, isLoading } = useQuery<PartPriceHistory>({
+    queryKey: ['/api/quote-forms', 'price-history', trimmedPartNumber, excludeQuoteId ?? null],
+    queryFn: async () => {
+      const params = new URLSearchParams({ partNumber: trimmedPartNumber });
+      if (excludeQuoteId) params.set('excludeQuoteId', excludeQuoteId);
+      const response = await apiRequest('GET', `/api/quote-forms/price-history?${params}`);
+      return await response.json();
+    },
+    enabled: open && trimmedPartNumber.length > 0,
+  });
+
+  const stats = [...(history?.stats ?? [])].sort((a, b) =>
+    Number(b.currency === currency) - Number(a.currency === currency)
+  );
+  const recentLines = (history?.lines ?? []).filter(line => line.unitPrice !== undefined).slice(0, 5);
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <Button
+          variant="ghost"
+          size="icon"
+          className="h-8 w-8 shrink-0"
+          disabled={!trimmedPartNumber}
+          title="Price history"
+          data-testid="button-price-history"
+        >
+          <History className="h-4 w-4" />
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-80 text-sm" align="end">
+        <div className="font-medium mb-2">
+          Price history <span className="font-mono">{trimmedPartNumber}</span>
+        </div>
+        {isLoading ? (
+          <p className="text-muted-foreground">Loading...</p>
+        ) : stats.length === 0 ? (
+          <p className="text-muted-foreground" data-testid="text-no-price-history">
+            Not priced on any other quote yet.
+          </p>
+        ) : (
+          <div className="space-y-3">
+            {stats.map(entry => (
+              <div key={entry.currency} className="grid grid-cols-3 gap-2" data-testid={`price-history-stats-${entry.currency}`}>
+                <div>
+                  <div className="text-xs text-muted-foreground">Last ({formatDate(entry.lastDate)})</div>
+                  <div className="font-medium">{formatPrice(entry.last, entry.currency)}</div>
+                </div>
+                <div>
+                  <div className="text-xs text-muted-foreground">Min</div>
+                  <div>{formatPrice(entry.min, entry.currency)}</div>
+                </div>
+                <div>
+                  <div className="text-xs text-muted-foreground">Max</div>
+                  <div>{formatPrice(entry.max, entry.currency)}</div>
+                </div>
+              </div>
+            ))}
+            <div className="border-t pt-2 space-y-1">
+              {recentLines.map((line, index) => (
+                <div key={`${line.quote.id}-${line.groupName}-${line.line}-${index}`} className="flex justify-between gap-2 text-xs">
+                  <span className="truncate text-muted-foreground">
+                    {formatDate(line.quote.date)} · {line.quote.customerCompany || line.quote.quoteNumber || 'Untitled'} · ×{line.quantity}
+                  </span>
+                  <span className="whitespace-nowrap">{formatPrice(line.unitPrice!, line.currency)}</span>
+                </div>
+              ))}
+              {history && history.lines.length > recentLines.length && (
+                <div className="text-xs text-muted-foreground">
+                  On {history.lines.length} quote line(s) in total
+                </div>
+              )}
+            </div>
+          </div>
+        )}
+      </PopoverContent>
+    </Popover>
+  );
+}
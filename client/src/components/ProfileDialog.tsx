@@ -0,0 +1,239 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Badge } from "@/components/ui/badge";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Copy, KeyRound, Loader2, Plus, Trash2, UserRound } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { apiRequest } from "@/lib/queryClient";
+import { USER_ROLE_LABELS } from "@shared/permissions";
+import {
+  API_TOKEN_SCOPES,
+  API_TOKEN_SCOPE_LABELS,
+  type ApiTokenScope,
+  type CreateApiTokenRequest,
+  type CreatedApiToken,
+  type PublicApiToken,
+} from "@shared/schema";
+
+interface ProfileDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const EMPTY_TOKEN: CreateApiTokenRequest = {
+  name: "",
+  scopes: ["quotes.read"],
+};
+
+const formatTimestamp = (value: string | null) => (value ? new Date(value).toLocaleString() : "Never");
+
+// The logged-in user's account and their personal API tokens for scripts
+export default function ProfileDialog({ open, onOpenChange }: ProfileDialogProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { user } = useAuth();
+  const [draft, setDraft] = useState<CreateApiTokenRequest>(EMPTY_TOKEN);
+  // Shown until the dialog closes; the server never returns the token again
+  const [createdToken, setCreatedToken] = useState<CreatedApiToken | null>(null);
+
+  const { data: tokens = [], isLoading } = useQuery<PublicApiToken[]>({
+    queryKey: ['/api/api-tokens'],
+    enabled: open,
+    staleTime: 0, // Last-used times change whenever a script runs
+  });
+
+  const createTokenMutation = useMutation({
+    mutationFn: async (newToken: CreateApiTokenRequest) => {
+      const response = await apiRequest('POST', '/api/api-tokens', newToken);
+      return await response.json();
+    },
+    onSuccess: (created: CreatedApiToken) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/api-tokens'] });
+      setDraft(EMPTY_TOKEN);
+      setCreatedToken(created);
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Failed to create API token",
+        description: error.message || "An error occurred while creating the token.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const revokeTokenMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const response = await apiRequest('DELETE', `/api/api-tokens/${id}`);
+      return await response.json();
+    },
+    onSuccess: (_result, id) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/api-tokens'] });
+      if (createdToken?.id === id) setCreatedToken(null);
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Failed to revoke API token",
+        description: error.message || "An error occurred while revoking the token.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const toggleScope = (scope: ApiTokenScope, checked: boolean) => {
+    setDraft(prev => ({
+      ...prev,
+      scopes: checked ? [...prev.scopes, scope] : prev.scopes.filter(existing => existing !== scope),
+    }));
+  };
+
+  const handleCopy = async (token: string) => {
+    try {
+      await navigator.clipboard.writeText(token);
+      toast({ title: "Token copied", description: "Store it somewhere safe - it will not be shown again." });
+    } catch {
+      toast({ title: "Copy failed", description: "Select the token and copy it manually.", variant: "destructive" });
+    }
+  };
+
+  const handleRevoke = (token: PublicApiToken) => {
+    if (window.confirm(`Revoke the token "${token.name}"? Scripts using it will stop working.`)) {
+      revokeTokenMutation.mutate(token.id);
+    }
+  };
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    if (!nextOpen) setCreatedToken(null);
+    onOpenChange(nextOpen);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <UserRound className="h-5 w-5" />
+            {user?.username}
+          </DialogTitle>
+          <DialogDescription>
+            Logged in as {user ? USER_ROLE_LABELS[user.role].toLowerCase() : ''}. API tokens let scripts work with quotes as you: send one as an "Authorization: Bearer" header.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-6 py-2">
+          {createdToken && (
+            <div className="rounded-md border p-3 space-y-2" data-testid="panel-created-token">
+              <p className="text-sm font-medium">Copy the token for "{createdToken.name}" now - it will not be shown again.</p>
+              <div className="flex gap-2">
+                <Input readOnly value={createdToken.token} className="font-mono text-xs" data-testid="input-created-token" />
+                <Button variant="outline" size="icon" onClick={() => handleCopy(createdToken.token)} title="Copy token" data-testid="button-copy-token">
+                  <Copy className="h-4 w-4" />
+                </Button>
+              </div>
+            </div>
+          )}
+
+          {isLoading ? (
+            <p className="text-sm text-muted-foreground">Loading API tokens...</p>
+          ) : tokens.length === 0 ? (
+            <p className="text-sm text-muted-foreground">You have no API tokens.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Name</TableHead>
+                  <TableHead>Scopes</TableHead>
+                  <TableHead>Last used</TableHead>
+                  <TableHead className="w-12" />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {tokens.map(token => (
+                  <TableRow key={token.id} data-testid={`row-token-${token.id}`}>
+                    <TableCell>
+                      <div className="font-medium">{token.name}</div>
+                      <div className="font-mono text-xs text-muted-foreground">{token.tokenPrefix}...</div>
+                    </TableCell>
+                    <TableCell>
+                      <div className="flex flex-wrap gap-1">
+                        {token.scopes.map(scope => (
+                          <Badge key={scope} variant="secondary">{API_TOKEN_SCOPE_LABELS[scope]}</Badge>
+                        ))}
+                      </div>
+                    </TableCell>
+                    <TableCell className="text-sm text-muted-foreground" title={`Created ${formatTimestamp(token.createdAt)}`}>
+                      {formatTimestamp(token.lastUsedAt)}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => handleRevoke(token)}
+                        disabled={revokeTokenMutation.isPending}
+                        title="Revoke token"
+                        data-testid={`button-revoke-token-${token.id}`}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+
+          <form
+            className="space-y-3 border-t pt-4"
+            onSubmit={(e) => {
+              e.preventDefault();
+              createTokenMutation.mutate(draft);
+            }}
+          >
+            <Label htmlFor="api-token-name" className="flex items-center gap-2">
+              <KeyRound className="h-4 w-4" />
+              New API token
+            </Label>
+            <Input
+              id="api-token-name"
+              placeholder="What the token is for, e.g. Configurator export"
+              autoComplete="off"
+              value={draft.name}
+              onChange={(e) => setDraft(prev => ({ ...prev, name: e.target.value }))}
+              data-testid="input-new-token-name"
+            />
+            <div className="flex flex-wrap gap-4">
+              {API_TOKEN_SCOPES.map(scope => (
+                <label key={scope} className="flex items-center gap-2 text-sm">
+                  <Checkbox
+                    checked={draft.scopes.includes(scope)}
+                    onCheckedChange={(checked) => toggleScope(scope, checked === true)}
+                    data-testid={`checkbox-token-scope-${scope}`}
+                  />
+                  {API_TOKEN_SCOPE_LABELS[scope]}
+                </label>
+              ))}
+            </div>
+            <Button
+              type="submit"
+              size="sm"
+              disabled={!draft.name.trim() || draft.scopes.length === 0 || createTokenMutation.isPending}
+              data-testid="button-create-token"
+            >
+              {createTokenMutation.isPending ? (
+                <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+              ) : (
+                <Plus className="h-4 w-4 mr-2" />
+              )}
+              Create Token
+            </Button>
+          </form>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,183 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Activity, ChevronLeft, ChevronRight, Search } from "lucide-react";
+import { useDebounce } from "../hooks/use-debounce";
+import { apiRequest } from "@/lib/queryClient";
+import { AUDIT_ACTIONS, type AuditAction, type AuditChange, type AuditEvent, type AuditEventPage } from "@shared/schema";
+
+interface QuoteActivityPanelProps {
+  quoteId: string;
+}
+
+const PAGE_SIZE = 20;
+const ALL_ACTIONS = "all";
+const COLLAPSED_CHANGE_COUNT = 8;
+
+const ACTION_LABELS: Record<AuditAction, string> = {
+  create: "Created",
+  update: "Updated",
+  delete: "Moved to trash",
+  restore: "Restored",
+  purge: "Deleted permanently",
+  download: "Downloaded PDF",
+  import: "Imported",
+};
+
+function formatAuditValue(value: unknown): string {
+  if (value === null || value === undefined || value === '') return '—';
+  return typeof value === 'object' ? JSON.stringify(value) : String(value);
+}
+
+function AuditChangeList({ changes }: { changes: AuditChange[] }) {
+  const [expanded, setExpanded] = useState(false);
+  const shown = expanded ? changes : changes.slice(0, COLLAPSED_CHANGE_COUNT);
+
+  return (
+    <div className="mt-2 space-y-1 text-xs">
+      {shown.map((change, index) => (
+        <div key={index} className="grid grid-cols-[minmax(0,2fr)_minmax(0,3fr)] gap-2">
+          <span className="font-mono text-muted-foreground truncate" title={change.path}>{change.path}</span>
+          <span className="truncate">
+            <span className="line-through text-muted-foreground">{formatAuditValue(change.oldValue)}</span>
+            {' → '}
+            <span>{formatAuditValue(change.newValue)}</span>
+          </span>
+        </div>
+      ))}
+      {changes.length > COLLAPSED_CHANGE_COUNT && (
+        <button
+          type="button"
+          className="text-primary hover:underline"
+          onClick={() => setExpanded(!expanded)}
+        >
+          {expanded ? 'Show fewer' : `Show all ${changes.length} changes`}
+        </button>
+      )}
+    </div>
+  );
+}
+
+// Audit trail of one quote: edits, status changes, attachments and PDF downloads
+export default function QuoteActivityPanel({ quoteId }: QuoteActivityPanelProps) {
+  const [page, setPage] = useState(1);
+  const [action, setAction] = useState<string>(ALL_ACTIONS);
+  const [path, setPath] = useState("");
+  const debouncedPath = useDebounce(path.trim(), 300);
+
+  const { data, isLoading, isError } = useQuery<AuditEventPage>({
+    // Under the quote's key so saving the quote refreshes the activity
+    queryKey: ['/api/quote-forms', quoteId, 'activity', page, action, debouncedPath],
+    queryFn: async () => {
+      const params = new URLSearchParams({ quoteId, page: String(page), pageSize: String(PAGE_SIZE) });
+      if (action !== ALL_ACTIONS) params.set('action', action);
+      if (debouncedPath) params.set('path', debouncedPath);
+      const response = await apiRequest('GET', `/api/audit?${params}`);
+      return await response.json();
+    },
+    staleTime: 0,
+  });
+
+  const totalPages = data ? Math.max(1, Math.ceil(data.total / PAGE_SIZE)) : 1;
+  const events: AuditEvent[] = data?.items ?? [];
+
+  return (
+    <Card data-testid="card-quote-activity">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Activity className="h-5 w-5" />
+          Activity
+        </CardTitle>
+      </CardHeader>
+
+      <CardContent className="space-y-4">
+        <div className="flex gap-2">
+          <Select
+            value={action}
+            onValueChange={(value) => {
+              setAction(value);
+              setPage(1);
+            }}
+          >
+            <SelectTrigger className="w-44" data-testid="select-activity-action">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL_ACTIONS}>All activity</SelectItem>
+              {AUDIT_ACTIONS.map(auditAction => (
+                <SelectItem key={auditAction} value={auditAction}>{ACTION_LABELS[auditAction]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <div className="relative flex-1">
+            <Search className="absolute left-2 top-2.5 h-4 w-4 text-muted-foreground" />
+            <Input
+              placeholder="Field, e.g. unitPrice"
+              value={path}
+              onChange={(e) => {
+                setPath(e.target.value);
+                setPage(1);
+              }}
+              className="pl-8"
+              data-testid="input-activity-path"
+            />
+          </div>
+        </div>
+
+        {isLoading ? (
+          <p className="text-sm text-muted-foreground">Loading activity...</p>
+        ) : isError ? (
+          <p className="text-sm text-destructive">Failed to load activity.</p>
+        ) : events.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No activity found.</p>
+        ) : (
+          <div className="border rounded-md divide-y">
+            {events.map(event => (
+              <div key={event.id} className="px-3 py-2 text-sm" data-testid={`row-activity-${event.id}`}>
+                <div className="flex flex-wrap items-center gap-2">
+                  <Badge variant="outline">{ACTION_LABELS[event.action]}</Badge>
+                  {event.entityType === 'attachment' && (
+                    <span className="text-muted-foreground">attachment {event.entityLabel}</span>
+                  )}
+                  <span className="font-medium">{event.actor}</span>
+                  <span className="text-xs text-muted-foreground ml-auto">
+                    {new Date(event.occurredAt).toLocaleString()}
+                  </span>
+                </div>
+                {event.changes.length > 0 && <AuditChangeList changes={event.changes} />}
+              </div>
+            ))}
+          </div>
+        )}
+
+        {data && data.total > PAGE_SIZE && (
+          <div className="flex items-center justify-end gap-2 text-sm">
+            <Button
+              variant="ghost"
+              size="icon"
+              onClick={() => setPage(page - 1)}
+              disabled={page <= 1}
+              data-testid="button-activity-previous"
+            >
+              <ChevronLeft className="h-4 w-4" />
+            </Button>
+            <span className="text-muted-foreground">Page {page} of {totalPages}</span>
+            <Button
+              variant="ghost"
+              size="icon"
+              onClick={() => setPage(page + 1)}
+              disabled={page >= totalPages}
+              data-testid="button-activity-next"
+            >
+              <ChevronRight className="h-4 w-4" />
+            </Button>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,238 @@
+import { useRef } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { ArrowDown, ArrowUp, FileText, Image, Loader2, Paperclip, Trash2, Upload } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { QUOTE_ATTACHMENT_MIME_TYPES, type QuoteAttachmentInfo, type QuoteAttachmentOrder } from "@shared/schema";
+
+interface QuoteAttachmentsSectionProps {
+  quoteId: string | null;
+}
+
+// 1536 -> "1.5 KB"
+function formatFileSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+// Datasheets and drawings of a saved quote; the checked ones are appended to the PDF in list order
+export default function QuoteAttachmentsSection({ quoteId }: QuoteAttachmentsSectionProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const queryKey = ['/api/quote-forms', quoteId, 'attachments'];
+
+  const { data: attachments = [], isLoading } = useQuery<QuoteAttachmentInfo[]>({
+    queryKey,
+    enabled: Boolean(quoteId),
+  });
+
+  const uploadMutation = useMutation({
+    mutationFn: async (files: File[]) => {
+      for (const file of files) {
+        const body = new FormData();
+        body.append('file', file);
+        await apiRequest('POST', `/api/quote-forms/${quoteId}/attachments`, body);
+      }
+      return files.length;
+    },
+    onSuccess: (count: number) => {
+      toast({
+        title: "Attachments added",
+        description: `${count} file(s) will be appended to the PDF.`,
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Failed to add attachment",
+        description: error.message || "An error occurred while uploading the file.",
+        variant: "destructive",
+      });
+    },
+    // Files uploaded before a failure are kept, so refresh either way
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey });
+    },
+  });
+
+  const arrangeMutation = useMutation({
+    mutationFn: async (order: QuoteAttachmentOrder) => {
+      const response = await apiRequest('PUT', `/api/quote-forms/${quoteId}/attachments`, order);
+      return await response.json();
+    },
+    onMutate: (order: QuoteAttachmentOrder) => {
+      // Show the new order right away
+      const byId = new Map(attachments.map(attachment => [attachment.id, attachment]));
+      queryClient.setQueryData(queryKey, order.attachments.map((entry, index) => ({
+        ...byId.get(entry.id)!,
+        appendToPdf: entry.appendToPdf,
+        position: index + 1,
+      })));
+    },
+    onSuccess: (arranged: QuoteAttachmentInfo[]) => {
+      queryClient.setQueryData(queryKey, arranged);
+    },
+    onError: (error: any) => {
+      queryClient.invalidateQueries({ queryKey });
+      toast({
+        title: "Failed to update attachments",
+        description: error.message || "An error occurred while saving the attachment order.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const response = await apiRequest('DELETE', `/api/quote-forms/${quoteId}/attachments/${id}`);
+      return await response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Failed to delete attachment",
+        description: error.message || "An error occurred while deleting the attachment.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const saveOrder = (ordered: QuoteAttachmentInfo[]) => {
+    arrangeMutation.mutate({
+      attachments: ordered.map(({ id, appendToPdf }) => ({ id, appendToPdf })),
+    });
+  };
+
+  const handleMove = (index: number, offset: -1 | 1) => {
+    const ordered = [...attachments];
+    const [moved] = ordered.splice(index, 1);
+    ordered.splice(index + offset, 0, moved);
+    saveOrder(ordered);
+  };
+
+  const handleToggle = (id: string, appendToPdf: boolean) => {
+    saveOrder(attachments.map(attachment => (attachment.id === id ? { ...attachment, appendToPdf } : attachment)));
+  };
+
+  const handleFilesChosen = (fileList: FileList | null) => {
+    if (fileList && fileList.length > 0) uploadMutation.mutate(Array.from(fileList));
+    if (fileInputRef.current) fileInputRef.current.value = '';
+  };
+
+  return (
+    <Card data-testid="card-attachments-section">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Paperclip className="h-5 w-5" />
+          Attachments
+        </CardTitle>
+      </CardHeader>
+
+      <CardContent className="space-y-4">
+        {!quoteId ? (
+          <p className="text-sm text-muted-foreground">Save the quote to attach datasheets and drawings.</p>
+        ) : (
+          <>
+            <div className="flex items-center gap-2">
+              <input
+                ref={fileInputRef}
+                type="file"
+                accept={QUOTE_ATTACHMENT_MIME_TYPES.join(',')}
+                multiple
+                className="hidden"
+                onChange={(e) => handleFilesChosen(e.target.files)}
+                data-testid="input-attachment-file"
+              />
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => fileInputRef.current?.click()}
+                disabled={uploadMutation.isPending}
+                data-testid="button-add-attachment"
+              >
+                {uploadMutation.isPending ? (
+                  <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                ) : (
+                  <Upload className="h-4 w-4 mr-2" />
+                )}
+                Add PDF or Image
+              </Button>
+              <span className="text-xs text-muted-foreground">Checked files follow the IP & Contact page, in this order.</span>
+            </div>
+
+            {isLoading ? (
+              <p className="text-sm text-muted-foreground">Loading attachments...</p>
+            ) : attachments.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No attachments yet.</p>
+            ) : (
+              <div className="border rounded-md divide-y">
+                {attachments.map((attachment, index) => (
+                  <div
+                    key={attachment.id}
+                    className="flex items-center gap-2 px-3 py-2 text-sm"
+                    data-testid={`row-attachment-${attachment.id}`}
+                  >
+                    <Checkbox
+                      checked={attachment.appendToPdf}
+                      onCheckedChange={(checked) => handleToggle(attachment.id, checked === true)}
+                      aria-label="Append to PDF"
+                      data-testid={`checkbox-attachment-pdf-${attachment.id}`}
+                    />
+                    {attachment.mimeType === 'application/pdf' ? (
+                      <FileText className="h-4 w-4 text-muted-foreground shrink-0" />
+                    ) : (
+                      <Image className="h-4 w-4 text-muted-foreground shrink-0" />
+                    )}
+                    <a
+                      href={`/api/quote-forms/${quoteId}/attachments/${attachment.id}/file`}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="flex-1 truncate hover:underline"
+                      data-testid={`link-attachment-${attachment.id}`}
+                    >
+                      {attachment.fileName}
+                    </a>
+                    <span className="text-xs text-muted-foreground whitespace-nowrap">{formatFileSize(attachment.size)}</span>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => handleMove(index, -1)}
+                      disabled={index === 0 || arrangeMutation.isPending}
+                      data-testid={`button-attachment-up-${attachment.id}`}
+                    >
+                      <ArrowUp className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => handleMove(index, 1)}
+                      disabled={index === attachments.length - 1 || arrangeMutation.isPending}
+                      data-testid={`button-attachment-down-${attachment.id}`}
+                    >
+                      <ArrowDown className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => deleteMutation.mutate(attachment.id)}
+                      disabled={deleteMutation.isPending}
+                      data-testid={`button-delete-attachment-${attachment.id}`}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                ))}
+              </div>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
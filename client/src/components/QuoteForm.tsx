@@ -13,13 +13,29 @@ import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, D
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Badge } from "@/components/ui/badge";
-import { Download, FileSpreadsheet, Save, FolderOpen, FileText, Plus, Trash2, ChevronDown, ChevronUp, Settings } from "lucide-react";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Download, FileSpreadsheet, Save, FolderOpen, FileText, Plus, Trash2, ChevronDown, ChevronUp, ChevronLeft, ChevronRight, Settings, RotateCcw, Search, Copy, Archive, LogOut, Users, UserRound, ShieldCheck } from "lucide-react";
 import ExcelUpload from "./ExcelUpload";
 import SettingsDialog from "./SettingsDialog";
+import BackupDialog from "./BackupDialog";
+import UsersDialog from "./UsersDialog";
+import ProfileDialog from "./ProfileDialog";
+import ApprovalsDialog from "./ApprovalsDialog";
+import CloneQuoteDialog from "./CloneQuoteDialog";
+import QuoteAttachmentsSection from "./QuoteAttachmentsSection";
+import QuoteActivityPanel from "./QuoteActivityPanel";
+import QuoteStatusControl, { QuoteStatusBadge } from "./QuoteStatusControl";
+import QuoteOwnerControl from "./QuoteOwnerControl";
+import { QUOTE_STATUSES, QUOTE_STATUS_LABELS } from "@shared/quoteStatus";
+import { DEFAULT_VALIDITY_DAYS, formatValidityDate } from "@shared/quoteValidity";
+import { approvalCovers, isAwaitingApproval, type QuoteDiscountCheck } from "@shared/quoteApproval";
 import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
-import { apiRequest } from "@/lib/queryClient";
-import type { QuoteFormData, ColumnVisibility, ContactInfo, BomGroup, TemplateSettings } from "@shared/schema";
+import { apiRequest, ApiError } from "@/lib/queryClient";
+import { mergeQuotes } from "@/lib/quoteMerge";
+import type { QuoteFormData, QuoteListPage, QuoteSearchResult, QuoteSearchMatch, ColumnVisibility, ContactInfo, BomGroup, TemplateSettings, Customer, SalesPerson, PublicUser, QuoteListScope, QuoteDiscountCheckRequest } from "@shared/schema";
 import type { ParsedExcelData } from "../lib/excelParser";
 
 // Import defaultTemplateSettings with proper ES6 import and fallback
@@ -95,9 +111,9 @@ const MOCK_INITIAL_DATA: QuoteFormData = {
     totalPrice: false,
   },
   contactInfo: {
-    salesPersonName: "David Gilboa",
-    phone: "+97252-750-3069",
-    email: "david.gilboa@emetdorcom.co.il",
+    salesPersonName: "",
+    phone: "",
+    email: "",
   },
   bomGroups: [],
   bomItems: [], // Legacy compatibility
@@ -106,6 +122,19 @@ const MOCK_INITIAL_DATA: QuoteFormData = {
   lastModified: new Date().toISOString(),
 };
 
+const QUOTE_LIST_PAGE_SIZE = 20;
+
+const SEARCH_FIELD_LABELS: Record<QuoteSearchMatch['field'], string> = {
+  quoteNumber: 'Quote number',
+  quoteSubject: 'Subject',
+  customerCompany: 'Customer',
+  salesPersonName: 'Sales person',
+  bomGroupName: 'BOM group',
+  partNumber: 'Part number',
+  productDescription: 'Description',
+  costDescription: 'Cost line',
+};
+
 export default function QuoteForm() {
   const [formData, setFormData] = useState<QuoteFormData>(MOCK_INITIAL_DATA);
   const [customerLogoUrl, setCustomerLogoUrl] = useState<string>("");
@@ -113,8 +142,24 @@ export default function QuoteForm() {
   const [quoteName, setQuoteName] = useState<string>("");
   const [isOpenDialogOpen, setIsOpenDialogOpen] = useState(false);
   const [isSaveAsDialogOpen, setIsSaveAsDialogOpen] = useState(false);
+  const [isCloneDialogOpen, setIsCloneDialogOpen] = useState(false);
   const [isSettingsDialogOpen, setIsSettingsDialogOpen] = useState(false);
+  const [isBackupDialogOpen, setIsBackupDialogOpen] = useState(false);
+  const [isUsersDialogOpen, setIsUsersDialogOpen] = useState(false);
+  const [isProfileDialogOpen, setIsProfileDialogOpen] = useState(false);
+  const [isApprovalsDialogOpen, setIsApprovalsDialogOpen] = useState(false);
   const [searchQuery, setSearchQuery] = useState<string>("");
+  const [quoteListPage, setQuoteListPage] = useState(1);
+  const [quoteListSort, setQuoteListSort] = useState("lastModified:desc");
+  const [quoteListCurrency, setQuoteListCurrency] = useState("all");
+  const [quoteListStatus, setQuoteListStatus] = useState("all");
+  const [quoteListScope, setQuoteListScope] = useState<QuoteListScope>("mine");
+  const [quoteListDateFrom, setQuoteListDateFrom] = useState("");
+  const [quoteListDateTo, setQuoteListDateTo] = useState("");
+  const [contentSearchQuery, setContentSearchQuery] = useState("");
+  // Server copy the current edits are based on (used as the base of a conflict merge)
+  const [baseQuote, setBaseQuote] = useState<QuoteFormData | null>(null);
+  const [quoteConflict, setQuoteConflict] = useState<{ local: QuoteFormData; server: QuoteFormData } | null>(null);
   
   // Section collapse states
   const [sectionsCollapsed, setSectionsCollapsed] = useState({
@@ -132,6 +177,7 @@ export default function QuoteForm() {
     }));
   };
   const { toast } = useToast();
+  const { user, can, logoutMutation } = useAuth();
   const queryClient = useQueryClient();
 
   // Fetch template settings from backend
@@ -152,22 +198,108 @@ export default function QuoteForm() {
   // Debounce form data for performance optimization (200ms as specified)
   const debouncedFormData = useDebounce(formData, 200);
 
+  // Discount and margin against the limits in settings, so export and sending can wait for approval
+  const discountCheckRequest: QuoteDiscountCheckRequest = {
+    currency: debouncedFormData.currency,
+    bomGroups: debouncedFormData.bomGroups,
+    bomItems: debouncedFormData.bomItems,
+    costItems: debouncedFormData.costItems,
+  };
+  const { data: discountCheck } = useQuery<QuoteDiscountCheck>({
+    queryKey: ['/api/quote-forms/discount-check', discountCheckRequest, templateSettings?.maxDiscountPercent, templateSettings?.minMarginPercent],
+    queryFn: async () => {
+      const response = await apiRequest('POST', '/api/quote-forms/discount-check', discountCheckRequest);
+      return await response.json();
+    },
+    staleTime: 0, // Catalog costs can change between checks
+  });
+
+  // Why the PDF cannot be exported or the quote sent yet; undefined when nothing waits for approval
+  const approvalBlockedReason = (() => {
+    const { approval } = formData;
+    const needsApproval = discountCheck
+      ? discountCheck.reasons.length > 0 && !approvalCovers(approval, discountCheck)
+      : isAwaitingApproval(approval);
+    if (!needsApproval) {
+      // The saved request only goes away when the quote is saved within the limits
+      return isAwaitingApproval(approval) ? "Save the quote to withdraw the approval request" : undefined;
+    }
+    if (approval?.status === 'pending') return "Waiting for a manager to approve the discount";
+    const unchangedSinceRejection = approval?.status === 'rejected' && (!discountCheck
+      || (approval.discountPercent === discountCheck.discountPercent && approval.marginPercent === discountCheck.marginPercent));
+    if (unchangedSinceRejection) return `Discount rejected${approval.comment ? `: ${approval.comment}` : ''}`;
+    return "Save the quote to request discount approval";
+  })();
+
   // API queries and mutations for quote management  
-  const { data: quotes = [], isLoading: isLoadingQuotes } = useQuery<any[]>({
-    queryKey: ['/api/quote-forms'],
+  const debouncedSearchQuery = useDebounce(searchQuery, 300);
+  const quoteListParams = (() => {
+    const [sort, order] = quoteListSort.split(':');
+    const params = new URLSearchParams({ page: String(quoteListPage), pageSize: String(QUOTE_LIST_PAGE_SIZE), sort, order, scope: quoteListScope });
+    if (debouncedSearchQuery.trim()) params.set('search', debouncedSearchQuery.trim());
+    if (quoteListCurrency !== 'all') params.set('currency', quoteListCurrency);
+    if (quoteListStatus !== 'all') params.set('status', quoteListStatus);
+    if (quoteListDateFrom) params.set('dateFrom', quoteListDateFrom);
+    if (quoteListDateTo) params.set('dateTo', quoteListDateTo);
+    return params.toString();
+  })();
+
+  // Filtering, sorting and paging happen on the server; the list only holds summaries
+  const { data: quoteList, isLoading: isLoadingQuotes } = useQuery<QuoteListPage>({
+    queryKey: ['/api/quote-forms', quoteListParams],
+    queryFn: async () => {
+      const response = await apiRequest('GET', `/api/quote-forms?${quoteListParams}`);
+      return await response.json();
+    },
     enabled: isOpenDialogOpen, // Only fetch when dialog is open for performance
   });
+  const quotes = quoteList?.items ?? [];
+  const quoteListTotal = quoteList?.total ?? 0;
+  const quoteListPageCount = Math.max(1, Math.ceil(quoteListTotal / QUOTE_LIST_PAGE_SIZE));
+  const hasQuoteListFilters = Boolean(debouncedSearchQuery.trim() || quoteListCurrency !== 'all' || quoteListStatus !== 'all' || quoteListDateFrom || quoteListDateTo);
+
+  // Any filter change starts again from the first page
+  useEffect(() => {
+    setQuoteListPage(1);
+  }, [debouncedSearchQuery, quoteListSort, quoteListCurrency, quoteListStatus, quoteListDateFrom, quoteListDateTo, quoteListScope]);
 
-  // Filter quotes based on search query
-  const filteredQuotes = quotes.filter((quote: any) => {
-    if (!searchQuery.trim()) return true;
-    const query = searchQuery.toLowerCase();
-    return (
-      (quote.quoteSubject || '').toLowerCase().includes(query) ||
-      (quote.customerCompany || '').toLowerCase().includes(query) ||
-      (quote.salesPersonName || '').toLowerCase().includes(query)
-    );
+  // Owner names for the team view
+  const { data: users = [] } = useQuery<PublicUser[]>({
+    queryKey: ['/api/users'],
+    enabled: isOpenDialogOpen && quoteListScope === 'team',
   });
+  const ownerName = (ownerId?: string | null) => users.find(candidate => candidate.id === ownerId)?.username ?? 'No owner';
+
+  // Full-text search over quote contents (part numbers, descriptions, cost lines)
+  const debouncedContentSearchQuery = useDebounce(contentSearchQuery.trim(), 300);
+  const { data: contentSearch, isFetching: isSearchingContents } = useQuery<{ total: number; results: QuoteSearchResult[] }>({
+    queryKey: ['/api/quote-forms/search', debouncedContentSearchQuery],
+    queryFn: async () => {
+      const response = await apiRequest('GET', `/api/quote-forms/search?q=${encodeURIComponent(debouncedContentSearchQuery)}`);
+      return await response.json();
+    },
+    enabled: isOpenDialogOpen && debouncedContentSearchQuery.length > 0,
+  });
+
+  const { data: trashedQuotes = [], isLoading: isLoadingTrash } = useQuery<QuoteFormData[]>({
+    queryKey: ['/api/quote-forms/trash'],
+    enabled: isOpenDialogOpen,
+  });
+
+  const trashRetentionDays = templateSettings?.trashRetentionDays || 30;
+
+  // Where a search match was found, e.g. "BOM 1, line 3"
+  const describeSearchMatchLocation = (match: QuoteSearchMatch) => {
+    if (match.field === 'costDescription') return `Costs, line ${match.line}`;
+    if (match.line) return `${match.groupName}, line ${match.line}`;
+    return null;
+  };
+
+  // Days left before a trashed quote is purged automatically
+  const getDaysUntilPurge = (deletedAt: string) => {
+    const purgeAt = new Date(deletedAt).getTime() + trashRetentionDays * 24 * 60 * 60 * 1000;
+    return Math.max(0, Math.ceil((purgeAt - Date.now()) / (24 * 60 * 60 * 1000)));
+  };
 
   const saveQuoteMutation = useMutation({
     mutationFn: async ({ quoteData, forceCreate = false }: { quoteData: QuoteFormData; forceCreate?: boolean }) => {
@@ -187,13 +319,33 @@ export default function QuoteForm() {
         setCurrentQuoteId(savedQuote.id);
         setQuoteName(savedQuote.quoteSubject || 'Untitled Quote');
       }
+      // Server-managed fields: the quote number is assigned on first save, the revision changes on every save
+      setFormData(prev => ({
+        ...prev,
+        quoteNumber: savedQuote.quoteNumber,
+        revision: savedQuote.revision,
+        status: savedQuote.status,
+        statusHistory: savedQuote.statusHistory,
+        createdBy: savedQuote.createdBy,
+        ownerId: savedQuote.ownerId,
+        approval: savedQuote.approval,
+      }));
+      setBaseQuote(savedQuote);
       queryClient.invalidateQueries({ queryKey: ['/api/quote-forms'] });
       toast({
         title: "Quote saved successfully!",
         description: `Quote "${savedQuote.quoteSubject || 'Untitled'}" has been saved.`,
       });
     },
-    onError: (error: any) => {
+    onError: (error: any, { quoteData }) => {
+      // Someone else saved this quote since we loaded it: let the user decide how to resolve it
+      if (error instanceof ApiError && error.status === 409) {
+        const current = error.json<{ current?: QuoteFormData }>()?.current;
+        if (current) {
+          setQuoteConflict({ local: quoteData, server: current });
+          return;
+        }
+      }
       toast({
         title: "Failed to save quote",
         description: error.message || "An error occurred while saving the quote.",
@@ -209,9 +361,53 @@ export default function QuoteForm() {
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['/api/quote-forms'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/quote-forms/trash'] });
+      toast({
+        title: "Quote moved to trash",
+        description: `You can restore it from the Trash tab within ${trashRetentionDays} days.`,
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Failed to delete quote",
+        description: error.message || "An error occurred while deleting the quote.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const restoreQuoteMutation = useMutation({
+    mutationFn: async (quoteId: string) => {
+      const response = await apiRequest('POST', `/api/quote-forms/${quoteId}/restore`);
+      return await response.json();
+    },
+    onSuccess: (restoredQuote: QuoteFormData) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/quote-forms'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/quote-forms/trash'] });
       toast({
-        title: "Quote deleted",
-        description: "The quote has been successfully deleted.",
+        title: "Quote restored",
+        description: `Quote "${restoredQuote.quoteSubject || 'Untitled'}" is back in your quote list.`,
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Failed to restore quote",
+        description: error.message || "An error occurred while restoring the quote.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const purgeQuoteMutation = useMutation({
+    mutationFn: async (quoteId: string) => {
+      const response = await apiRequest('DELETE', `/api/quote-forms/${quoteId}/purge`);
+      return await response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/quote-forms/trash'] });
+      toast({
+        title: "Quote permanently deleted",
+        description: "The quote has been removed from the trash.",
       });
     },
     onError: (error: any) => {
@@ -231,6 +427,8 @@ export default function QuoteForm() {
   const handleSaveAsQuote = (newName: string) => {
     const quoteToSave = {
       ...formData,
+      quoteNumber: undefined, // A copy gets its own number
+      parentQuoteId: undefined, // and is not a version of the original
       quoteSubject: newName || formData.quoteSubject,
     };
     // Force create new quote instead of updating existing one
@@ -243,10 +441,11 @@ export default function QuoteForm() {
     setFormData(migratedData);
     setCurrentQuoteId(quote.id);
     setQuoteName(quote.quoteSubject || 'Untitled Quote');
+    setBaseQuote(quote);
     
     // Handle logo preview restoration (graceful degradation for now)
-    // If customerLogo is a URL, restore it; otherwise, clear the preview
-    if (quote.customerLogo && quote.customerLogo.startsWith('http')) {
+    // If customerLogo is a URL (or a data URL from the customer directory), restore it; otherwise, clear the preview
+    if (quote.customerLogo && (quote.customerLogo.startsWith('http') || quote.customerLogo.startsWith('data:'))) {
       setCustomerLogoUrl(quote.customerLogo);
     } else {
       setCustomerLogoUrl('');
@@ -262,9 +461,54 @@ export default function QuoteForm() {
     });
   };
 
+  // The list only has summaries, so fetch the full quote before opening it
+  const handleOpenQuoteById = async (quoteId: string) => {
+    try {
+      const response = await apiRequest('GET', `/api/quote-forms/${quoteId}`);
+      handleOpenQuote(await response.json());
+    } catch (error: any) {
+      toast({
+        title: "Failed to open quote",
+        description: error.message || "An error occurred while loading the quote.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  // Conflict resolution: keep local edits on top of the newer server revision
+  const handleOverwriteConflict = () => {
+    if (!quoteConflict) return;
+    saveQuoteMutation.mutate({ quoteData: { ...formData, revision: quoteConflict.server.revision } });
+    setQuoteConflict(null);
+  };
+
+  // Conflict resolution: discard local edits and load the server copy
+  const handleReloadConflict = () => {
+    if (!quoteConflict) return;
+    handleOpenQuote(quoteConflict.server);
+    setQuoteConflict(null);
+  };
+
+  // Conflict resolution: merge both sides and let the user review before saving again
+  const handleMergeConflict = () => {
+    if (!quoteConflict) return;
+    const { server } = quoteConflict;
+    const { merged, conflicts } = mergeQuotes(baseQuote ?? server, formData, server);
+    setFormData(migrateLegacyBomData(merged));
+    setBaseQuote(server);
+    setQuoteConflict(null);
+    toast({
+      title: "Changes merged",
+      description: conflicts.length > 0
+        ? `Both you and another user changed: ${conflicts.join(', ')}. Your version was kept. Review and save again.`
+        : "Changes from the other user were merged. Review and save again.",
+    });
+  };
+
   const handleNewQuote = () => {
     setFormData(MOCK_INITIAL_DATA);
     setCurrentQuoteId(null);
+    setBaseQuote(null);
     setQuoteName("");
     setCustomerLogoUrl("");
     setSearchQuery(""); // Clear search when creating new quote
@@ -278,6 +522,16 @@ export default function QuoteForm() {
     deleteQuoteMutation.mutate(quoteId);
   };
 
+  const handleRestoreQuote = (quoteId: string) => {
+    restoreQuoteMutation.mutate(quoteId);
+  };
+
+  const handlePurgeQuote = (quoteId: string) => {
+    if (window.confirm('Permanently delete this quote? This cannot be undone.')) {
+      purgeQuoteMutation.mutate(quoteId);
+    }
+  };
+
   useEffect(() => {
     // Load saved data from localStorage on component mount for backwards compatibility
     // This will be migrated to proper quote loading in the future
@@ -347,6 +601,38 @@ export default function QuoteForm() {
     }
   };
 
+  // Fill the header from a directory customer; the quote keeps its own copy of the details
+  const handleCustomerSelect = (customer: Customer | null) => {
+    if (!customer) {
+      setFormData(prev => ({ ...prev, customerId: undefined }));
+      return;
+    }
+    setCustomerLogoUrl(customer.logo || "");
+    setFormData(prev => ({
+      ...prev,
+      customerId: customer.id,
+      customerCompany: customer.name,
+      customerLogo: customer.logo || "",
+      currency: customer.defaultCurrency || prev.currency,
+      paymentTerms: customer.defaultPaymentTerms || prev.paymentTerms,
+    }));
+  };
+
+  // Selecting a salesperson fills the contact block from the sales team directory
+  const handleSalesPersonSelect = (salesPerson: SalesPerson) => {
+    setFormData(prev => ({
+      ...prev,
+      salesPersonName: salesPerson.name,
+      contactInfo: {
+        salesPersonName: salesPerson.name,
+        role: salesPerson.role || undefined,
+        phone: salesPerson.phone || "",
+        email: salesPerson.email || "",
+        signature: salesPerson.signature || undefined,
+      },
+    }));
+  };
+
   const handleSectionClick = (section: string) => {
     console.log(`Jumping to section: ${section}`);
     // TODO: Implement section focus functionality
@@ -498,6 +784,17 @@ export default function QuoteForm() {
         <Save className="h-4 w-4 mr-2" />
         Save As...
       </Button>
+
+      <Button
+        variant="outline"
+        onClick={() => setIsCloneDialogOpen(true)}
+        disabled={!currentQuoteId}
+        data-testid="button-clone-quote"
+        size="sm"
+      >
+        <Copy className="h-4 w-4 mr-2" />
+        Clone...
+      </Button>
       
       <Button
         variant="outline"
@@ -519,26 +816,111 @@ export default function QuoteForm() {
         New
       </Button>
       
+      {can('settings.edit') && (
+        <Button
+          variant="outline"
+          onClick={() => setIsSettingsDialogOpen(true)}
+          data-testid="button-settings"
+          size="sm"
+        >
+          <Settings className="h-4 w-4 mr-2" />
+          Settings
+        </Button>
+      )}
+
+      {can('backup.manage') && (
+        <Button
+          variant="outline"
+          onClick={() => setIsBackupDialogOpen(true)}
+          data-testid="button-backup"
+          size="sm"
+        >
+          <Archive className="h-4 w-4 mr-2" />
+          Backup
+        </Button>
+      )}
+
+      {can('quotes.approve') && (
+        <Button
+          variant="outline"
+          onClick={() => setIsApprovalsDialogOpen(true)}
+          data-testid="button-approvals"
+          size="sm"
+        >
+          <ShieldCheck className="h-4 w-4 mr-2" />
+          Approvals
+        </Button>
+      )}
+
+      {can('users.manage') && (
+        <Button
+          variant="outline"
+          onClick={() => setIsUsersDialogOpen(true)}
+          data-testid="button-users"
+          size="sm"
+        >
+          <Users className="h-4 w-4 mr-2" />
+          Users
+        </Button>
+      )}
+
       <Button
-        variant="outline"
-        onClick={() => setIsSettingsDialogOpen(true)}
-        data-testid="button-settings"
+        variant="ghost"
+        onClick={() => setIsProfileDialogOpen(true)}
+        title="Profile and API tokens"
+        data-testid="button-profile"
         size="sm"
       >
-        <Settings className="h-4 w-4 mr-2" />
-        Settings
+        <UserRound className="h-4 w-4 mr-2" />
+        {user?.username}
+      </Button>
+
+      <Button
+        variant="ghost"
+        onClick={() => logoutMutation.mutate()}
+        disabled={logoutMutation.isPending}
+        title={user ? `Logged in as ${user.username}` : undefined}
+        data-testid="button-logout"
+        size="sm"
+      >
+        <LogOut className="h-4 w-4 mr-2" />
+        Log Out
       </Button>
     </>
   );
 
   // Current Quote Badge for Header
   const currentQuoteBadge = currentQuoteId ? (
-    <Badge variant="outline" data-testid="badge-current-quote">
-      {quoteName || formData.quoteSubject || 'Untitled Quote'}
-    </Badge>
+    <div className="flex items-center gap-1">
+      <Badge variant="outline" data-testid="badge-current-quote">
+        {quoteName || formData.quoteSubject || 'Untitled Quote'}
+      </Badge>
+      <QuoteStatusControl
+        quoteId={currentQuoteId}
+        status={formData.status}
+        statusHistory={formData.statusHistory}
+        sendBlockedReason={approvalBlockedReason}
+        onStatusChanged={(updatedQuote) => {
+          setFormData(prev => ({ ...prev, status: updatedQuote.status, statusHistory: updatedQuote.statusHistory }));
+        }}
+      />
+      <QuoteOwnerControl
+        quoteId={currentQuoteId}
+        ownerId={formData.ownerId}
+        onOwnerChanged={(updatedQuote) => {
+          setFormData(prev => ({ ...prev, ownerId: updatedQuote.ownerId }));
+        }}
+      />
+      {approvalBlockedReason && (
+        <Badge variant="secondary" title={approvalBlockedReason} data-testid="badge-approval">
+          <ShieldCheck className="h-3 w-3 mr-1" />
+          {formData.approval?.status === 'rejected' ? 'Discount rejected' : formData.approval?.status === 'pending' ? 'Awaiting approval' : 'Needs approval'}
+        </Badge>
+      )}
+    </div>
   ) : null;
 
-  const inputPanel = (
+  const quoteDetailsPanel = (
     <div className="space-y-6" data-testid="input-form">
       {/* Excel Templates - Now FIRST and Collapsible */}
       <Card data-testid="card-excel-templates">
@@ -615,11 +997,15 @@ export default function QuoteForm() {
         quoteSubject={formData.quoteSubject}
         customerCompany={formData.customerCompany}
         customerLogo={customerLogoUrl}
+        customerId={formData.customerId}
         salesPersonName={formData.salesPersonName}
         date={formData.date}
         version={formData.version}
         paymentTerms={formData.paymentTerms}
         currency={formData.currency}
+        validityDays={formData.validityDays}
+        validUntilDate={formData.validUntilDate}
+        defaultValidityDays={templateSettings?.defaultValidityDays || DEFAULT_VALIDITY_DAYS}
         bomEnabled={formData.bomEnabled}
         costsEnabled={formData.costsEnabled}
         contactInfo={formData.contactInfo}
@@ -630,7 +1016,9 @@ export default function QuoteForm() {
           setFormData(prev => ({ ...prev, customerCompany: value }))
         }
         onCustomerLogoChange={handleLogoChange}
-        onSalesPersonChange={(value) => 
+        onCustomerSelect={handleCustomerSelect}
+        onSalesPersonSelect={handleSalesPersonSelect}
+        onSalesPersonNameChange={(value) =>
           setFormData(prev => ({ ...prev, salesPersonName: value }))
         }
         onDateChange={(value) => 
@@ -645,6 +1033,9 @@ export default function QuoteForm() {
         onCurrencyChange={(value) => 
           setFormData(prev => ({ ...prev, currency: value }))
         }
+        onValidityChange={(validity) =>
+          setFormData(prev => ({ ...prev, validityDays: validity.validityDays, validUntilDate: validity.validUntilDate }))
+        }
         onBomEnabledChange={(enabled) => 
           setFormData(prev => ({ ...prev, bomEnabled: enabled }))
         }
@@ -661,6 +1052,8 @@ export default function QuoteForm() {
           bomEnabled={formData.bomEnabled}
           bomGroups={formData.bomGroups || []}
           columnVisibility={formData.columnVisibility}
+          currency={formData.currency}
+          currentQuoteId={currentQuoteId}
           onBomEnabledChange={(enabled) => 
             setFormData(prev => ({ ...prev, bomEnabled: enabled }))
           }
@@ -694,11 +1087,29 @@ export default function QuoteForm() {
           }
         />
       )}
+
+      <QuoteAttachmentsSection quoteId={currentQuoteId} />
     </div>
   );
 
+  // Activity only exists once the quote has been saved
+  const inputPanel = currentQuoteId ? (
+    <Tabs defaultValue="details">
+      <TabsList className="grid w-full grid-cols-2 mb-4">
+        <TabsTrigger value="details" data-testid="tab-quote-details">Details</TabsTrigger>
+        <TabsTrigger value="activity" data-testid="tab-quote-activity">Activity</TabsTrigger>
+      </TabsList>
+      <TabsContent value="details">{quoteDetailsPanel}</TabsContent>
+      <TabsContent value="activity">
+        <QuoteActivityPanel quoteId={currentQuoteId} />
+      </TabsContent>
+    </Tabs>
+  ) : quoteDetailsPanel;
+
   const previewPanel = (
     <QuotePreview
+      quoteId={currentQuoteId || undefined}
+      quoteNumber={debouncedFormData.quoteNumber}
       quoteSubject={debouncedFormData.quoteSubject}
       customerCompany={debouncedFormData.customerCompany}
       customerLogo={customerLogoUrl}
@@ -707,6 +1118,9 @@ export default function QuoteForm() {
       version={debouncedFormData.version}
       paymentTerms={debouncedFormData.paymentTerms}
       currency={debouncedFormData.currency}
+      validityDays={debouncedFormData.validityDays}
+      validUntilDate={debouncedFormData.validUntilDate}
+      defaultValidityDays={templateSettings?.defaultValidityDays || DEFAULT_VALIDITY_DAYS}
       bomEnabled={debouncedFormData.bomEnabled}
       costsEnabled={debouncedFormData.costsEnabled}
       columnVisibility={debouncedFormData.columnVisibility}
@@ -715,6 +1129,8 @@ export default function QuoteForm() {
       costItems={debouncedFormData.costItems}
       onSectionClick={handleSectionClick}
       templateSettings={debouncedFormData.templateSettings || templateSettings || defaultTemplateSettings}
+      exportBlockedReason={approvalBlockedReason}
+      approval={formData.approval}
     />
   );
 
@@ -779,88 +1195,419 @@ export default function QuoteForm() {
         </DialogContent>
       </Dialog>
 
+      {/* Clone Dialog */}
+      {currentQuoteId && (
+        <CloneQuoteDialog
+          open={isCloneDialogOpen}
+          onOpenChange={setIsCloneDialogOpen}
+          quoteId={currentQuoteId}
+          version={formData.version}
+          onCloned={(result) => handleOpenQuote(result.quote)}
+        />
+      )}
+
+      {/* Save Conflict Dialog */}
+      <Dialog open={quoteConflict !== null} onOpenChange={(open) => !open && setQuoteConflict(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Quote Changed by Someone Else</DialogTitle>
+            <DialogDescription>
+              This quote was saved by another user while you were editing it
+              {quoteConflict?.server.lastModified && (
+                <> (revision {quoteConflict.server.revision}, {new Date(quoteConflict.server.lastModified).toLocaleString()})</>
+              )}
+              . Choose how to continue.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="grid gap-3 py-4 text-sm text-muted-foreground">
+            <p><span className="font-medium text-foreground">Overwrite</span> saves your version and replaces their changes.</p>
+            <p><span className="font-medium text-foreground">Reload</span> discards your changes and opens their version.</p>
+            <p><span className="font-medium text-foreground">Merge</span> combines both versions so you can review before saving.</p>
+          </div>
+          <DialogFooter>
+            <Button
+              variant="outline"
+              onClick={() => setQuoteConflict(null)}
+              data-testid="button-cancel-conflict"
+            >
+              Cancel
+            </Button>
+            <Button
+              variant="outline"
+              onClick={handleReloadConflict}
+              data-testid="button-reload-conflict"
+            >
+              Reload
+            </Button>
+            <Button
+              variant="outline"
+              onClick={handleMergeConflict}
+              data-testid="button-merge-conflict"
+            >
+              Merge
+            </Button>
+            <Button
+              variant="destructive"
+              onClick={handleOverwriteConflict}
+              data-testid="button-overwrite-conflict"
+            >
+              Overwrite
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
       {/* Open Quote Dialog */}
       <Dialog open={isOpenDialogOpen} onOpenChange={setIsOpenDialogOpen}>
         <DialogContent className="max-w-4xl max-h-[80vh] overflow-hidden">
           <DialogHeader>
             <DialogTitle>Open Quote</DialogTitle>
             <DialogDescription>
-              Select a quote to open and edit.
+              Select a quote to open and edit, or restore a deleted quote from the trash.
             </DialogDescription>
           </DialogHeader>
-          <div className="px-6 pb-4">
-            <Input
-              placeholder="Search quotes by name, customer, or sales person..."
-              value={searchQuery}
-              onChange={(e) => setSearchQuery(e.target.value)}
-              data-testid="input-search-quotes"
-              className="w-full"
-            />
-          </div>
-          <div className="grid gap-4 py-4 overflow-y-auto max-h-[60vh]">
-            {isLoadingQuotes ? (
-              <div className="text-center py-8">
-                <p>Loading quotes...</p>
+          <Tabs defaultValue="quotes" className="w-full">
+            <TabsList className="grid w-full grid-cols-3">
+              <TabsTrigger value="quotes" data-testid="tab-quotes">
+                <FolderOpen className="h-4 w-4 mr-2" />
+                Quotes
+              </TabsTrigger>
+              <TabsTrigger value="contents" data-testid="tab-search-contents">
+                <Search className="h-4 w-4 mr-2" />
+                Search Contents
+              </TabsTrigger>
+              <TabsTrigger value="trash" data-testid="tab-trash">
+                <Trash2 className="h-4 w-4 mr-2" />
+                Trash{trashedQuotes.length > 0 ? ` (${trashedQuotes.length})` : ''}
+              </TabsTrigger>
+            </TabsList>
+            <TabsContent value="quotes">
+              <div className="px-6 pb-4 space-y-3">
+                <Input
+                  placeholder="Search quotes by name, number, customer, or sales person..."
+                  value={searchQuery}
+                  onChange={(e) => setSearchQuery(e.target.value)}
+                  data-testid="input-search-quotes"
+                  className="w-full"
+                />
+                <div className="flex flex-wrap items-center gap-2">
+                  {can('quotes.viewTeam') && (
+                    <Select value={quoteListScope} onValueChange={(scope) => setQuoteListScope(scope as QuoteListScope)}>
+                      <SelectTrigger className="w-36" data-testid="select-quote-scope">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="mine">My quotes</SelectItem>
+                        <SelectItem value="team">Team quotes</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  )}
+                  <Select value={quoteListSort} onValueChange={setQuoteListSort}>
+                    <SelectTrigger className="w-48" data-testid="select-quote-sort">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="lastModified:desc">Recently modified</SelectItem>
+                      <SelectItem value="date:desc">Quote date (newest)</SelectItem>
+                      <SelectItem value="date:asc">Quote date (oldest)</SelectItem>
+                      <SelectItem value="quoteNumber:desc">Quote number</SelectItem>
+                      <SelectItem value="customerCompany:asc">Customer (A-Z)</SelectItem>
+                      <SelectItem value="quoteSubject:asc">Subject (A-Z)</SelectItem>
+                    </SelectContent>
+                  </Select>
+                  <Select value={quoteListCurrency} onValueChange={setQuoteListCurrency}>
+                    <SelectTrigger className="w-32" data-testid="select-quote-currency-filter">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="all">All currencies</SelectItem>
+                      <SelectItem value="USD">USD</SelectItem>
+                      <SelectItem value="NIS">NIS</SelectItem>
+                      <SelectItem value="EUR">EUR</SelectItem>
+                    </SelectContent>
+                  </Select>
+                  <Select value={quoteListStatus} onValueChange={setQuoteListStatus}>
+                    <SelectTrigger className="w-36" data-testid="select-quote-status-filter">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="all">All statuses</SelectItem>
+                      {QUOTE_STATUSES.map((status) => (
+                        <SelectItem key={status} value={status}>{QUOTE_STATUS_LABELS[status]}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Input
+                    type="date"
+                    value={quoteListDateFrom}
+                    onChange={(e) => setQuoteListDateFrom(e.target.value)}
+                    className="w-40"
+                    aria-label="Quote date from"
+                    data-testid="input-quote-date-from"
+                  />
+                  <span className="text-sm text-muted-foreground">to</span>
+                  <Input
+                    type="date"
+                    value={quoteListDateTo}
+                    onChange={(e) => setQuoteListDateTo(e.target.value)}
+                    className="w-40"
+                    aria-label="Quote date to"
+                    data-testid="input-quote-date-to"
+                  />
+                </div>
               </div>
-            ) : quotes.length === 0 ? (
-              <div className="text-center py-8">
-                <p className="text-muted-foreground">No saved quotes found.</p>
-                <p className="text-sm text-muted-foreground mt-2">
-                  Start creating quotes and they will appear here.
-                </p>
+              <div className="grid gap-4 py-4 overflow-y-auto max-h-[60vh]">
+                {isLoadingQuotes ? (
+                  <div className="text-center py-8">
+                    <p>Loading quotes...</p>
+                  </div>
+                ) : quotes.length === 0 && !hasQuoteListFilters ? (
+                  <div className="text-center py-8">
+                    <p className="text-muted-foreground">No saved quotes found.</p>
+                    <p className="text-sm text-muted-foreground mt-2">
+                      Start creating quotes and they will appear here.
+                    </p>
+                  </div>
+                ) : quotes.length === 0 ? (
+                  <div className="text-center py-8">
+                    <p className="text-muted-foreground">No quotes match your search.</p>
+                    <p className="text-sm text-muted-foreground mt-2">
+                      Try a different search term or clear the filters to see all quotes.
+                    </p>
+                  </div>
+                ) : (
+                  <div className="space-y-3">
+                    {quotes.map((quote) => (
+                      <div
+                        key={quote.id}
+                        className="flex items-center justify-between p-4 border rounded-lg hover-elevate"
+                        data-testid={`quote-item-${quote.id}`}
+                      >
+                        <div className="flex-1">
+                          <h4 className="font-medium">
+                            {quote.quoteNumber && (
+                              <span className="text-muted-foreground mr-2">{quote.quoteNumber}</span>
+                            )}
+                            {quote.quoteSubject || 'Untitled Quote'}
+                            <span className="ml-2 align-middle">
+                              <QuoteStatusBadge status={quote.status} />
+                            </span>
+                            {quote.isExpired && quote.status !== 'expired' && (
+                              <Badge variant="destructive" className="ml-2 align-middle" data-testid={`badge-expired-${quote.id}`}>
+                                Past validity
+                              </Badge>
+                            )}
+                          </h4>
+                          <div className="flex items-center gap-4 text-sm text-muted-foreground mt-1">
+                            <span>Customer: {quote.customerCompany || 'N/A'}</span>
+                            {quoteListScope === 'team' && (
+                              <span data-testid={`text-quote-owner-${quote.id}`}>Owner: {ownerName(quote.ownerId)}</span>
+                            )}
+                            <span>Version: {quote.version || '1'}</span>
+                            <span>Items: {quote.itemCount}</span>
+                            {quote.validUntil && (
+                              <span>Valid until: {formatValidityDate(quote.validUntil)}</span>
+                            )}
+                            <span>Total: {quote.currency} {quote.grandTotal.toLocaleString()}</span>
+                            <span>
+                              Modified: {new Date(quote.lastModified!).toLocaleDateString()}
+                            </span>
+                          </div>
+                        </div>
+                        <div className="flex items-center gap-2">
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => handleOpenQuoteById(quote.id!)}
+                            data-testid={`button-open-quote-${quote.id}`}
+                          >
+                            <FolderOpen className="h-4 w-4 mr-2" />
+                            Open
+                          </Button>
+                          {can('quotes.deleteOwn') && (
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              onClick={() => handleDeleteQuote(quote.id!)}
+                              disabled={deleteQuoteMutation.isPending}
+                              data-testid={`button-delete-quote-${quote.id}`}
+                            >
+                              <Trash2 className="h-4 w-4" />
+                            </Button>
+                          )}
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                )}
               </div>
-            ) : filteredQuotes.length === 0 ? (
-              <div className="text-center py-8">
-                <p className="text-muted-foreground">No quotes match your search.</p>
-                <p className="text-sm text-muted-foreground mt-2">
-                  Try a different search term or clear the search to see all quotes.
-                </p>
+              {quoteListTotal > 0 && (
+                <div className="flex items-center justify-between px-1 text-sm text-muted-foreground">
+                  <span data-testid="text-quote-list-total">
+                    {quoteListTotal} quote{quoteListTotal === 1 ? '' : 's'}
+                  </span>
+                  <div className="flex items-center gap-2">
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => setQuoteListPage(page => page - 1)}
+                      disabled={quoteListPage <= 1}
+                      data-testid="button-quote-list-previous"
+                    >
+                      <ChevronLeft className="h-4 w-4" />
+                    </Button>
+                    <span>Page {quoteListPage} of {quoteListPageCount}</span>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => setQuoteListPage(page => page + 1)}
+                      disabled={quoteListPage >= quoteListPageCount}
+                      data-testid="button-quote-list-next"
+                    >
+                      <ChevronRight className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+              )}
+            </TabsContent>
+            <TabsContent value="contents">
+              <div className="px-6 pb-4">
+                <Input
+                  placeholder="Search part numbers, descriptions, BOM groups and cost lines..."
+                  value={contentSearchQuery}
+                  onChange={(e) => setContentSearchQuery(e.target.value)}
+                  data-testid="input-search-contents"
+                  className="w-full"
+                />
               </div>
-            ) : (
-              <div className="space-y-3">
-                {filteredQuotes.map((quote: any) => (
-                  <div
-                    key={quote.id}
-                    className="flex items-center justify-between p-4 border rounded-lg hover-elevate"
-                    data-testid={`quote-item-${quote.id}`}
-                  >
-                    <div className="flex-1">
-                      <h4 className="font-medium">
-                        {quote.quoteSubject || 'Untitled Quote'}
-                      </h4>
-                      <div className="flex items-center gap-4 text-sm text-muted-foreground mt-1">
-                        <span>Customer: {quote.customerCompany || 'N/A'}</span>
-                        <span>Version: {quote.version || '1'}</span>
-                        <span>
-                          Modified: {new Date(quote.lastModified).toLocaleDateString()}
-                        </span>
-                      </div>
-                    </div>
-                    <div className="flex items-center gap-2">
-                      <Button
-                        variant="outline"
-                        size="sm"
-                        onClick={() => handleOpenQuote(quote)}
-                        data-testid={`button-open-quote-${quote.id}`}
+              <div className="grid gap-4 py-4 overflow-y-auto max-h-[60vh]">
+                {!debouncedContentSearchQuery ? (
+                  <div className="text-center py-8">
+                    <p className="text-muted-foreground">Find every quote that contains a part number or description.</p>
+                  </div>
+                ) : isSearchingContents && !contentSearch ? (
+                  <div className="text-center py-8">
+                    <p>Searching...</p>
+                  </div>
+                ) : !contentSearch || contentSearch.results.length === 0 ? (
+                  <div className="text-center py-8">
+                    <p className="text-muted-foreground">No quotes contain "{debouncedContentSearchQuery}".</p>
+                  </div>
+                ) : (
+                  <div className="space-y-3">
+                    {contentSearch.results.map(({ quote, matches }) => (
+                      <div
+                        key={quote.id}
+                        className="flex items-start justify-between p-4 border rounded-lg hover-elevate"
+                        data-testid={`search-result-${quote.id}`}
                       >
-                        <FolderOpen className="h-4 w-4 mr-2" />
-                        Open
-                      </Button>
-                      <Button
-                        variant="outline"
-                        size="sm"
-                        onClick={() => handleDeleteQuote(quote.id)}
-                        disabled={deleteQuoteMutation.isPending}
-                        data-testid={`button-delete-quote-${quote.id}`}
+                        <div className="flex-1">
+                          <h4 className="font-medium">
+                            {quote.quoteNumber && (
+                              <span className="text-muted-foreground mr-2">{quote.quoteNumber}</span>
+                            )}
+                            {quote.quoteSubject || 'Untitled Quote'}
+                          </h4>
+                          <div className="text-sm text-muted-foreground mt-1">
+                            Customer: {quote.customerCompany || 'N/A'}
+                          </div>
+                          <ul className="mt-2 space-y-1 text-sm">
+                            {matches.map((match, index) => (
+                              <li key={index} className="flex items-center gap-2">
+                                <Badge variant="secondary">{SEARCH_FIELD_LABELS[match.field]}</Badge>
+                                <span>{match.value}</span>
+                                {describeSearchMatchLocation(match) && (
+                                  <span className="text-muted-foreground">({describeSearchMatchLocation(match)})</span>
+                                )}
+                              </li>
+                            ))}
+                          </ul>
+                        </div>
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => handleOpenQuoteById(quote.id!)}
+                          data-testid={`button-open-search-result-${quote.id}`}
+                        >
+                          <FolderOpen className="h-4 w-4 mr-2" />
+                          Open
+                        </Button>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </div>
+            </TabsContent>
+            <TabsContent value="trash">
+              <p className="text-sm text-muted-foreground px-1 pt-2">
+                Deleted quotes are kept for {trashRetentionDays} days and then removed permanently.
+              </p>
+              <div className="grid gap-4 py-4 overflow-y-auto max-h-[60vh]">
+                {isLoadingTrash ? (
+                  <div className="text-center py-8">
+                    <p>Loading trash...</p>
+                  </div>
+                ) : trashedQuotes.length === 0 ? (
+                  <div className="text-center py-8">
+                    <p className="text-muted-foreground">The trash is empty.</p>
+                  </div>
+                ) : (
+                  <div className="space-y-3">
+                    {trashedQuotes.map((quote) => (
+                      <div
+                        key={quote.id}
+                        className="flex items-center justify-between p-4 border rounded-lg"
+                        data-testid={`trash-item-${quote.id}`}
                       >
-                        <Trash2 className="h-4 w-4" />
-                      </Button>
-                    </div>
+                        <div className="flex-1">
+                          <h4 className="font-medium">
+                            {quote.quoteNumber && (
+                              <span className="text-muted-foreground mr-2">{quote.quoteNumber}</span>
+                            )}
+                            {quote.quoteSubject || 'Untitled Quote'}
+                          </h4>
+                          <div className="flex items-center gap-4 text-sm text-muted-foreground mt-1">
+                            <span>Customer: {quote.customerCompany || 'N/A'}</span>
+                            <span>
+                              Deleted: {new Date(quote.deletedAt!).toLocaleDateString()}
+                            </span>
+                            <Badge variant="secondary">
+                              Purged in {getDaysUntilPurge(quote.deletedAt!)} days
+                            </Badge>
+                          </div>
+                        </div>
+                        <div className="flex items-center gap-2">
+                          {can('quotes.deleteOwn') && (
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              onClick={() => handleRestoreQuote(quote.id!)}
+                              disabled={restoreQuoteMutation.isPending}
+                              data-testid={`button-restore-quote-${quote.id}`}
+                            >
+                              <RotateCcw className="h-4 w-4 mr-2" />
+                              Restore
+                            </Button>
+                          )}
+                          {can('quotes.purge') && (
+                            <Button
+                              variant="destructive"
+                              size="sm"
+                              onClick={() => handlePurgeQuote(quote.id!)}
+                              disabled={purgeQuoteMutation.isPending}
+                              data-testid={`button-purge-quote-${quote.id}`}
+                            >
+                              Delete Forever
+                            </Button>
+                          )}
+                        </div>
+                      </div>
+                    ))}
                   </div>
-                ))}
+                )}
               </div>
-            )}
-          </div>
+            </TabsContent>
+          </Tabs>
           <DialogFooter>
             <Button
               variant="outline"
@@ -878,6 +1625,33 @@ export default function QuoteForm() {
         open={isSettingsDialogOpen}
         onOpenChange={setIsSettingsDialogOpen}
       />
+
+      {/* Backup Dialog */}
+      <BackupDialog
+        open={isBackupDialogOpen}
+        onOpenChange={setIsBackupDialogOpen}
+      />
+
+      <UsersDialog
+        open={isUsersDialogOpen}
+        onOpenChange={setIsUsersDialogOpen}
+      />
+
+      <ProfileDialog
+        open={isProfileDialogOpen}
+        onOpenChange={setIsProfileDialogOpen}
+      />
+
+      <ApprovalsDialog
+        open={isApprovalsDialogOpen}
+        onOpenChange={setIsApprovalsDialogOpen}
+        onOpenQuote={handleOpenQuoteById}
+        onDecided={(decidedQuote) => {
+          if (decidedQuote.id === currentQuoteId) {
+            setFormData(prev => ({ ...prev, approval: decidedQuote.approval }));
+          }
+        }}
+      />
     </>
   );
 }
\ No newline at end of file
@@ -4,30 +4,57 @@ import { Label } from "@/components/ui/label";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Button } from "@/components/ui/button";
 import { Switch } from "@/components/ui/switch";
-import { Upload, X, Settings, User, Phone, Mail } from "lucide-react";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Command, CommandEmpty, CommandGroup, CommandInput, CommandItem, CommandList, CommandSeparator } from "@/components/ui/command";
+import { Upload, X, Settings, User, Phone, Mail, Building2, Check, ChevronsUpDown, Briefcase, Users, List } from "lucide-react";
 import { useState } from "react";
-import type { ContactInfo } from "@shared/schema";
+import { useQuery } from "@tanstack/react-query";
+import type { ContactInfo, Customer, SalesPerson } from "@shared/schema";
+import { formatValidityDate, getQuoteValidUntil } from "@shared/quoteValidity";
+import CustomersDialog from "./CustomersDialog";
+import SalesTeamDialog from "./SalesTeamDialog";
+
+export const CURRENCY_OPTIONS = [
+  { value: "USD", label: "USD ($)" },
+  { value: "NIS", label: "NIS (₪)" },
+  { value: "EUR", label: "EUR (€)" },
+];
+
+export const PAYMENT_TERMS_OPTIONS = [
+  "Current +30",
+  "Current +60",
+  "Cash on Delivery",
+  "Net 15",
+  "Net 30",
+];
 
 interface QuoteHeaderProps {
   quoteSubject: string;
   customerCompany: string;
   customerLogo?: string;
+  customerId?: string;
   salesPersonName: string;
   date: string;
   version: string;
   paymentTerms: string;
   currency: string;
+  validityDays?: number;
+  validUntilDate?: string;
+  defaultValidityDays: number;
   bomEnabled: boolean;
   costsEnabled: boolean;
   contactInfo: ContactInfo;
   onQuoteSubjectChange: (value: string) => void;
   onCustomerCompanyChange: (value: string) => void;
   onCustomerLogoChange: (file: File | null) => void;
-  onSalesPersonChange: (value: string) => void;
+  onCustomerSelect: (customer: Customer | null) => void; // null unlinks the quote from the directory
+  onSalesPersonSelect: (salesPerson: SalesPerson) => void;
+  onSalesPersonNameChange: (value: string) => void; // Free-text name for someone outside the sales team
   onDateChange: (value: string) => void;
   onVersionChange: (value: string) => void;
   onPaymentTermsChange: (value: string) => void;
   onCurrencyChange: (value: string) => void;
+  onValidityChange: (validity: { validityDays?: number; validUntilDate?: string }) => void;
   onBomEnabledChange: (enabled: boolean) => void;
   onCostsEnabledChange: (enabled: boolean) => void;
   onContactInfoChange: (contactInfo: ContactInfo) => void;
@@ -37,27 +64,50 @@ export default function QuoteHeader({
   quoteSubject,
   customerCompany,
   customerLogo,
+  customerId,
   salesPersonName,
   date,
   version,
   paymentTerms,
   currency,
+  validityDays,
+  validUntilDate,
+  defaultValidityDays,
   bomEnabled,
   costsEnabled,
   contactInfo,
   onQuoteSubjectChange,
   onCustomerCompanyChange,
   onCustomerLogoChange,
-  onSalesPersonChange,
+  onCustomerSelect,
+  onSalesPersonSelect,
+  onSalesPersonNameChange,
   onDateChange,
   onVersionChange,
   onPaymentTermsChange,
   onCurrencyChange,
+  onValidityChange,
   onBomEnabledChange,
   onCostsEnabledChange,
   onContactInfoChange,
 }: QuoteHeaderProps) {
   const [dragActive, setDragActive] = useState(false);
+  const [isCustomerPickerOpen, setIsCustomerPickerOpen] = useState(false);
+  const [isCustomersDialogOpen, setIsCustomersDialogOpen] = useState(false);
+  const [isSalesTeamDialogOpen, setIsSalesTeamDialogOpen] = useState(false);
+  const [isTypingSalesPerson, setIsTypingSalesPerson] = useState(false);
+
+  const { data: customers = [] } = useQuery<Customer[]>({
+    queryKey: ['/api/customers'],
+  });
+  const linkedCustomer = customers.find(customer => customer.id === customerId);
+
+  const { data: salesPeople = [] } = useQuery<SalesPerson[]>({
+    queryKey: ['/api/sales-people'],
+  });
+  const selectedSalesPerson = salesPeople.find(salesPerson => salesPerson.name === salesPersonName);
+  // Only managers maintain the sales team, so the name can always be typed in as well
+  const showSalesPersonInput = isTypingSalesPerson || salesPeople.length === 0;
 
   const handleLogoUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
@@ -107,12 +157,91 @@ export default function QuoteHeader({
           </div>
           <div className="space-y-2">
             <Label htmlFor="customer-company">Customer Company</Label>
-            <Input
-              id="customer-company"
-              data-testid="input-customer-company"
-              placeholder="Customer company name"
-              value={customerCompany}
-              onChange={(e) => onCustomerCompanyChange(e.target.value)}
+            <div className="flex gap-2">
+              <Input
+                id="customer-company"
+                data-testid="input-customer-company"
+                placeholder="Customer company name"
+                value={customerCompany}
+                onChange={(e) => onCustomerCompanyChange(e.target.value)}
+              />
+              <Popover open={isCustomerPickerOpen} onOpenChange={setIsCustomerPickerOpen}>
+                <PopoverTrigger asChild>
+                  <Button
+                    variant="outline"
+                    role="combobox"
+                    aria-expanded={isCustomerPickerOpen}
+                    className="shrink-0"
+                    data-testid="button-select-customer"
+                  >
+                    <Building2 className="h-4 w-4 mr-2" />
+                    {linkedCustomer ? "Linked" : "Directory"}
+                    <ChevronsUpDown className="h-4 w-4 ml-2 opacity-50" />
+                  </Button>
+                </PopoverTrigger>
+                <PopoverContent className="w-72 p-0" align="end">
+                  <Command>
+                    <CommandInput placeholder="Search customers..." data-testid="input-search-customers" />
+                    <CommandList>
+                      <CommandEmpty>No customers found.</CommandEmpty>
+                      <CommandGroup>
+                        {customers.map(customer => (
+                          <CommandItem
+                            key={customer.id}
+                            value={`${customer.name} ${customer.vatId || ""} ${customer.id}`}
+                            onSelect={() => {
+                              onCustomerSelect(customer);
+                              setIsCustomerPickerOpen(false);
+                            }}
+                            data-testid={`option-customer-${customer.id}`}
+                          >
+                            <Check className={`h-4 w-4 mr-2 ${customer.id === customerId ? 'opacity-100' : 'opacity-0'}`} />
+                            <div className="min-w-0">
+                              <div className="truncate">{customer.name}</div>
+                              {customer.vatId && <div className="text-xs text-muted-foreground">{customer.vatId}</div>}
+                            </div>
+                          </CommandItem>
+                        ))}
+                      </CommandGroup>
+                      <CommandSeparator />
+                      <CommandGroup>
+                        {customerId && (
+                          <CommandItem
+                            onSelect={() => {
+                              onCustomerSelect(null);
+                              setIsCustomerPickerOpen(false);
+                            }}
+                            data-testid="option-unlink-customer"
+                          >
+                            <X className="h-4 w-4 mr-2" />
+                            Unlink customer
+                          </CommandItem>
+                        )}
+                        <CommandItem
+                          onSelect={() => {
+                            setIsCustomerPickerOpen(false);
+                            setIsCustomersDialogOpen(true);
+                          }}
+                          data-testid="option-manage-customers"
+                        >
+                          <Settings className="h-4 w-4 mr-2" />
+                          Manage customers...
+                        </CommandItem>
+                      </CommandGroup>
+                    </CommandList>
+                  </Command>
+                </PopoverContent>
+              </Popover>
+            </div>
+            {linkedCustomer && (
+              <p className="text-xs text-muted-foreground" data-testid="text-linked-customer">
+                Linked to directory customer {linkedCustomer.name}
+                {linkedCustomer.vatId && ` (${linkedCustomer.vatId})`}
+              </p>
+            )}
+            <CustomersDialog
+              open={isCustomersDialogOpen}
+              onOpenChange={setIsCustomersDialogOpen}
             />
           </div>
         </div>
@@ -168,17 +297,70 @@ export default function QuoteHeader({
         <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
           <div className="space-y-2">
             <Label htmlFor="sales-person">Sales Person</Label>
-            <Select value={salesPersonName} onValueChange={onSalesPersonChange}>
-              <SelectTrigger data-testid="select-sales-person">
-                <SelectValue placeholder="Select sales person" />
-              </SelectTrigger>
-              <SelectContent>
-                <SelectItem value="David Gilboa">David Gilboa</SelectItem>
-                <SelectItem value="Sarah Cohen">Sarah Cohen</SelectItem>
-                <SelectItem value="Michael Levi">Michael Levi</SelectItem>
-                <SelectItem value="Rachel Ben-David">Rachel Ben-David</SelectItem>
-              </SelectContent>
-            </Select>
+            <div className="flex gap-2">
+              {showSalesPersonInput ? (
+                <Input
+                  id="sales-person"
+                  placeholder="Sales person name"
+                  value={salesPersonName}
+                  onChange={(e) => onSalesPersonNameChange(e.target.value)}
+                  autoFocus={isTypingSalesPerson}
+                  data-testid="input-sales-person"
+                />
+              ) : (
+                <Select
+                  value={selectedSalesPerson?.id ?? (salesPersonName ? "__unlisted__" : "")}
+                  onValueChange={(id) => {
+                    if (id === "__other__") {
+                      setIsTypingSalesPerson(true);
+                      return;
+                    }
+                    const salesPerson = salesPeople.find(person => person.id === id);
+                    if (salesPerson) onSalesPersonSelect(salesPerson);
+                  }}
+                >
+                  <SelectTrigger id="sales-person" data-testid="select-sales-person">
+                    <SelectValue placeholder="Select sales person" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {/* Older quotes may name someone who is no longer in the sales team */}
+                    {!selectedSalesPerson && salesPersonName && (
+                      <SelectItem value="__unlisted__" disabled>{salesPersonName}</SelectItem>
+                    )}
+                    {salesPeople.map(salesPerson => (
+                      <SelectItem key={salesPerson.id} value={salesPerson.id}>{salesPerson.name}</SelectItem>
+                    ))}
+                    <SelectItem value="__other__" data-testid="option-sales-person-other">Other name...</SelectItem>
+                  </SelectContent>
+                </Select>
+              )}
+              {isTypingSalesPerson && salesPeople.length > 0 && (
+                <Button
+                  variant="outline"
+                  size="icon"
+                  className="shrink-0"
+                  onClick={() => setIsTypingSalesPerson(false)}
+                  title="Pick from the sales team"
+                  data-testid="button-pick-sales-person"
+                >
+                  <List className="h-4 w-4" />
+                </Button>
+              )}
+              <Button
+                variant="outline"
+                size="icon"
+                className="shrink-0"
+                onClick={() => setIsSalesTeamDialogOpen(true)}
+                title="Manage sales team"
+                data-testid="button-manage-sales-team"
+              >
+                <Users className="h-4 w-4" />
+              </Button>
+            </div>
+            <SalesTeamDialog
+              open={isSalesTeamDialogOpen}
+              onOpenChange={setIsSalesTeamDialogOpen}
+            />
           </div>
           <div className="space-y-2">
             <Label htmlFor="quote-date">Date</Label>
@@ -207,9 +389,9 @@ export default function QuoteHeader({
                 <SelectValue placeholder="Select currency" />
               </SelectTrigger>
               <SelectContent>
-                <SelectItem value="USD">USD ($)</SelectItem>
-                <SelectItem value="NIS">NIS (₪)</SelectItem>
-                <SelectItem value="EUR">EUR (€)</SelectItem>
+                {CURRENCY_OPTIONS.map(option => (
+                  <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                ))}
               </SelectContent>
             </Select>
           </div>
@@ -223,14 +405,58 @@ export default function QuoteHeader({
                 <SelectValue placeholder="Select payment terms" />
               </SelectTrigger>
               <SelectContent>
-                <SelectItem value="Current +30">Current +30</SelectItem>
-                <SelectItem value="Current +60">Current +60</SelectItem>
-                <SelectItem value="Cash on Delivery">Cash on Delivery</SelectItem>
-                <SelectItem value="Net 15">Net 15</SelectItem>
-                <SelectItem value="Net 30">Net 30</SelectItem>
+                {PAYMENT_TERMS_OPTIONS.map(terms => (
+                  <SelectItem key={terms} value={terms}>{terms}</SelectItem>
+                ))}
               </SelectContent>
             </Select>
           </div>
+          <div className="space-y-2">
+            <Label htmlFor="validity">Offer Validity</Label>
+            <div className="flex items-center gap-2">
+              <Select
+                value={validUntilDate ? "date" : "days"}
+                onValueChange={(mode) =>
+                  onValidityChange(mode === "date"
+                    ? { validUntilDate: getQuoteValidUntil({ date, validityDays }, defaultValidityDays) }
+                    : { validityDays: undefined })
+                }
+              >
+                <SelectTrigger className="w-36" data-testid="select-validity-mode">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="days">Days</SelectItem>
+                  <SelectItem value="date">Until date</SelectItem>
+                </SelectContent>
+              </Select>
+              {validUntilDate ? (
+                <Input
+                  id="validity"
+                  type="date"
+                  data-testid="input-valid-until-date"
+                  value={validUntilDate}
+                  onChange={(e) => onValidityChange({ validUntilDate: e.target.value || undefined })}
+                />
+              ) : (
+                <Input
+                  id="validity"
+                  type="number"
+                  min={1}
+                  data-testid="input-validity-days"
+                  placeholder={String(defaultValidityDays)}
+                  value={validityDays ?? ""}
+                  onChange={(e) => {
+                    const days = parseInt(e.target.value, 10);
+                    onValidityChange({ validityDays: Number.isNaN(days) ? undefined : Math.max(1, days) });
+                  }}
+                />
+              )}
+            </div>
+            <p className="text-xs text-muted-foreground" data-testid="text-valid-until">
+              Valid until {formatValidityDate(getQuoteValidUntil({ date, validityDays, validUntilDate }, defaultValidityDays))}
+            </p>
+          </div>
           <div className="space-y-2">
             <Label>Section Toggles</Label>
             <div className="flex items-center gap-4">
@@ -265,7 +491,7 @@ export default function QuoteHeader({
             </CardTitle>
           </CardHeader>
           <CardContent className="space-y-4">
-            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
               <div className="space-y-2">
                 <Label htmlFor="contact-name">Sales Person Name</Label>
                 <div className="flex items-center gap-2">
@@ -279,6 +505,19 @@ export default function QuoteHeader({
                   />
                 </div>
               </div>
+              <div className="space-y-2">
+                <Label htmlFor="contact-role">Role</Label>
+                <div className="flex items-center gap-2">
+                  <Briefcase className="h-4 w-4 text-muted-foreground" />
+                  <Input
+                    id="contact-role"
+                    data-testid="input-contact-role"
+                    placeholder="Role"
+                    value={contactInfo.role || ""}
+                    onChange={(e) => onContactInfoChange({ ...contactInfo, role: e.target.value })}
+                  />
+                </div>
+              </div>
               <div className="space-y-2">
                 <Label htmlFor="contact-phone">Phone</Label>
                 <div className="flex items-center gap-2">
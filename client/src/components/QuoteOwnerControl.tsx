@@ -0,0 +1,89 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { ChevronDown, UserRound } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { apiRequest } from "@/lib/queryClient";
+import type { PublicUser, QuoteFormData } from "@shared/schema";
+
+interface QuoteOwnerControlProps {
+  quoteId: string;
+  ownerId?: string;
+  onOwnerChanged: (quote: QuoteFormData) => void;
+}
+
+// Owner of the current quote. The owner, or a manager, can hand the quote to someone else.
+export default function QuoteOwnerControl({ quoteId, ownerId, onOwnerChanged }: QuoteOwnerControlProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { user, can } = useAuth();
+
+  const { data: users = [] } = useQuery<PublicUser[]>({
+    queryKey: ['/api/users'],
+  });
+
+  const owner = users.find(candidate => candidate.id === ownerId);
+  const canReassign = ownerId === user?.id || can('quotes.reassign');
+
+  const changeOwnerMutation = useMutation({
+    mutationFn: async (newOwnerId: string) => {
+      const response = await apiRequest('PUT', `/api/quote-forms/${quoteId}/owner`, { ownerId: newOwnerId });
+      return await response.json();
+    },
+    onSuccess: (updatedQuote: QuoteFormData) => {
+      onOwnerChanged(updatedQuote);
+      queryClient.invalidateQueries({ queryKey: ['/api/quote-forms'] });
+      const newOwner = users.find(candidate => candidate.id === updatedQuote.ownerId);
+      toast({
+        title: "Quote reassigned",
+        description: `The quote now belongs to ${newOwner?.username ?? 'another user'}.`,
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Failed to reassign quote",
+        description: error.message || "An error occurred while changing the quote owner.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button
+          variant="ghost"
+          size="sm"
+          className="h-auto px-1 text-xs text-muted-foreground"
+          disabled={!canReassign || changeOwnerMutation.isPending}
+          data-testid="button-quote-owner"
+        >
+          <UserRound className="h-3 w-3 mr-1" />
+          {owner?.username ?? 'No owner'}
+          {canReassign && <ChevronDown className="h-3 w-3 ml-1" />}
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="start">
+        <DropdownMenuLabel className="font-normal text-xs text-muted-foreground">Reassign to</DropdownMenuLabel>
+        <DropdownMenuSeparator />
+        {users.filter(candidate => candidate.id !== ownerId).map(candidate => (
+          <DropdownMenuItem
+            key={candidate.id}
+            onClick={() => changeOwnerMutation.mutate(candidate.id)}
+            data-testid={`menu-owner-${candidate.id}`}
+          >
+            {candidate.username}
+          </DropdownMenuItem>
+        ))}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
@@ -7,7 +7,11 @@ import jsPDF from 'jspdf';
 import emetLogo from "@assets/image_1757577759606.png";
 import techDiagram from "@assets/image_1757577458643.png";
 import frameImage from "@assets/image_1757577550193.png";
-import type { ColumnVisibility, ContactInfo, TemplateSettings, BomGroup } from "@shared/schema";
+import type { ColumnVisibility, ContactInfo, TemplateSettings, BomGroup, QuoteApproval } from "@shared/schema";
+import { approvalCovers, type QuoteDiscountCheck } from "@shared/quoteApproval";
+import { DEFAULT_VALIDITY_DAYS, formatValidityClause } from "@shared/quoteValidity";
+import { appendQuoteAttachments } from "@/lib/pdfAttachments";
+import { apiRequest, ApiError } from "@/lib/queryClient";
 
 interface BomItem {
   no: number;
@@ -27,6 +31,8 @@ interface CostItem {
 }
 
 interface QuotePreviewProps {
+  quoteId?: string; // Saved quotes get their selected attachments appended to the PDF
+  quoteNumber?: string;
   quoteSubject: string;
   customerCompany: string;
   customerLogo?: string;
@@ -35,6 +41,9 @@ interface QuotePreviewProps {
   version: string;
   paymentTerms: string;
   currency: string;
+  validityDays?: number;
+  validUntilDate?: string;
+  defaultValidityDays?: number;
   bomEnabled: boolean;
   costsEnabled: boolean;
   columnVisibility: ColumnVisibility;
@@ -44,9 +53,13 @@ interface QuotePreviewProps {
   onSectionClick?: (section: string) => void;
   showControls?: boolean;
   templateSettings?: TemplateSettings;
+  exportBlockedReason?: string; // Set while the quote's discount still needs approval
+  approval?: QuoteApproval; // The saved quote's approval, which may cover the lines being exported
 }
 
 export default function QuotePreview({
+  quoteId,
+  quoteNumber,
   quoteSubject,
   customerCompany,
   customerLogo,
@@ -55,6 +68,9 @@ export default function QuotePreview({
   version,
   paymentTerms,
   currency,
+  validityDays,
+  validUntilDate,
+  defaultValidityDays = DEFAULT_VALIDITY_DAYS,
   bomEnabled,
   costsEnabled,
   columnVisibility,
@@ -64,6 +80,8 @@ export default function QuotePreview({
   onSectionClick,
   showControls = true,
   templateSettings,
+  exportBlockedReason,
+  approval,
 }: QuotePreviewProps) {
   const [zoom, setZoom] = useState(100);
   const [isFullscreen, setIsFullscreen] = useState(false);
@@ -155,6 +173,28 @@ export default function QuotePreview({
 
   const totalPages = pages.length;
 
+  // The server has the last word on discount approval. The lines being exported, which may have unsaved
+  // edits, are checked against the limits and the saved approval; saved quotes are then checked as stored,
+  // and the download recorded in their activity, before the PDF is saved.
+  const getExportRefusal = async (fileName: string): Promise<string | undefined> => {
+    try {
+      const response = await apiRequest('POST', '/api/quote-forms/discount-check', { currency, bomGroups, costItems });
+      const check: QuoteDiscountCheck = await response.json();
+      if (check.reasons.length > 0 && !approvalCovers(approval, check)) {
+        return `Save the quote to request discount approval. ${check.reasons.join('. ')}.`;
+      }
+      if (quoteId) {
+        await apiRequest('POST', `/api/quote-forms/${quoteId}/downloads`, { fileName });
+      }
+      return undefined;
+    } catch (error) {
+      if (error instanceof ApiError && error.status === 409) {
+        return error.json<{ error?: string }>()?.error ?? 'This quote is waiting for discount approval.';
+      }
+      throw error;
+    }
+  };
+
   const handlePdfDownload = async () => {
     setIsGeneratingPdf(true);
     const originalPage = currentPage; // Move this outside try block for proper scope
@@ -207,12 +247,22 @@ export default function QuotePreview({
         pdf.addImage(imgData, 'JPEG', 0, 0, imgWidth, imgHeight);
       }
 
+      // Datasheets and drawings follow the IP & Contact page
+      if (quoteId) {
+        await appendQuoteAttachments(pdf, quoteId);
+      }
+
       // Restore original page
       setCurrentPage(originalPage);
       
       // Generate timestamp for unique filename
       const timestamp = Date.now();
-      const filename = `quote-${quoteSubject || 'untitled'}-${date || new Date().toISOString().split('T')[0]}_${timestamp}.pdf`;
+      const filename = `quote-${quoteNumber ? `${quoteNumber}-` : ''}${quoteSubject || 'untitled'}-${date || new Date().toISOString().split('T')[0]}_${timestamp}.pdf`;
+      const refusal = await getExportRefusal(filename);
+      if (refusal) {
+        alert(refusal);
+        return;
+      }
       pdf.save(filename);
       
     } catch (error) {
@@ -360,7 +410,8 @@ export default function QuotePreview({
               variant="default"
               size="sm"
               onClick={handlePdfDownload}
-              disabled={isGeneratingPdf}
+              disabled={isGeneratingPdf || !!exportBlockedReason}
+              title={exportBlockedReason}
               data-testid="button-download-pdf"
             >
               <Download className="h-4 w-4 mr-2" />
@@ -425,6 +476,11 @@ export default function QuotePreview({
                           <h2 className="text-3xl text-black mb-2 leading-tight">
                             {quoteSubject || 'Cisco Catalyst Switch'}
                           </h2>
+                          {quoteNumber && (
+                            <p className="text-lg text-gray-700" data-testid="preview-quote-number">
+                              Quote No. {quoteNumber}
+                            </p>
+                          )}
                           
                           {/* Customer Logo */}
                           {customerLogo && (
@@ -441,7 +497,7 @@ export default function QuotePreview({
 
                         {/* Bottom Info */}
                         <div className="absolute bottom-16 left-1/2 transform -translate-x-1/2 text-center text-lg text-black">
-                          <div>{salesPersonName || 'David Gilboa'} | {formatDate(date)} | Ver {version || '1'}</div>
+                          <div>{[salesPersonName || contact.salesPersonName, formatDate(date), `Ver ${version || '1'}`].filter(Boolean).join(' | ')}</div>
                         </div>
 
                         {/* Page Number */}
@@ -658,7 +714,7 @@ export default function QuotePreview({
                             <li>Prices are not including VAT</li>
                             <li>Installation is not included unless specifically stated in the quote.</li>
                             <li>Payment in NIS will be at the dollar exchange rate represented on the day of the invoice issuance.</li>
-                            <li>Our offer is valid for a period of 14 days.</li>
+                            <li>{formatValidityClause({ date, validityDays, validUntilDate }, defaultValidityDays)}</li>
                             <li>The total price is for the purchase of the entire proposal</li>
                             <li>Payment Terms - {paymentTerms || 'Current +30'}</li>
                             <li>Any delay in payment will result in the customer being charged an exceptional shekel-based interest or conversion to dollars according to the calculation that will produce the highest result.</li>
@@ -745,13 +801,21 @@ export default function QuotePreview({
                     </thead>
                     <tbody>
                       <tr className="border-b border-gray-200">
-                        <td className="p-3 border-r border-gray-200 whitespace-nowrap">{contact.salesPersonName || contactInfo.salesPersonName || 'David Gilboa'}</td>
-                        <td className="p-3 border-r border-gray-200 whitespace-nowrap">Account Manager</td>
+                        <td className="p-3 border-r border-gray-200 whitespace-nowrap">{contact.salesPersonName || salesPersonName}</td>
+                        <td className="p-3 border-r border-gray-200 whitespace-nowrap">{contact.role}</td>
                         <td className="p-3 border-r border-gray-200 whitespace-nowrap">{contact.phone || contactInfo.phone}</td>
                         <td className="p-3 whitespace-nowrap break-all">{contact.email || contactInfo.email}</td>
                       </tr>
                     </tbody>
                   </table>
+                  {contact.signature && (
+                    <img
+                      src={contact.signature}
+                      alt="Signature"
+                      className="mt-4 h-12 w-auto max-w-40 object-contain"
+                      data-testid="preview-sales-signature"
+                    />
+                  )}
                 </div>
               </div>
 
@@ -0,0 +1,170 @@
+import { useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { ChevronDown } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import type { QuoteFormData, QuoteStatusChange } from "@shared/schema";
+import { QUOTE_STATUS_LABELS, QUOTE_STATUS_TRANSITIONS, type QuoteStatus } from "@shared/quoteStatus";
+
+const STATUS_BADGE_VARIANTS: Record<QuoteStatus, "default" | "secondary" | "destructive" | "outline"> = {
+  draft: "outline",
+  sent: "secondary",
+  accepted: "default",
+  rejected: "destructive",
+  expired: "outline",
+};
+
+export function QuoteStatusBadge({ status }: { status?: QuoteStatus }) {
+  const currentStatus = status || "draft";
+  return (
+    <Badge variant={STATUS_BADGE_VARIANTS[currentStatus]} data-testid={`badge-status-${currentStatus}`}>
+      {QUOTE_STATUS_LABELS[currentStatus]}
+    </Badge>
+  );
+}
+
+interface QuoteStatusControlProps {
+  quoteId: string;
+  status?: QuoteStatus;
+  statusHistory?: QuoteStatusChange[];
+  sendBlockedReason?: string; // Set while the quote's discount still needs approval
+  onStatusChanged: (quote: QuoteFormData) => void;
+}
+
+export default function QuoteStatusControl({ quoteId, status = "draft", statusHistory = [], sendBlockedReason, onStatusChanged }: QuoteStatusControlProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [isRejectDialogOpen, setIsRejectDialogOpen] = useState(false);
+  const [rejectionReason, setRejectionReason] = useState("");
+
+  const changeStatusMutation = useMutation({
+    mutationFn: async ({ status, reason }: { status: QuoteStatus; reason?: string }) => {
+      const response = await apiRequest('POST', `/api/quote-forms/${quoteId}/status`, { status, reason });
+      return await response.json();
+    },
+    onSuccess: (updatedQuote: QuoteFormData) => {
+      onStatusChanged(updatedQuote);
+      queryClient.invalidateQueries({ queryKey: ['/api/quote-forms'] });
+      setIsRejectDialogOpen(false);
+      setRejectionReason("");
+      toast({
+        title: "Status updated",
+        description: `Quote is now ${QUOTE_STATUS_LABELS[updatedQuote.status || "draft"]}.`,
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Failed to change status",
+        description: error.message || "An error occurred while changing the quote status.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleSelectStatus = (nextStatus: QuoteStatus) => {
+    if (nextStatus === "rejected") {
+      setIsRejectDialogOpen(true);
+      return;
+    }
+    changeStatusMutation.mutate({ status: nextStatus });
+  };
+
+  const nextStatuses = QUOTE_STATUS_TRANSITIONS[status];
+  const lastChange = statusHistory[statusHistory.length - 1];
+
+  return (
+    <>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-auto px-1"
+            disabled={changeStatusMutation.isPending}
+            data-testid="button-quote-status"
+          >
+            <QuoteStatusBadge status={status} />
+            <ChevronDown className="h-3 w-3 ml-1" />
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="start">
+          {lastChange && (
+            <>
+              <DropdownMenuLabel className="font-normal text-xs text-muted-foreground">
+                {QUOTE_STATUS_LABELS[lastChange.status]} since {new Date(lastChange.changedAt).toLocaleDateString()} by {lastChange.changedBy}
+                {lastChange.reason && <div>Reason: {lastChange.reason}</div>}
+              </DropdownMenuLabel>
+              <DropdownMenuSeparator />
+            </>
+          )}
+          {nextStatuses.length === 0 ? (
+            <DropdownMenuItem disabled>No further status changes</DropdownMenuItem>
+          ) : (
+            nextStatuses.map((nextStatus) => (
+              <DropdownMenuItem
+                key={nextStatus}
+                onClick={() => handleSelectStatus(nextStatus)}
+                disabled={nextStatus === "sent" && !!sendBlockedReason}
+                title={nextStatus === "sent" ? sendBlockedReason : undefined}
+                data-testid={`menu-status-${nextStatus}`}
+              >
+                Mark as {QUOTE_STATUS_LABELS[nextStatus]}
+              </DropdownMenuItem>
+            ))
+          )}
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      <Dialog open={isRejectDialogOpen} onOpenChange={setIsRejectDialogOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Reject Quote</DialogTitle>
+            <DialogDescription>
+              Record why the customer rejected this quote.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="grid gap-2 py-4">
+            <Label htmlFor="rejection-reason">Reason</Label>
+            <Textarea
+              id="rejection-reason"
+              value={rejectionReason}
+              onChange={(e) => setRejectionReason(e.target.value)}
+              placeholder="e.g. Price too high, went with another vendor..."
+              data-testid="input-rejection-reason"
+            />
+          </div>
+          <DialogFooter>
+            <Button
+              variant="outline"
+              onClick={() => setIsRejectDialogOpen(false)}
+              data-testid="button-cancel-reject"
+            >
+              Cancel
+            </Button>
+            <Button
+              variant="destructive"
+              onClick={() => changeStatusMutation.mutate({ status: "rejected", reason: rejectionReason.trim() })}
+              disabled={!rejectionReason.trim() || changeStatusMutation.isPending}
+              data-testid="button-confirm-reject"
+            >
+              Reject Quote
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
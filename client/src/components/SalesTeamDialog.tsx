@@ -0,0 +1,261 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Users, Plus, Save, Trash2, Upload, X, Loader2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { apiRequest } from "@/lib/queryClient";
+import type { InsertSalesPerson, SalesPerson } from "@shared/schema";
+
+const EMPTY_SALES_PERSON: InsertSalesPerson = {
+  name: "",
+  role: null,
+  phone: null,
+  email: null,
+  signature: null,
+};
+
+interface SalesTeamDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+export default function SalesTeamDialog({ open, onOpenChange }: SalesTeamDialogProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { can } = useAuth();
+  const canEdit = can('salesTeam.edit');
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [draft, setDraft] = useState<InsertSalesPerson>(EMPTY_SALES_PERSON);
+
+  const { data: salesPeople = [], isLoading } = useQuery<SalesPerson[]>({
+    queryKey: ['/api/sales-people'],
+    enabled: open,
+  });
+
+  const saveSalesPersonMutation = useMutation({
+    mutationFn: async (salesPerson: InsertSalesPerson) => {
+      const response = selectedId
+        ? await apiRequest('PUT', `/api/sales-people/${selectedId}`, salesPerson)
+        : await apiRequest('POST', '/api/sales-people', salesPerson);
+      return await response.json();
+    },
+    onSuccess: (savedSalesPerson: SalesPerson) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/sales-people'] });
+      setSelectedId(savedSalesPerson.id);
+      toast({
+        title: "Sales person saved",
+        description: `"${savedSalesPerson.name}" has been saved to the sales team.`,
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Failed to save sales person",
+        description: error.message || "An error occurred while saving the sales person.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteSalesPersonMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const response = await apiRequest('DELETE', `/api/sales-people/${id}`);
+      return await response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/sales-people'] });
+      handleNewSalesPerson();
+      toast({
+        title: "Sales person removed",
+        description: "Existing quotes keep their contact details.",
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Failed to remove sales person",
+        description: error.message || "An error occurred while removing the sales person.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleSelectSalesPerson = (salesPerson: SalesPerson) => {
+    const { id, createdAt, updatedAt, ...fields } = salesPerson;
+    setSelectedId(id);
+    setDraft(fields);
+  };
+
+  const handleNewSalesPerson = () => {
+    setSelectedId(null);
+    setDraft(EMPTY_SALES_PERSON);
+  };
+
+  const handleSignatureUpload = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+
+    if (file.size > 5 * 1024 * 1024) { // 5MB limit, as for the template images
+      toast({
+        title: "File too large",
+        description: "Please choose an image smaller than 5MB.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const reader = new FileReader();
+    reader.onload = (e) => {
+      setDraft(prev => ({ ...prev, signature: e.target?.result as string }));
+    };
+    reader.readAsDataURL(file);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl max-h-[85vh]">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Users className="h-5 w-5" />
+            Sales Team
+          </DialogTitle>
+          <DialogDescription>
+            Picking a sales person in a quote fills in its contact block.
+            {!canEdit && " Only managers can change the sales team."}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid grid-cols-1 md:grid-cols-[14rem_1fr] gap-4">
+          <div className="space-y-2">
+            <Button variant="outline" className="w-full" onClick={handleNewSalesPerson} disabled={!canEdit} data-testid="button-new-sales-person">
+              <Plus className="h-4 w-4 mr-2" />
+              New Sales Person
+            </Button>
+            <ScrollArea className="h-[50vh] border rounded-md">
+              {isLoading ? (
+                <div className="p-4 text-sm text-muted-foreground">Loading sales team...</div>
+              ) : salesPeople.length === 0 ? (
+                <div className="p-4 text-sm text-muted-foreground">No sales people yet</div>
+              ) : (
+                salesPeople.map(salesPerson => (
+                  <button
+                    key={salesPerson.id}
+                    type="button"
+                    onClick={() => handleSelectSalesPerson(salesPerson)}
+                    className={`w-full text-left px-3 py-2 border-b text-sm hover-elevate ${
+                      salesPerson.id === selectedId ? 'bg-muted font-medium' : ''
+                    }`}
+                    data-testid={`button-sales-person-${salesPerson.id}`}
+                  >
+                    <div className="truncate">{salesPerson.name}</div>
+                    {salesPerson.role && <div className="text-xs text-muted-foreground">{salesPerson.role}</div>}
+                  </button>
+                ))
+              )}
+            </ScrollArea>
+          </div>
+
+          <fieldset className="space-y-4" disabled={!canEdit}>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="sales-person-name">Name</Label>
+                <Input
+                  id="sales-person-name"
+                  value={draft.name}
+                  onChange={(e) => setDraft(prev => ({ ...prev, name: e.target.value }))}
+                  data-testid="input-sales-person-name"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="sales-person-role">Role</Label>
+                <Input
+                  id="sales-person-role"
+                  placeholder="e.g., Account Manager"
+                  value={draft.role || ""}
+                  onChange={(e) => setDraft(prev => ({ ...prev, role: e.target.value || null }))}
+                  data-testid="input-sales-person-role"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="sales-person-phone">Phone</Label>
+                <Input
+                  id="sales-person-phone"
+                  value={draft.phone || ""}
+                  onChange={(e) => setDraft(prev => ({ ...prev, phone: e.target.value || null }))}
+                  data-testid="input-sales-person-phone"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="sales-person-email">Email</Label>
+                <Input
+                  id="sales-person-email"
+                  type="email"
+                  value={draft.email || ""}
+                  onChange={(e) => setDraft(prev => ({ ...prev, email: e.target.value || null }))}
+                  data-testid="input-sales-person-email"
+                />
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Signature</Label>
+              {draft.signature ? (
+                <div className="relative inline-block">
+                  <img src={draft.signature} alt="Signature" className="h-16 w-auto border rounded-md bg-white" data-testid="img-sales-person-signature" />
+                  <Button
+                    size="icon"
+                    variant="destructive"
+                    className="absolute -top-2 -right-2 h-6 w-6"
+                    onClick={() => setDraft(prev => ({ ...prev, signature: null }))}
+                    data-testid="button-remove-sales-person-signature"
+                  >
+                    <X className="h-3 w-3" />
+                  </Button>
+                </div>
+              ) : (
+                <label className="flex items-center gap-2 text-sm text-primary cursor-pointer hover:underline">
+                  <Upload className="h-4 w-4" />
+                  Upload signature image
+                  <input
+                    type="file"
+                    accept="image/*"
+                    onChange={handleSignatureUpload}
+                    className="hidden"
+                    data-testid="input-sales-person-signature-file"
+                  />
+                </label>
+              )}
+            </div>
+
+            <div className="flex justify-between pt-2">
+              <Button
+                variant="destructive"
+                onClick={() => selectedId && deleteSalesPersonMutation.mutate(selectedId)}
+                disabled={!selectedId || deleteSalesPersonMutation.isPending}
+                data-testid="button-delete-sales-person"
+              >
+                <Trash2 className="h-4 w-4 mr-2" />
+                Remove
+              </Button>
+              <Button
+                onClick={() => saveSalesPersonMutation.mutate(draft)}
+                disabled={!draft.name.trim() || saveSalesPersonMutation.isPending}
+                data-testid="button-save-sales-person"
+              >
+                {saveSalesPersonMutation.isPending ? (
+                  <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                ) : (
+                  <Save className="h-4 w-4 mr-2" />
+                )}
+                {selectedId ? "Save Changes" : "Add Sales Person"}
+              </Button>
+            </div>
+          </fieldset>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,144 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { BookmarkPlus, Loader2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import type { BomGroup, BomKit, InsertBomKit } from "@shared/schema";
+
+interface SaveBomKitDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  group: BomGroup | null;
+  currency?: string;
+}
+
+// "switch, optics,  Switch" -> ["switch", "optics"]
+export function parseKitTags(text: string): string[] {
+  const tags = text.split(',').map(tag => tag.trim()).filter(Boolean);
+  return tags.filter((tag, index) => tags.findIndex(other => other.toLowerCase() === tag.toLowerCase()) === index);
+}
+
+// Save one BOM group of the current quote to the shared kit library
+export default function SaveBomKitDialog({ open, onOpenChange, group, currency }: SaveBomKitDialogProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [name, setName] = useState("");
+  const [description, setDescription] = useState("");
+  const [tags, setTags] = useState("");
+
+  // Start from the group name each time the dialog opens for a group
+  useEffect(() => {
+    if (open && group) {
+      setName(group.name);
+      setDescription("");
+      setTags("");
+    }
+  }, [open, group]);
+
+  const saveKitMutation = useMutation({
+    mutationFn: async (kit: InsertBomKit) => {
+      const response = await apiRequest('POST', '/api/bom-kits', kit);
+      return await response.json();
+    },
+    onSuccess: (savedKit: BomKit) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/bom-kits'] });
+      onOpenChange(false);
+      toast({
+        title: "Kit saved",
+        description: `"${savedKit.name}" with ${savedKit.items.length} line(s) is now in the kit library.`,
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Failed to save kit",
+        description: error.message || "An error occurred while saving the kit.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleSave = () => {
+    if (!group) return;
+    saveKitMutation.mutate({
+      name: name.trim(),
+      description: description.trim(),
+      tags: parseKitTags(tags),
+      currency: currency || "USD",
+      items: group.items.map((item, index) => ({ ...item, no: index + 1 })),
+    });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <BookmarkPlus className="h-5 w-5" />
+            Save as Kit
+          </DialogTitle>
+          <DialogDescription>
+            The {group?.items.length ?? 0} line(s) of this group are saved to the shared kit library.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 py-2">
+          <div className="space-y-2">
+            <Label htmlFor="kit-name">Kit Name</Label>
+            <Input
+              id="kit-name"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="e.g., Standard switch stack"
+              data-testid="input-kit-name"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="kit-description">Description</Label>
+            <Textarea
+              id="kit-description"
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              placeholder="What the kit contains and when to use it"
+              rows={3}
+              data-testid="input-kit-description"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="kit-tags">Tags</Label>
+            <Input
+              id="kit-tags"
+              value={tags}
+              onChange={(e) => setTags(e.target.value)}
+              placeholder="e.g., switching, optics, support"
+              data-testid="input-kit-tags"
+            />
+            <p className="text-xs text-muted-foreground">Separate tags with commas.</p>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} data-testid="button-cancel-save-kit">
+            Cancel
+          </Button>
+          <Button
+            onClick={handleSave}
+            disabled={!name.trim() || !group || group.items.length === 0 || saveKitMutation.isPending}
+            data-testid="button-confirm-save-kit"
+          >
+            {saveKitMutation.isPending ? (
+              <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+            ) : (
+              <BookmarkPlus className="h-4 w-4 mr-2" />
+            )}
+            Save Kit
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
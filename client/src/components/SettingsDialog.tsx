@@ -23,10 +23,11 @@ import { Textarea } from "@/components/ui/textarea";
 import { Card, CardContent } from "@/components/ui/card";
 import { Skeleton } from "@/components/ui/skeleton";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
-import { Upload, Image, Palette, FileText, Save, X, Loader2 } from "lucide-react";
+import { Upload, Image, Palette, FileText, Save, X, Loader2, Hash } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { TemplateSettings, defaultTemplateSettings } from "@shared/schema";
+import { DEFAULT_QUOTE_NUMBER_PATTERN, formatQuoteNumber, isValidQuoteNumberPattern } from "@shared/quoteNumber";
 
 // Form validation schema
 const settingsFormSchema = z.object({
@@ -36,6 +37,11 @@ const settingsFormSchema = z.object({
   introText: z.string().min(1, "Intro text is required"),
   introImage: z.string().optional(),
   tableHeaderColor: z.string().regex(/^#[0-9A-Fa-f]{6}$/, "Table header color must be a valid hex color"),
+  quoteNumberPattern: z.string().refine(isValidQuoteNumberPattern, "Pattern must contain {SEQ} or {SEQ:width}"),
+  trashRetentionDays: z.coerce.number().int().min(1, "Retention must be at least 1 day").max(3650, "Retention cannot exceed 3650 days"),
+  defaultValidityDays: z.coerce.number().int().min(1, "Validity must be at least 1 day").max(365, "Validity cannot exceed 365 days"),
+  maxDiscountPercent: z.coerce.number().min(0, "Discount limit cannot be negative").max(100, "Discount limit cannot exceed 100%"),
+  minMarginPercent: z.coerce.number().min(0, "Minimum margin cannot be negative").max(100, "Minimum margin cannot exceed 100%"),
 });
 
 type SettingsFormData = z.infer<typeof settingsFormSchema>;
@@ -64,13 +70,26 @@ export default function SettingsDialog({ open, onOpenChange }: SettingsDialogPro
       frameColor: defaultTemplateSettings.frameColor,
       introText: defaultTemplateSettings.introText,
       tableHeaderColor: defaultTemplateSettings.tableHeaderColor,
+      quoteNumberPattern: DEFAULT_QUOTE_NUMBER_PATTERN,
+      trashRetentionDays: defaultTemplateSettings.trashRetentionDays,
+      defaultValidityDays: defaultTemplateSettings.defaultValidityDays,
+      maxDiscountPercent: defaultTemplateSettings.maxDiscountPercent,
+      minMarginPercent: defaultTemplateSettings.minMarginPercent,
     },
   });
 
   // Update form when settings are loaded
   useEffect(() => {
     if (currentSettings) {
-      form.reset(currentSettings);
+      form.reset({
+        ...currentSettings,
+        quoteNumberPattern: currentSettings.quoteNumberPattern || DEFAULT_QUOTE_NUMBER_PATTERN,
+        trashRetentionDays: currentSettings.trashRetentionDays || defaultTemplateSettings.trashRetentionDays,
+        defaultValidityDays: currentSettings.defaultValidityDays || defaultTemplateSettings.defaultValidityDays,
+        // Zero is a valid limit, so only missing values fall back to the defaults
+        maxDiscountPercent: currentSettings.maxDiscountPercent ?? defaultTemplateSettings.maxDiscountPercent,
+        minMarginPercent: currentSettings.minMarginPercent ?? defaultTemplateSettings.minMarginPercent,
+      });
       setCompanyLogoPreview(currentSettings.companyLogo || "");
       setIntroImagePreview(currentSettings.introImage || "");
     }
@@ -180,7 +199,7 @@ export default function SettingsDialog({ open, onOpenChange }: SettingsDialogPro
           <Form {...form}>
             <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
               <Tabs defaultValue="branding" className="w-full">
-              <TabsList className="grid w-full grid-cols-3">
+              <TabsList className="grid w-full grid-cols-4">
                 <TabsTrigger value="branding" data-testid="tab-branding">
                   <Image className="h-4 w-4 mr-2" />
                   Branding
@@ -193,6 +212,10 @@ export default function SettingsDialog({ open, onOpenChange }: SettingsDialogPro
                   <FileText className="h-4 w-4 mr-2" />
                   Content
                 </TabsTrigger>
+                <TabsTrigger value="quotes" data-testid="tab-quotes">
+                  <Hash className="h-4 w-4 mr-2" />
+                  Quotes
+                </TabsTrigger>
               </TabsList>
 
               {/* Branding Tab */}
@@ -371,6 +394,130 @@ export default function SettingsDialog({ open, onOpenChange }: SettingsDialogPro
                   )}
                 />
               </TabsContent>
+
+              {/* Quotes Tab */}
+              <TabsContent value="quotes" className="space-y-4">
+                <FormField
+                  control={form.control}
+                  name="quoteNumberPattern"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Quote Number Pattern</FormLabel>
+                      <FormControl>
+                        <Input
+                          {...field}
+                          placeholder={DEFAULT_QUOTE_NUMBER_PATTERN}
+                          data-testid="input-quote-number-pattern"
+                          disabled={updateSettingsMutation.isPending}
+                        />
+                      </FormControl>
+                      <p className="text-sm text-muted-foreground">
+                        Tokens: {'{YYYY}'}, {'{YY}'}, {'{MM}'}, {'{DD}'} and {'{SEQ}'} or {'{SEQ:4}'} for a zero-padded sequence.
+                        {isValidQuoteNumberPattern(field.value || '') && (
+                          <> Example: <span className="font-medium">{formatQuoteNumber(field.value, 42)}</span></>
+                        )}
+                      </p>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={form.control}
+                  name="defaultValidityDays"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Default Offer Validity (days)</FormLabel>
+                      <FormControl>
+                        <Input
+                          {...field}
+                          type="number"
+                          min={1}
+                          data-testid="input-default-validity-days"
+                          disabled={updateSettingsMutation.isPending}
+                        />
+                      </FormControl>
+                      <p className="text-sm text-muted-foreground">
+                        Used in payment terms clause 4 unless a quote sets its own validity.
+                      </p>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={form.control}
+                  name="maxDiscountPercent"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Discount Limit (% of subtotal)</FormLabel>
+                      <FormControl>
+                        <Input
+                          {...field}
+                          type="number"
+                          min={0}
+                          max={100}
+                          step="0.1"
+                          data-testid="input-max-discount-percent"
+                          disabled={updateSettingsMutation.isPending}
+                        />
+                      </FormControl>
+                      <p className="text-sm text-muted-foreground">
+                        Quotes whose discount lines add up to more than this need a manager's approval before they are exported or sent.
+                      </p>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={form.control}
+                  name="minMarginPercent"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Minimum Margin (%)</FormLabel>
+                      <FormControl>
+                        <Input
+                          {...field}
+                          type="number"
+                          min={0}
+                          max={100}
+                          step="0.1"
+                          data-testid="input-min-margin-percent"
+                          disabled={updateSettingsMutation.isPending}
+                        />
+                      </FormControl>
+                      <p className="text-sm text-muted-foreground">
+                        Margin over the catalog cost of the BOM lines. Lower margins also need approval; 0 only catches quotes below cost.
+                      </p>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={form.control}
+                  name="trashRetentionDays"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Trash Retention (days)</FormLabel>
+                      <FormControl>
+                        <Input
+                          {...field}
+                          type="number"
+                          min={1}
+                          data-testid="input-trash-retention-days"
+                          disabled={updateSettingsMutation.isPending}
+                        />
+                      </FormControl>
+                      <p className="text-sm text-muted-foreground">
+                        Deleted quotes stay in the trash for this many days before they are removed permanently.
+                      </p>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </TabsContent>
             </Tabs>
 
             {/* Action Buttons */}
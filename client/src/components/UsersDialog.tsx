@@ -0,0 +1,239 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { KeyRound, Loader2, Trash2, UserPlus, Users } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { apiRequest } from "@/lib/queryClient";
+import { USER_ROLES, USER_ROLE_LABELS, type UserRole } from "@shared/permissions";
+import type { CreateUserRequest, PublicUser, UpdateUserRequest } from "@shared/schema";
+
+interface UsersDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const EMPTY_USER: CreateUserRequest = {
+  username: "",
+  password: "",
+  role: "sales",
+};
+
+// Admin view of the user accounts: add users, change roles, reset passwords and remove accounts
+export default function UsersDialog({ open, onOpenChange }: UsersDialogProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { user: currentUser } = useAuth();
+  const [draft, setDraft] = useState<CreateUserRequest>(EMPTY_USER);
+
+  const { data: users = [], isLoading } = useQuery<PublicUser[]>({
+    queryKey: ['/api/users'],
+    enabled: open,
+  });
+
+  const showError = (title: string) => (error: any) => {
+    toast({
+      title,
+      description: error.message || "An error occurred while saving the user.",
+      variant: "destructive",
+    });
+  };
+
+  const createUserMutation = useMutation({
+    mutationFn: async (newUser: CreateUserRequest) => {
+      const response = await apiRequest('POST', '/api/users', newUser);
+      return await response.json();
+    },
+    onSuccess: (createdUser: PublicUser) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/users'] });
+      setDraft(EMPTY_USER);
+      toast({
+        title: "User added",
+        description: `"${createdUser.username}" can now log in as ${USER_ROLE_LABELS[createdUser.role].toLowerCase()}.`,
+      });
+    },
+    onError: showError("Failed to add user"),
+  });
+
+  const updateUserMutation = useMutation({
+    mutationFn: async ({ id, updates }: { id: string; updates: UpdateUserRequest }) => {
+      const response = await apiRequest('PUT', `/api/users/${id}`, updates);
+      return await response.json();
+    },
+    onSuccess: (updatedUser: PublicUser, { updates }) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/users'] });
+      // Changing your own role changes what the rest of the app lets you do
+      if (updatedUser.id === currentUser?.id) {
+        queryClient.setQueryData(['/api/user'], updatedUser);
+      }
+      if (updates.password) {
+        toast({
+          title: "Password reset",
+          description: `"${updatedUser.username}" can log in with the new password.`,
+        });
+      }
+    },
+    onError: showError("Failed to update user"),
+  });
+
+  const deleteUserMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const response = await apiRequest('DELETE', `/api/users/${id}`);
+      return await response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/users'] });
+    },
+    onError: showError("Failed to delete user"),
+  });
+
+  const handleResetPassword = (user: PublicUser) => {
+    const password = window.prompt(`New password for "${user.username}" (at least 8 characters):`);
+    if (password) {
+      updateUserMutation.mutate({ id: user.id, updates: { password } });
+    }
+  };
+
+  const handleDelete = (user: PublicUser) => {
+    if (window.confirm(`Delete the account "${user.username}"? Their quotes are kept.`)) {
+      deleteUserMutation.mutate(user.id);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Users className="h-5 w-5" />
+            Users
+          </DialogTitle>
+          <DialogDescription>
+            Sales edit and send quotes. Managers can also delete anyone's quotes, approve discounts and maintain the catalog and sales team. Admins also manage settings, backups and users.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-6 py-2">
+          {isLoading ? (
+            <p className="text-sm text-muted-foreground">Loading users...</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Username</TableHead>
+                  <TableHead>Role</TableHead>
+                  <TableHead className="w-24" />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {users.map(user => (
+                  <TableRow key={user.id} data-testid={`row-user-${user.id}`}>
+                    <TableCell className="font-medium">
+                      {user.username}
+                      {user.id === currentUser?.id && <span className="text-muted-foreground font-normal"> (you)</span>}
+                    </TableCell>
+                    <TableCell>
+                      <Select
+                        value={user.role}
+                        onValueChange={(role) => updateUserMutation.mutate({ id: user.id, updates: { role: role as UserRole } })}
+                        disabled={updateUserMutation.isPending}
+                      >
+                        <SelectTrigger className="w-36" data-testid={`select-user-role-${user.id}`}>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {USER_ROLES.map(role => (
+                            <SelectItem key={role} value={role}>{USER_ROLE_LABELS[role]}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => handleResetPassword(user)}
+                        title="Reset password"
+                        data-testid={`button-reset-password-${user.id}`}
+                      >
+                        <KeyRound className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => handleDelete(user)}
+                        disabled={user.id === currentUser?.id || deleteUserMutation.isPending}
+                        title="Delete user"
+                        data-testid={`button-delete-user-${user.id}`}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+
+          <form
+            className="space-y-3 border-t pt-4"
+            onSubmit={(e) => {
+              e.preventDefault();
+              createUserMutation.mutate(draft);
+            }}
+          >
+            <Label>Add user</Label>
+            <div className="grid grid-cols-[1fr_1fr_auto] gap-2">
+              <Input
+                placeholder="Username"
+                autoComplete="off"
+                value={draft.username}
+                onChange={(e) => setDraft(prev => ({ ...prev, username: e.target.value }))}
+                data-testid="input-new-user-username"
+              />
+              <Input
+                type="password"
+                placeholder="Password (8+ characters)"
+                autoComplete="new-password"
+                value={draft.password}
+                onChange={(e) => setDraft(prev => ({ ...prev, password: e.target.value }))}
+                data-testid="input-new-user-password"
+              />
+              <Select
+                value={draft.role}
+                onValueChange={(role) => setDraft(prev => ({ ...prev, role: role as UserRole }))}
+              >
+                <SelectTrigger className="w-32" data-testid="select-new-user-role">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {USER_ROLES.map(role => (
+                    <SelectItem key={role} value={role}>{USER_ROLE_LABELS[role]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <Button
+              type="submit"
+              size="sm"
+              disabled={!draft.username.trim() || !draft.password || createUserMutation.isPending}
+              data-testid="button-add-user"
+            >
+              {createUserMutation.isPending ? (
+                <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+              ) : (
+                <UserPlus className="h-4 w-4 mr-2" />
+              )}
+              Add User
+            </Button>
+          </form>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
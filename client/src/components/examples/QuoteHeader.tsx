@@ -36,7 +36,7 @@ export default function QuoteHeaderExample() {
         onQuoteSubjectChange={(value) => setFormData(prev => ({ ...prev, quoteSubject: value }))}
         onCustomerCompanyChange={(value) => setFormData(prev => ({ ...prev, customerCompany: value }))}
         onCustomerLogoChange={handleLogoChange}
-        onSalesPersonChange={(value) => setFormData(prev => ({ ...prev, salesPersonName: value }))}
+        onSalesPersonSelect={(salesPerson) => setFormData(prev => ({ ...prev, salesPersonName: salesPerson.name }))}
         onDateChange={(value) => setFormData(prev => ({ ...prev, date: value }))}
         onVersionChange={(value) => setFormData(prev => ({ ...prev, version: value }))}
         onPaymentTermsChange={(value) => setFormData(prev => ({ ...prev, paymentTerms: value }))}
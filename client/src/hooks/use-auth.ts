@@ -0,0 +1,54 @@
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { apiRequest, getQueryFn, queryClient } from "@/lib/queryClient";
+import type { LoginCredentials, PublicUser } from "@shared/schema";
+import { hasPermission, type Permission } from "@shared/permissions";
+
+// The logged-in user, or null when the login page should be shown
+export function useAuth() {
+  const { data: user, isLoading } = useQuery<PublicUser | null>({
+    queryKey: ["/api/user"],
+    queryFn: getQueryFn({ on401: "returnNull" }),
+  });
+
+  const { data: setup } = useQuery<{ setupRequired: boolean }>({
+    queryKey: ["/api/setup"],
+    enabled: user === null,
+  });
+
+  // Login and first-account setup both answer with the new session's user
+  const startSession = (sessionUser: PublicUser) => {
+    queryClient.clear();
+    queryClient.setQueryData(["/api/user"], sessionUser);
+  };
+
+  const loginMutation = useMutation({
+    mutationFn: async (credentials: LoginCredentials) => {
+      const response = await apiRequest("POST", setup?.setupRequired ? "/api/setup" : "/api/login", credentials);
+      return await response.json();
+    },
+    onSuccess: startSession,
+  });
+
+  const logoutMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("POST", "/api/logout");
+    },
+    onSuccess: () => {
+      // Nothing cached for the previous user survives the logout
+      queryClient.clear();
+      queryClient.setQueryData(["/api/user"], null);
+    },
+  });
+
+  // Mirrors the server's checks so actions the role may not perform are hidden or disabled
+  const can = (permission: Permission) => Boolean(user) && hasPermission(user!.role, permission);
+
+  return {
+    user: user ?? null,
+    can,
+    isLoading,
+    setupRequired: setup?.setupRequired ?? false,
+    loginMutation,
+    logoutMutation,
+  };
+}
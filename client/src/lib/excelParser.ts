@@ -1,5 +1,5 @@
 import * as XLSX from 'xlsx';
-import type { QuoteFormData, ColumnVisibility, BomItem, CostItem } from '@shared/schema';
+import type { QuoteFormData, ColumnVisibility, BomItem, CostItem, CatalogImportField, CatalogImportRow } from '@shared/schema';
 
 export interface ParsedExcelData {
   quoteInfo?: Partial<QuoteFormData>;
@@ -391,6 +391,130 @@ function mapBomColumns(headers: string[]): Record<string, number> {
   return map;
 }
 
+// Vendor price lists: guess which header holds each catalog field, in the spirit of mapBomColumns.
+// Mappings are by header text so a saved vendor mapping survives reordered columns.
+export function mapCatalogColumns(headers: string[]): Partial<Record<CatalogImportField, string>> {
+  const map: Partial<Record<CatalogImportField, string>> = {};
+
+  headers.forEach((header) => {
+    const h = header.toLowerCase().trim();
+    if (!h) return;
+    if (!map.partNumber && (h.includes('part number') || h.includes('part no') || h === 'part' || h === 'pn' || h === 'p/n' || h === 'sku' || h.includes('product number') || h.includes('item number'))) {
+      map.partNumber = header;
+    } else if (!map.description && (h.includes('description') || h === 'desc')) {
+      map.description = header;
+    } else if (!map.manufacturer && (h.includes('manufacturer') || h === 'vendor' || h === 'brand' || h === 'mfr')) {
+      map.manufacturer = header;
+    } else if (!map.cost && (h.includes('cost') || h.includes('net price') || h.includes('your price') || h.includes('dealer price') || h.includes('buy price'))) {
+      map.cost = header;
+    } else if (!map.listPrice && (h.includes('list price') || h === 'msrp' || h === 'list' || h === 'price' || h.includes('unit price'))) {
+      map.listPrice = header;
+    } else if (!map.currency && (h === 'currency' || h === 'curr' || h === 'ccy')) {
+      map.currency = header;
+    }
+  });
+
+  return map;
+}
+
+export interface PriceListSheet {
+  headers: string[];
+  rows: Array<{ sourceRow: number; cells: any[] }>;
+}
+
+// Read the first sheet of an XLSX or CSV price list; the header row is the first one a part number column can be found in
+export function parsePriceListFile(file: File): Promise<PriceListSheet> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = (e) => {
+      try {
+        const workbook = XLSX.read(e.target?.result as ArrayBuffer, { type: 'array' });
+        const sheet = workbook.Sheets[workbook.SheetNames[0]];
+        if (!sheet) {
+          reject(new Error('The price list has no sheets'));
+          return;
+        }
+        const data = XLSX.utils.sheet_to_json(sheet, { header: 1, blankrows: true }) as any[][];
+        const toHeaders = (row: any[]) => Array.from(row, cell => String(cell ?? '').trim());
+        const filledRows = data.map((row, index) => ({ index, row: row || [] }))
+          .filter(({ row }) => row.filter(cell => String(cell ?? '').trim()).length >= 2);
+
+        const headerRow = filledRows.slice(0, 25).find(({ row }) => mapCatalogColumns(toHeaders(row)).partNumber) || filledRows[0];
+        if (!headerRow) {
+          reject(new Error('Could not find a header row in the price list'));
+          return;
+        }
+
+        resolve({
+          headers: toHeaders(headerRow.row),
+          rows: data.slice(headerRow.index + 1)
+            .map((cells, offset) => ({ sourceRow: headerRow.index + offset + 2, cells: cells || [] }))
+            .filter(({ cells }) => cells.some(cell => String(cell ?? '').trim())),
+        });
+      } catch (error) {
+        reject(new Error(`Failed to parse price list: ${error instanceof Error ? error.message : 'Unknown error'}`));
+      }
+    };
+    reader.onerror = () => reject(new Error('Failed to read the price list file'));
+    reader.readAsArrayBuffer(file);
+  });
+}
+
+// Turn price-list rows into catalog import rows using a column mapping; unmapped fields are left out
+export function toCatalogImportRows(
+  sheet: PriceListSheet,
+  columns: Partial<Record<CatalogImportField, string>>
+): { rows: CatalogImportRow[]; warnings: string[] } {
+  const warnings: string[] = [];
+  const rows: CatalogImportRow[] = [];
+  const columnIndex = (field: CatalogImportField) => {
+    const header = columns[field];
+    return header ? sheet.headers.indexOf(header) : -1;
+  };
+  const indexes = {
+    partNumber: columnIndex('partNumber'),
+    description: columnIndex('description'),
+    manufacturer: columnIndex('manufacturer'),
+    listPrice: columnIndex('listPrice'),
+    cost: columnIndex('cost'),
+    currency: columnIndex('currency'),
+  };
+  const text = (cells: any[], index: number) => (index >= 0 ? String(cells[index] ?? '').trim() || undefined : undefined);
+  const price = (cells: any[], index: number, rowNumber: number, label: string) => {
+    if (index < 0) return undefined;
+    const value = parseNumber(cells[index]);
+    if (value !== undefined && value < 0) {
+      warnings.push(`Row ${rowNumber}: Negative ${label} ignored`);
+      return undefined;
+    }
+    return value;
+  };
+
+  if (indexes.partNumber < 0) {
+    warnings.push('The part number column is not mapped');
+    return { rows, warnings };
+  }
+
+  for (const { sourceRow, cells } of sheet.rows) {
+    const partNumber = text(cells, indexes.partNumber);
+    if (!partNumber) {
+      warnings.push(`Row ${sourceRow}: Missing part number`);
+      continue;
+    }
+    rows.push({
+      sourceRow,
+      partNumber,
+      description: text(cells, indexes.description),
+      manufacturer: text(cells, indexes.manufacturer),
+      listPrice: price(cells, indexes.listPrice, sourceRow, 'list price'),
+      cost: price(cells, indexes.cost, sourceRow, 'cost'),
+      currency: text(cells, indexes.currency)?.toUpperCase(),
+    });
+  }
+
+  return { rows, warnings };
+}
+
 function mapCostColumns(headers: string[]): Record<string, number> {
   const map: Record<string, number> = {};
   
@@ -0,0 +1,87 @@
+import type jsPDF from "jspdf";
+import { apiRequest } from "@/lib/queryClient";
+import type { QuoteAttachmentInfo } from "@shared/schema";
+
+// A4 in mm, portrait
+const PAGE_WIDTH = 210;
+const PAGE_HEIGHT = 297;
+
+// PDF attachments are rasterized like the quote pages; 2 renders at 144 DPI
+const PDF_RENDER_SCALE = 2;
+
+type ImageFormat = 'JPEG' | 'PNG';
+
+// Add a page holding one image, scaled to fit and centered. Wide images get a landscape page.
+function addImagePage(pdf: jsPDF, imageData: string, format: ImageFormat, width: number, height: number) {
+  const landscape = width > height;
+  const pageWidth = landscape ? PAGE_HEIGHT : PAGE_WIDTH;
+  const pageHeight = landscape ? PAGE_WIDTH : PAGE_HEIGHT;
+  const scale = Math.min(pageWidth / width, pageHeight / height);
+
+  pdf.addPage('a4', landscape ? 'landscape' : 'portrait');
+  pdf.addImage(
+    imageData,
+    format,
+    (pageWidth - width * scale) / 2,
+    (pageHeight - height * scale) / 2,
+    width * scale,
+    height * scale,
+  );
+}
+
+function readAsDataUrl(blob: Blob): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+}
+
+function loadImage(src: string): Promise<HTMLImageElement> {
+  return new Promise((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => resolve(image);
+    image.onerror = () => reject(new Error('Attachment image could not be loaded'));
+    image.src = src;
+  });
+}
+
+async function appendPdfAttachment(pdf: jsPDF, data: ArrayBuffer) {
+  // pdf.js is only loaded when a quote actually has PDF attachments
+  const pdfjs = await import("pdfjs-dist");
+  const { default: workerSrc } = await import("pdfjs-dist/build/pdf.worker.min.mjs?url");
+  pdfjs.GlobalWorkerOptions.workerSrc = workerSrc;
+
+  const attachment = await pdfjs.getDocument({ data }).promise;
+  try {
+    for (let pageNumber = 1; pageNumber <= attachment.numPages; pageNumber++) {
+      const page = await attachment.getPage(pageNumber);
+      const viewport = page.getViewport({ scale: PDF_RENDER_SCALE });
+      const canvas = document.createElement('canvas');
+      canvas.width = Math.ceil(viewport.width);
+      canvas.height = Math.ceil(viewport.height);
+      await page.render({ canvas, viewport }).promise;
+      addImagePage(pdf, canvas.toDataURL('image/jpeg', 0.85), 'JPEG', viewport.width, viewport.height);
+    }
+  } finally {
+    await attachment.destroy();
+  }
+}
+
+// Append the attachments selected for the PDF, in their saved order, after the last quote page
+export async function appendQuoteAttachments(pdf: jsPDF, quoteId: string): Promise<void> {
+  const response = await apiRequest('GET', `/api/quote-forms/${quoteId}/attachments`);
+  const attachments: QuoteAttachmentInfo[] = await response.json();
+
+  for (const attachment of attachments.filter(attachment => attachment.appendToPdf)) {
+    const file = await apiRequest('GET', `/api/quote-forms/${quoteId}/attachments/${attachment.id}/file`);
+    if (attachment.mimeType === 'application/pdf') {
+      await appendPdfAttachment(pdf, await file.arrayBuffer());
+    } else {
+      const imageData = await readAsDataUrl(await file.blob());
+      const image = await loadImage(imageData);
+      addImagePage(pdf, imageData, attachment.mimeType === 'image/png' ? 'PNG' : 'JPEG', image.naturalWidth, image.naturalHeight);
+    }
+  }
+}
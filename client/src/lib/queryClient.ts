@@ -1,9 +1,25 @@
-import { QueryClient, QueryFunction } from "@tanstack/react-query";
+import { MutationCache, QueryCache, QueryClient, QueryFunction } from "@tanstack/react-query";
+
+// Error for a non-2xx response; keeps the status and raw body for callers that need them
+export class ApiError extends Error {
+  constructor(public readonly status: number, public readonly body: string) {
+    super(`${status}: ${body}`);
+    this.name = "ApiError";
+  }
+
+  json<T = any>(): T | undefined {
+    try {
+      return JSON.parse(this.body);
+    } catch {
+      return undefined;
+    }
+  }
+}
 
 async function throwIfResNotOk(res: Response) {
   if (!res.ok) {
     const text = (await res.text()) || res.statusText;
-    throw new Error(`${res.status}: ${text}`);
+    throw new ApiError(res.status, text);
   }
 }
 
@@ -12,10 +28,12 @@ export async function apiRequest(
   url: string,
   data?: unknown | undefined,
 ): Promise<Response> {
+  // File uploads go out as multipart; the browser sets the boundary header itself
+  const isFormData = data instanceof FormData;
   const res = await fetch(url, {
     method,
-    headers: data ? { "Content-Type": "application/json" } : {},
-    body: data ? JSON.stringify(data) : undefined,
+    headers: data && !isFormData ? { "Content-Type": "application/json" } : {},
+    body: isFormData ? data : data ? JSON.stringify(data) : undefined,
     credentials: "include",
   });
 
@@ -41,7 +59,16 @@ export const getQueryFn: <T>(options: {
     return await res.json();
   };
 
+// A 401 from any request means the session has ended; clearing the current user shows the login page
+function handleSessionEnded(error: Error) {
+  if (error instanceof ApiError && error.status === 401) {
+    queryClient.setQueryData(["/api/user"], null);
+  }
+}
+
 export const queryClient = new QueryClient({
+  queryCache: new QueryCache({ onError: handleSessionEnded }),
+  mutationCache: new MutationCache({ onError: handleSessionEnded }),
   defaultOptions: {
     queries: {
       queryFn: getQueryFn({ on401: "throw" }),
@@ -0,0 +1,43 @@
+import type { QuoteFormData } from "@shared/schema";
+
+// Fields managed by the server; a merged quote always takes them from the server copy
+const SERVER_MANAGED_FIELDS = new Set<string>(["id", "quoteNumber", "revision", "lastModified", "deletedAt"]);
+
+export interface QuoteMergeResult {
+  merged: QuoteFormData;
+  conflicts: string[]; // Fields changed both locally and on the server (the local value is kept)
+}
+
+const isSameValue = (a: unknown, b: unknown) => JSON.stringify(a) === JSON.stringify(b);
+
+/**
+ * Three-way merge of top-level quote fields.
+ * `base` is the copy the local edits started from, `server` is the current head.
+ * Fields only the server changed take the server value; everything else keeps the local value.
+ */
+export function mergeQuotes(base: QuoteFormData, local: QuoteFormData, server: QuoteFormData): QuoteMergeResult {
+  const baseRecord = base as Record<string, unknown>;
+  const localRecord = local as Record<string, unknown>;
+  const serverRecord = server as Record<string, unknown>;
+  const merged: Record<string, unknown> = { ...localRecord };
+  const conflicts: string[] = [];
+
+  const fields = Array.from(new Set([...Object.keys(localRecord), ...Object.keys(serverRecord)]));
+  for (const field of fields) {
+    if (SERVER_MANAGED_FIELDS.has(field)) {
+      merged[field] = serverRecord[field];
+      continue;
+    }
+
+    const localChanged = !isSameValue(localRecord[field], baseRecord[field]);
+    const serverChanged = !isSameValue(serverRecord[field], baseRecord[field]);
+
+    if (serverChanged && !localChanged) {
+      merged[field] = serverRecord[field];
+    } else if (serverChanged && localChanged && !isSameValue(localRecord[field], serverRecord[field])) {
+      conflicts.push(field);
+    }
+  }
+
+  return { merged: merged as QuoteFormData, conflicts };
+}
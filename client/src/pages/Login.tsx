@@ -0,0 +1,78 @@
+import { useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Loader2, LogIn } from "lucide-react";
+import { useAuth } from "@/hooks/use-auth";
+import { ApiError } from "@/lib/queryClient";
+
+// Shown instead of the app until someone logs in. Before the first account exists it creates that account.
+export default function Login() {
+  const { setupRequired, loginMutation } = useAuth();
+  const [username, setUsername] = useState("");
+  const [password, setPassword] = useState("");
+
+  const error = loginMutation.error;
+  const errorMessage = error instanceof ApiError ? error.json()?.error || error.message : error?.message;
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    loginMutation.mutate({ username, password });
+  };
+
+  return (
+    <div className="min-h-screen w-full flex items-center justify-center bg-gray-50">
+      <Card className="w-full max-w-sm mx-4">
+        <CardHeader>
+          <CardTitle>{setupRequired ? "Create your account" : "Log in"}</CardTitle>
+          <CardDescription>
+            {setupRequired
+              ? "No accounts exist yet. The account you create here is used to log in from now on."
+              : "Log in to create and manage quotes."}
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="login-username">Username</Label>
+              <Input
+                id="login-username"
+                autoComplete="username"
+                autoFocus
+                value={username}
+                onChange={(e) => setUsername(e.target.value)}
+                data-testid="input-login-username"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="login-password">Password</Label>
+              <Input
+                id="login-password"
+                type="password"
+                autoComplete={setupRequired ? "new-password" : "current-password"}
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                data-testid="input-login-password"
+              />
+              {setupRequired && (
+                <p className="text-xs text-muted-foreground">At least 8 characters.</p>
+              )}
+            </div>
+            {errorMessage && (
+              <p className="text-sm text-destructive" data-testid="text-login-error">{errorMessage}</p>
+            )}
+            <Button type="submit" className="w-full" disabled={loginMutation.isPending} data-testid="button-login">
+              {loginMutation.isPending ? (
+                <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+              ) : (
+                <LogIn className="h-4 w-4 mr-2" />
+              )}
+              {setupRequired ? "Create Account" : "Log In"}
+            </Button>
+          </form>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
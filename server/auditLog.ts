@@ -0,0 +1,47 @@
+import type { AuditChange } from "@shared/schema";
+
+// Top-level fields that change on every save, identify the record or have their own history
+// (ownership is logged as "owner", discount approval as "approval")
+const IGNORED_FIELDS = new Set(["id", "lastModified", "revision", "statusHistory", "createdAt", "updatedAt", "deletedAt", "validUntil", "isExpired", "createdBy", "ownerId", "approval"]);
+
+const BASE64_DATA_URL = /^data:([^;,]+);base64,/;
+
+type Container = Record<string, unknown> | unknown[];
+
+function isContainer(value: unknown): value is Container {
+  return typeof value === "object" && value !== null;
+}
+
+// Uploaded files are recorded by type and size rather than by their content
+function auditValue(value: unknown): unknown {
+  if (typeof value === "string") {
+    const match = value.match(BASE64_DATA_URL);
+    if (match) return `[${match[1]}, ${Math.floor((value.length - match[0].length) * 3 / 4)} bytes]`;
+  }
+  return value ?? null;
+}
+
+// Changed values between two versions of a record as dotted paths to the leaves,
+// e.g. "bomGroups.0.items.2.unitPrice". Pass undefined as before for a new record.
+export function diffFieldPaths(before: unknown, after: unknown, path = ""): AuditChange[] {
+  if (isContainer(before) || isContainer(after)) {
+    const beforeFields: Container = isContainer(before) ? before : {};
+    const afterFields: Container = isContainer(after) ? after : {};
+    const keys = new Set([...Object.keys(beforeFields), ...Object.keys(afterFields)]);
+    const changes = Array.from(keys)
+      .filter(key => path !== "" || !IGNORED_FIELDS.has(key))
+      .flatMap(key => diffFieldPaths(
+        (beforeFields as Record<string, unknown>)[key],
+        (afterFields as Record<string, unknown>)[key],
+        path ? `${path}.${key}` : key,
+      ));
+    // A value replaced by a list or object (or the other way round) is also recorded at its own path
+    if (!isContainer(before) && auditValue(before) !== null) changes.unshift({ path, oldValue: auditValue(before), newValue: null });
+    if (!isContainer(after) && auditValue(after) !== null) changes.unshift({ path, oldValue: null, newValue: auditValue(after) });
+    return changes;
+  }
+
+  const oldValue = auditValue(before);
+  const newValue = auditValue(after);
+  return oldValue === newValue ? [] : [{ path, oldValue, newValue }];
+}
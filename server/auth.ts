@@ -0,0 +1,275 @@
+import type { Express, Request, Response, NextFunction, RequestHandler } from "express";
+import session from "express-session";
+import passport from "passport";
+import { Strategy as LocalStrategy } from "passport-local";
+import createMemoryStore from "memorystore";
+import connectPg from "connect-pg-simple";
+import { createHash, randomBytes, scrypt, timingSafeEqual } from "crypto";
+import { promisify } from "util";
+import { storage, DatabaseStorage } from "./storage";
+import { loginSchema, setupAccountSchema, type User as SelectUser, type PublicUser, type PublicApiToken, type ApiTokenScope } from "@shared/schema";
+import { hasPermission, type Permission } from "@shared/permissions";
+
+declare global {
+  namespace Express {
+    interface User extends SelectUser {}
+    interface Request {
+      apiToken?: PublicApiToken; // Set when the request was authenticated with an API token instead of the session
+    }
+  }
+}
+
+const scryptAsync = promisify(scrypt);
+
+const SESSION_MAX_AGE_MS = 7 * 24 * 60 * 60 * 1000;
+
+const API_TOKEN_PREFIX = "mqg_";
+
+// Last-used times are only written this often; with the file backend every write rewrites the whole data file
+const API_TOKEN_USAGE_INTERVAL_MS = 60 * 1000;
+
+// Stored as "<hash>.<salt>", both hex
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(16).toString("hex");
+  const hash = (await scryptAsync(password, salt, 64)) as Buffer;
+  return `${hash.toString("hex")}.${salt}`;
+}
+
+export async function verifyPassword(password: string, stored: string): Promise<boolean> {
+  const [hash, salt] = stored.split(".");
+  if (!hash || !salt) return false;
+  const storedHash = Buffer.from(hash, "hex");
+  const suppliedHash = (await scryptAsync(password, salt, 64)) as Buffer;
+  return storedHash.length === suppliedHash.length && timingSafeEqual(storedHash, suppliedHash);
+}
+
+// Tokens are long random strings, so a plain SHA-256 is enough and lets them be looked up by hash
+export function hashApiToken(token: string): string {
+  return createHash("sha256").update(token).digest("hex");
+}
+
+export function generateApiToken(): { token: string; tokenHash: string; tokenPrefix: string } {
+  const token = `${API_TOKEN_PREFIX}${randomBytes(32).toString("base64url")}`;
+  return { token, tokenHash: hashApiToken(token), tokenPrefix: token.slice(0, API_TOKEN_PREFIX.length + 6) };
+}
+
+export function toPublicUser({ password: _password, ...user }: SelectUser): PublicUser {
+  return user;
+}
+
+// Sessions live next to the data: in Postgres with the database backend, in memory otherwise
+function createSessionStore(): session.Store {
+  if (storage instanceof DatabaseStorage) {
+    // Its own pg connection: the neon pool in db.ts does not have the pg.Pool type connect-pg-simple expects
+    const PgStore = connectPg(session);
+    return new PgStore({ conString: process.env.DATABASE_URL, createTableIfMissing: true });
+  }
+  const MemoryStore = createMemoryStore(session);
+  return new MemoryStore({ checkPeriod: 24 * 60 * 60 * 1000 });
+}
+
+export function userCan(req: Request, permission: Permission): boolean {
+  return Boolean(req.user) && hasPermission(req.user!.role, permission);
+}
+
+// Route middleware for the permission matrix in shared/permissions.ts
+export function requirePermission(permission: Permission): RequestHandler {
+  return (req, res, next) => {
+    if (userCan(req, permission)) return next();
+    res.status(403).json({ error: 'Your role does not allow this action' });
+  };
+}
+
+// Accounts created before roles existed start out as sales; make sure someone can still manage users
+export async function ensureAdministrator(): Promise<void> {
+  const existingUsers = await storage.getUsers();
+  if (existingUsers.length === 0 || existingUsers.some(user => user.role === "admin")) return;
+  const [promoted] = existingUsers;
+  await storage.updateUser(promoted.id, { role: "admin" });
+  console.log('No admin account found - gave the admin role to', promoted.username);
+}
+
+// "Authorization: Bearer <token>" authenticates the request as the token's user, without a session
+async function authenticateApiToken(req: Request, res: Response, next: NextFunction) {
+  const header = req.headers.authorization;
+  if (!header?.startsWith("Bearer ")) return next();
+
+  try {
+    const token = await storage.getApiTokenByHash(hashApiToken(header.slice("Bearer ".length).trim()));
+    const user = token && await storage.getUser(token.userId);
+    if (!token || !user) {
+      return res.status(401).json({ error: 'Invalid API token' });
+    }
+    const now = new Date();
+    let lastUsedAt = token.lastUsedAt;
+    if (!lastUsedAt || now.getTime() - new Date(lastUsedAt).getTime() >= API_TOKEN_USAGE_INTERVAL_MS) {
+      lastUsedAt = now.toISOString();
+      await storage.markApiTokenUsed(token.id, lastUsedAt);
+    }
+    const { tokenHash: _tokenHash, ...publicToken } = token;
+    req.user = user;
+    req.apiToken = { ...publicToken, lastUsedAt };
+    next();
+  } catch (error) {
+    console.error('Error checking API token:', error);
+    res.status(500).json({ error: 'Failed to check API token' });
+  }
+}
+
+// The scope an API token needs for a request, or null for routes tokens cannot use at all
+function apiTokenScopeFor(req: Request): ApiTokenScope | null {
+  if (req.method === "POST" && req.path === "/download-pdf") return "pdf.render";
+  if (req.path === "/quote-forms" || req.path.startsWith("/quote-forms/")) {
+    return req.method === "GET" ? "quotes.read" : "quotes.write";
+  }
+  return null;
+}
+
+// Token requests are limited to the token's scopes on top of the user's role; session requests pass
+function requireApiTokenScope(req: Request, res: Response, next: NextFunction) {
+  if (!req.apiToken) return next();
+  const scope = apiTokenScopeFor(req);
+  if (!scope) {
+    return res.status(403).json({ error: 'API tokens cannot be used for this route' });
+  }
+  if (!req.apiToken.scopes.includes(scope)) {
+    return res.status(403).json({ error: `This API token does not have the ${scope} scope` });
+  }
+  next();
+}
+
+// Every /api route registered after this requires a logged-in user
+function requireAuth(req: Request, res: Response, next: NextFunction) {
+  if (req.isAuthenticated()) return next();
+  res.status(401).json({ error: 'Not logged in' });
+}
+
+// Session cookies, passport-local login, API tokens and the login, logout, current-user and first-account routes.
+// Must run before any other /api route is registered.
+export function setupAuth(app: Express) {
+  const secret = process.env.SESSION_SECRET;
+  if (!secret) {
+    console.warn('SESSION_SECRET is not set - using a random secret, so sessions end when the server restarts');
+  }
+
+  app.set("trust proxy", 1);
+  app.use(session({
+    secret: secret || randomBytes(32).toString("hex"),
+    resave: false,
+    saveUninitialized: false,
+    store: createSessionStore(),
+    cookie: {
+      httpOnly: true,
+      sameSite: "lax",
+      secure: app.get("env") === "production",
+      maxAge: SESSION_MAX_AGE_MS,
+    },
+  }));
+  app.use(passport.initialize());
+  app.use(passport.session());
+
+  passport.use(new LocalStrategy(async (username, password, done) => {
+    try {
+      const user = await storage.getUserByUsername(username.trim());
+      if (!user || !(await verifyPassword(password, user.password))) {
+        return done(null, false);
+      }
+      return done(null, user);
+    } catch (error) {
+      return done(error);
+    }
+  }));
+
+  passport.serializeUser((user, done) => done(null, user.id));
+  passport.deserializeUser(async (id: string, done) => {
+    try {
+      // A deleted account simply ends the session
+      done(null, (await storage.getUser(id)) || false);
+    } catch (error) {
+      done(error);
+    }
+  });
+
+  app.post('/api/login', (req, res, next) => {
+    const validation = loginSchema.safeParse(req.body);
+    if (!validation.success) {
+      return res.status(400).json({ error: validation.error.errors.map(i => i.message).join(', ') });
+    }
+
+    passport.authenticate('local', (error: unknown, user: SelectUser | false) => {
+      if (error) {
+        console.error('Error logging in:', error);
+        return res.status(500).json({ error: 'Failed to log in' });
+      }
+      if (!user) {
+        return res.status(401).json({ error: 'Invalid username or password' });
+      }
+      req.login(user, (loginError) => {
+        if (loginError) {
+          console.error('Error starting session:', loginError);
+          return res.status(500).json({ error: 'Failed to log in' });
+        }
+        console.log('POST /api/login - Logged in:', user.username);
+        res.json(toPublicUser(user));
+      });
+    })(req, res, next);
+  });
+
+  app.post('/api/logout', (req, res) => {
+    req.logout((error) => {
+      if (error) {
+        console.error('Error logging out:', error);
+        return res.status(500).json({ error: 'Failed to log out' });
+      }
+      res.json({ success: true, message: 'Logged out successfully' });
+    });
+  });
+
+  app.get('/api/user', (req, res) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ error: 'Not logged in' });
+    }
+    res.json(toPublicUser(req.user));
+  });
+
+  // The login page offers to create the first account, an admin, until one exists
+  app.get('/api/setup', async (_req, res) => {
+    try {
+      res.json({ setupRequired: !(await storage.hasUsers()) });
+    } catch (error) {
+      console.error('Error checking account setup:', error);
+      res.status(500).json({ error: 'Failed to check account setup' });
+    }
+  });
+
+  app.post('/api/setup', async (req, res) => {
+    try {
+      const validation = setupAccountSchema.safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({ error: validation.error.errors.map(i => i.message).join(', ') });
+      }
+      if (await storage.hasUsers()) {
+        return res.status(409).json({ error: 'An account already exists - log in instead' });
+      }
+
+      const user = await storage.createUser({
+        username: validation.data.username,
+        password: await hashPassword(validation.data.password),
+        role: "admin",
+      });
+      console.log('POST /api/setup - Created first account:', user.username);
+      req.login(user, (loginError) => {
+        if (loginError) {
+          console.error('Error starting session:', loginError);
+          return res.status(500).json({ error: 'Failed to log in' });
+        }
+        res.status(201).json(toPublicUser(user));
+      });
+    } catch (error) {
+      console.error('Error creating first account:', error);
+      res.status(500).json({ error: 'Failed to create account' });
+    }
+  });
+
+  app.use('/api', authenticateApiToken, requireAuth, requireApiTokenScope);
+}
@@ -0,0 +1,228 @@
+import { createHash } from "crypto";
+import { gunzipSync, gzipSync } from "zlib";
+import { z } from "zod";
+import {
+  BACKUP_SCHEMA_VERSION, backupAssetSchema, backupDataSchema, backupManifestSchema, backupSections,
+  type BackupArchive, type BackupAsset, type BackupData, type BackupImportMode, type BackupImportResult,
+  type BackupImportSectionResult, type BackupManifest, type BackupSection,
+} from "@shared/schema";
+
+// Rejected archives; the message is meant for the person importing the file
+export class BackupArchiveError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "BackupArchiveError";
+  }
+}
+
+const BASE64_DATA_URL = /^data:([^;,]+);base64,/;
+const ASSET_REFERENCE = /^asset:([0-9a-f]{64})$/;
+
+// Copy a JSON value, passing every string through replace
+function mapStrings(value: unknown, replace: (text: string) => string): unknown {
+  if (typeof value === "string") return replace(value);
+  if (Array.isArray(value)) return value.map(item => mapStrings(item, replace));
+  if (value && typeof value === "object") {
+    return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, mapStrings(item, replace)]));
+  }
+  return value;
+}
+
+function formatIssues(error: z.ZodError): string {
+  const issues = error.errors.slice(0, 5).map(issue => `${issue.path.join(".") || "archive"}: ${issue.message}`);
+  return issues.join("; ") + (error.errors.length > 5 ? ` (and ${error.errors.length - 5} more)` : "");
+}
+
+function countSections(data: BackupData): Record<BackupSection, number> {
+  return Object.fromEntries(backupSections.map(section => [section, data[section].length])) as Record<BackupSection, number>;
+}
+
+// Build an archive from the store contents. Uploaded files are moved into the asset table,
+// keyed by content hash, so a logo used on hundreds of quotes is stored once.
+export function createBackupArchive(data: BackupData, exportedAt = new Date()): BackupArchive {
+  const assets: Record<string, BackupAsset> = {};
+  const archivedData = mapStrings(data, text => {
+    const match = text.match(BASE64_DATA_URL);
+    if (!match) return text;
+    const id = createHash("sha256").update(text).digest("hex");
+    assets[id] = { mimeType: match[1], base64: text.slice(match[0].length) };
+    return `asset:${id}`;
+  }) as BackupData;
+
+  const manifest: BackupManifest = {
+    format: "moonquote-backup",
+    schemaVersion: BACKUP_SCHEMA_VERSION,
+    exportedAt: exportedAt.toISOString(),
+    counts: countSections(data),
+    assetCount: Object.keys(assets).length,
+  };
+  return { manifest, data: archivedData, assets };
+}
+
+export function encodeBackupArchive(archive: BackupArchive): Buffer {
+  return gzipSync(JSON.stringify(archive));
+}
+
+// Read an uploaded archive (gzipped or plain JSON), put the assets back in place and validate
+// the data with the same schemas the API uses. Throws BackupArchiveError when anything is off.
+export function decodeBackupArchive(file: Buffer): BackupArchive {
+  let json: unknown;
+  try {
+    const isGzip = file[0] === 0x1f && file[1] === 0x8b;
+    json = JSON.parse((isGzip ? gunzipSync(file) : file).toString("utf8"));
+  } catch {
+    throw new BackupArchiveError("The file is not a backup archive");
+  }
+
+  const envelope = z.object({
+    manifest: backupManifestSchema,
+    data: z.unknown(),
+    assets: z.record(backupAssetSchema).default({}),
+  }).safeParse(json);
+  if (!envelope.success) {
+    throw new BackupArchiveError(`Invalid backup archive: ${formatIssues(envelope.error)}`);
+  }
+
+  const { manifest, assets } = envelope.data;
+  if (manifest.schemaVersion > BACKUP_SCHEMA_VERSION) {
+    throw new BackupArchiveError(
+      `Backup schema version ${manifest.schemaVersion} is newer than this server supports (${BACKUP_SCHEMA_VERSION})`,
+    );
+  }
+
+  const missingAssets = new Set<string>();
+  const restoredData = mapStrings(envelope.data.data, text => {
+    const reference = text.match(ASSET_REFERENCE);
+    if (!reference) return text;
+    const asset = assets[reference[1]];
+    if (!asset) {
+      missingAssets.add(reference[1]);
+      return text;
+    }
+    return `data:${asset.mimeType};base64,${asset.base64}`;
+  });
+  if (missingAssets.size > 0) {
+    throw new BackupArchiveError(`Backup archive is missing ${missingAssets.size} referenced asset(s)`);
+  }
+
+  const data = backupDataSchema.safeParse(restoredData);
+  if (!data.success) {
+    throw new BackupArchiveError(`Invalid backup archive: ${formatIssues(data.error)}`);
+  }
+  return { manifest, data: data.data, assets };
+}
+
+export type BackupImportPlan = {
+  data: BackupData; // Complete store contents after the import
+  result: Omit<BackupImportResult, "dryRun" | "manifest">;
+};
+
+// Combine one section. Replace keeps only the archive records; merge adds archive records
+// and lets them win over stored records with the same key.
+function combineSection<T>(
+  current: T[],
+  incoming: T[],
+  keyOf: (record: T) => string,
+  mode: BackupImportMode,
+): { records: T[]; counts: BackupImportSectionResult } {
+  const currentByKey = new Map(current.map(record => [keyOf(record), record]));
+  const combined = new Map(mode === "merge" ? Array.from(currentByKey) : []);
+  const counts: BackupImportSectionResult = { added: 0, updated: 0, removed: 0, skipped: 0 };
+
+  for (const record of incoming) {
+    const key = keyOf(record);
+    if (currentByKey.has(key)) counts.updated += 1;
+    else counts.added += 1;
+    combined.set(key, record);
+  }
+  if (mode === "replace") {
+    counts.removed = current.filter(record => !combined.has(keyOf(record))).length;
+  }
+  return { records: Array.from(combined.values()), counts };
+}
+
+// Work out the store contents after importing an archive, without writing anything
+export function planBackupImport(current: BackupData, incoming: BackupData, mode: BackupImportMode): BackupImportPlan {
+  const warnings: string[] = [];
+
+  // Quote numbers are unique: an archive quote whose number belongs to another quote is left out
+  const numberOwners = new Map<string, string>();
+  if (mode === "merge") {
+    current.quotes.forEach(quote => quote.quoteNumber && numberOwners.set(quote.quoteNumber, quote.id!));
+  }
+  let skippedQuotes = 0;
+  const acceptedQuotes = incoming.quotes.filter(quote => {
+    const owner = quote.quoteNumber ? numberOwners.get(quote.quoteNumber) : undefined;
+    if (owner && owner !== quote.id) {
+      skippedQuotes += 1;
+      warnings.push(`Quote ${quote.quoteNumber} (${quote.quoteSubject}) skipped: its number is used by another quote`);
+      return false;
+    }
+    if (quote.quoteNumber) numberOwners.set(quote.quoteNumber, quote.id!);
+    return true;
+  });
+
+  const quotes = combineSection(current.quotes, acceptedQuotes, quote => quote.id!, mode);
+  quotes.counts.skipped = skippedQuotes;
+  const customers = combineSection(current.customers, incoming.customers, customer => customer.id, mode);
+  const salesPeople = combineSection(current.salesPeople, incoming.salesPeople, salesPerson => salesPerson.id, mode);
+  const catalogImportMappings = combineSection(current.catalogImportMappings, incoming.catalogImportMappings, mapping => mapping.vendor, mode);
+  const bomKits = combineSection(current.bomKits, incoming.bomKits, kit => kit.id, mode);
+
+  // Catalog items are matched by part number; a stored item keeps its id so nothing pointing at it breaks
+  const catalogIds = new Map(current.catalogItems.map(item => [item.partNumber, item.id]));
+  const catalogItems = combineSection(
+    current.catalogItems,
+    incoming.catalogItems.map(item => ({ ...item, id: catalogIds.get(item.partNumber) ?? item.id })),
+    item => item.partNumber,
+    mode,
+  );
+
+  // Revision history and attachments follow the quote: archive quotes bring their own
+  const importedQuoteIds = new Set(acceptedQuotes.map(quote => quote.id!));
+  const finalQuoteIds = new Set(quotes.records.map(quote => quote.id!));
+  const followQuotes = <T extends { quoteId: string }>(currentRecords: T[], incomingRecords: T[]): T[] => [
+    ...(mode === "merge" ? currentRecords.filter(record => !importedQuoteIds.has(record.quoteId)) : []),
+    ...incomingRecords.filter(record => importedQuoteIds.has(record.quoteId)),
+  ].filter(record => finalQuoteIds.has(record.quoteId));
+  const revisions = followQuotes(current.revisions, incoming.revisions);
+  const attachments = followQuotes(current.attachments, incoming.attachments);
+
+  // Mirror ON DELETE SET NULL for references to records that are not part of the result
+  const customerIds = new Set(customers.records.map(customer => customer.id));
+  const linkedQuotes = quotes.records.map(quote => {
+    const { customerId, parentQuoteId, ...rest } = quote;
+    return {
+      ...rest,
+      ...(customerId && customerIds.has(customerId) ? { customerId } : {}),
+      ...(parentQuoteId && finalQuoteIds.has(parentQuoteId) ? { parentQuoteId } : {}),
+    };
+  });
+
+  return {
+    data: {
+      settings: mode === "replace" ? incoming.settings : current.settings,
+      quotes: linkedQuotes,
+      revisions,
+      customers: customers.records,
+      salesPeople: salesPeople.records,
+      catalogItems: catalogItems.records,
+      catalogImportMappings: catalogImportMappings.records,
+      bomKits: bomKits.records,
+      attachments,
+      quoteSequence: mode === "replace" ? incoming.quoteSequence : Math.max(current.quoteSequence, incoming.quoteSequence),
+    },
+    result: {
+      mode,
+      sections: {
+        quotes: quotes.counts,
+        customers: customers.counts,
+        salesPeople: salesPeople.counts,
+        catalogItems: catalogItems.counts,
+        catalogImportMappings: catalogImportMappings.counts,
+        bomKits: bomKits.counts,
+      },
+      warnings,
+    },
+  };
+}
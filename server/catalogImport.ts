@@ -0,0 +1,61 @@
+import type { CatalogItem, CatalogImportRow, CatalogImportRowResult, InsertCatalogItem } from "@shared/schema";
+
+const COMPARED_FIELDS = ["description", "manufacturer", "listPrice", "cost", "currency"] as const;
+
+export type CatalogImportPlan = {
+  rows: CatalogImportRowResult[];
+  upserts: InsertCatalogItem[]; // Added and updated items, ready to write
+};
+
+// Work out what importing a mapped price list would do to the catalog, without writing anything.
+// Rows are matched to catalog items by part number; fields missing from a row keep their catalog value.
+export function planCatalogImport(existingItems: CatalogItem[], rows: CatalogImportRow[], defaultCurrency: string): CatalogImportPlan {
+  const existingByPartNumber = new Map(existingItems.map(item => [item.partNumber, item]));
+  const seenPartNumbers = new Set<string>();
+  const plan: CatalogImportPlan = { rows: [], upserts: [] };
+
+  for (const row of rows) {
+    const partNumber = row.partNumber.trim();
+    if (seenPartNumbers.has(partNumber)) {
+      plan.rows.push({ sourceRow: row.sourceRow, partNumber, action: "skipped", reason: "Duplicate part number in this price list" });
+      continue;
+    }
+    seenPartNumbers.add(partNumber);
+
+    // Prices in a list without a currency column are in the vendor's default currency
+    const hasPrice = row.listPrice !== undefined || row.cost !== undefined;
+    const existing = existingByPartNumber.get(partNumber);
+
+    if (!existing) {
+      plan.upserts.push({
+        partNumber,
+        description: row.description ?? "",
+        manufacturer: row.manufacturer ?? null,
+        listPrice: row.listPrice ?? null,
+        cost: row.cost ?? null,
+        currency: row.currency || defaultCurrency,
+      });
+      plan.rows.push({ sourceRow: row.sourceRow, partNumber, action: "added" });
+      continue;
+    }
+
+    const merged: InsertCatalogItem = {
+      partNumber,
+      description: row.description ?? existing.description,
+      manufacturer: row.manufacturer ?? existing.manufacturer,
+      listPrice: row.listPrice ?? existing.listPrice,
+      cost: row.cost ?? existing.cost,
+      currency: row.currency || (hasPrice ? defaultCurrency : existing.currency),
+    };
+    const changes = COMPARED_FIELDS.filter(field => (merged[field] ?? null) !== (existing[field] ?? null));
+
+    if (changes.length === 0) {
+      plan.rows.push({ sourceRow: row.sourceRow, partNumber, action: "unchanged" });
+    } else {
+      plan.upserts.push(merged);
+      plan.rows.push({ sourceRow: row.sourceRow, partNumber, action: "updated", changes: [...changes] });
+    }
+  }
+
+  return plan;
+}
@@ -0,0 +1,42 @@
+import { PDFDocument, PageSizes } from "pdf-lib";
+import type { QuoteAttachment } from "@shared/schema";
+
+// A4 in points, portrait
+const [PAGE_WIDTH, PAGE_HEIGHT] = PageSizes.A4;
+
+// Attachments are stored as data URLs
+function attachmentBytes(attachment: QuoteAttachment): Buffer {
+  return Buffer.from(attachment.content.slice(attachment.content.indexOf(',') + 1), 'base64');
+}
+
+// Append attachments, in the order given, after the last page of the rendered quote. Like the
+// client export (client/src/lib/pdfAttachments.ts), images get a page each, scaled to fit and
+// centered, with a landscape page for wide images; PDF pages are copied as they are.
+export async function appendAttachmentsToPdf(quotePdf: Uint8Array, attachments: QuoteAttachment[]): Promise<Buffer> {
+  if (attachments.length === 0) return Buffer.from(quotePdf);
+
+  const pdf = await PDFDocument.load(quotePdf);
+  for (const attachment of attachments) {
+    const bytes = attachmentBytes(attachment);
+    if (attachment.mimeType === 'application/pdf') {
+      const source = await PDFDocument.load(bytes, { ignoreEncryption: true });
+      const pages = await pdf.copyPages(source, source.getPageIndices());
+      pages.forEach(page => pdf.addPage(page));
+      continue;
+    }
+
+    const image = attachment.mimeType === 'image/png' ? await pdf.embedPng(bytes) : await pdf.embedJpg(bytes);
+    const landscape = image.width > image.height;
+    const pageWidth = landscape ? PAGE_HEIGHT : PAGE_WIDTH;
+    const pageHeight = landscape ? PAGE_WIDTH : PAGE_HEIGHT;
+    const scale = Math.min(pageWidth / image.width, pageHeight / image.height);
+    const page = pdf.addPage([pageWidth, pageHeight]);
+    page.drawImage(image, {
+      x: (pageWidth - image.width * scale) / 2,
+      y: (pageHeight - image.height * scale) / 2,
+      width: image.width * scale,
+      height: image.height * scale,
+    });
+  }
+  return Buffer.from(await pdf.save());
+}
@@ -0,0 +1,60 @@
+import type { QuoteFormData, PartPriceHistory, PartPriceHistoryLine, PartPriceStats } from "@shared/schema";
+
+// Every BOM line across the given quotes whose part number matches exactly (ignoring case and surrounding spaces)
+export function getPartPriceHistory(quotes: QuoteFormData[], partNumber: string): PartPriceHistory {
+  const wanted = partNumber.trim().toLowerCase();
+  const lines: PartPriceHistoryLine[] = [];
+
+  for (const quote of quotes) {
+    const groups = quote.bomGroups && quote.bomGroups.length > 0
+      ? quote.bomGroups
+      : [{ id: "bom-1", name: "BOM 1", items: quote.bomItems || [] }];
+
+    for (const group of groups) {
+      group.items.forEach((item, index) => {
+        if (item.partNumber.trim().toLowerCase() !== wanted) return;
+        lines.push({
+          quote: {
+            id: quote.id,
+            quoteNumber: quote.quoteNumber,
+            quoteSubject: quote.quoteSubject,
+            customerCompany: quote.customerCompany,
+            date: quote.date,
+            status: quote.status,
+          },
+          groupName: group.name,
+          line: index + 1,
+          quantity: item.quantity,
+          unitPrice: item.unitPrice ?? undefined,
+          currency: quote.currency || "USD",
+        });
+      });
+    }
+  }
+
+  // Most recent quote date first
+  lines.sort((a, b) => b.quote.date.localeCompare(a.quote.date));
+
+  const stats: PartPriceStats[] = [];
+  for (const line of lines) {
+    if (line.unitPrice === undefined) continue;
+    const currencyStats = stats.find(entry => entry.currency === line.currency);
+    if (!currencyStats) {
+      // Lines are newest first, so the first priced line per currency is the last price charged
+      stats.push({
+        currency: line.currency,
+        count: 1,
+        last: line.unitPrice,
+        lastDate: line.quote.date,
+        min: line.unitPrice,
+        max: line.unitPrice,
+      });
+      continue;
+    }
+    currencyStats.count++;
+    currencyStats.min = Math.min(currencyStats.min, line.unitPrice);
+    currencyStats.max = Math.max(currencyStats.max, line.unitPrice);
+  }
+
+  return { partNumber: partNumber.trim(), lines, stats };
+}
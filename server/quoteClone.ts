@@ -0,0 +1,85 @@
+import type { CatalogItem, Customer, QuoteCloneMode, QuoteFormData, QuoteRepriceSummary } from "@shared/schema";
+import { getQuoteBomLines } from "@shared/quoteTotals";
+
+type BomLine = NonNullable<QuoteFormData["bomItems"]>[number];
+
+// Next version label: the last number in the label is incremented ("1" -> "2", "2.1" -> "2.2").
+// Labels without a number start over at "2".
+export function nextQuoteVersion(version: string): string {
+  const match = version.match(/(\d+)(?!.*\d)/);
+  if (!match || match.index === undefined) return "2";
+  const next = String(parseInt(match[1], 10) + 1);
+  return version.slice(0, match.index) + next + version.slice(match.index + match[1].length);
+}
+
+// Copy of a quote ready to be saved as a new quote. Server-managed fields (id, number, revision,
+// status, discount approval, trash state) are dropped; the storage layer and the route assign them afresh.
+export function cloneQuoteForm(source: QuoteFormData, mode: QuoteCloneMode, today: string, customer?: Customer): QuoteFormData {
+  const {
+    id, quoteNumber, revision, status, statusHistory, approval, deletedAt, lastModified,
+    validUntil, isExpired, parentQuoteId, ...content
+  } = source;
+
+  if (mode === "version") {
+    return { ...content, version: nextQuoteVersion(source.version || "1"), parentQuoteId: id };
+  }
+
+  // A copy for another customer starts as version 1 of a new offer; an explicit
+  // end date belonged to the old offer, so validity falls back to the day count
+  const { customerId, validUntilDate, ...rest } = content;
+  return {
+    ...rest,
+    customerCompany: customer?.name ?? "",
+    customerLogo: customer?.logo || undefined,
+    customerId: customer?.id,
+    currency: customer?.defaultCurrency || content.currency,
+    paymentTerms: customer?.defaultPaymentTerms || content.paymentTerms,
+    date: today,
+    version: "1",
+  };
+}
+
+// Take BOM unit prices from the catalog list price. Lines are matched by exact part number;
+// catalog prices in another currency than the quote are left alone, as when picking a part in the editor.
+export function repriceQuoteForm(
+  quote: QuoteFormData,
+  catalogByPartNumber: Map<string, CatalogItem>,
+): { quote: QuoteFormData; summary: QuoteRepriceSummary } {
+  const summary: QuoteRepriceSummary = { repriced: 0, unchanged: 0, notInCatalog: [], currencyMismatch: [] };
+  const note = (list: string[], partNumber: string) => {
+    if (!list.includes(partNumber)) list.push(partNumber);
+  };
+
+  const repriceLine = (item: BomLine): BomLine => {
+    const partNumber = item.partNumber.trim();
+    if (!partNumber) return item;
+    const catalogItem = catalogByPartNumber.get(partNumber);
+    if (!catalogItem || catalogItem.listPrice == null) {
+      note(summary.notInCatalog, partNumber);
+      return item;
+    }
+    if (catalogItem.currency !== quote.currency) {
+      note(summary.currencyMismatch, partNumber);
+      return item;
+    }
+    if (item.unitPrice === catalogItem.listPrice) {
+      summary.unchanged += 1;
+      return item;
+    }
+    summary.repriced += 1;
+    return { ...item, unitPrice: catalogItem.listPrice, totalPrice: item.quantity * catalogItem.listPrice };
+  };
+
+  // Legacy quotes only have the flat bomItems list
+  const repriced: QuoteFormData = quote.bomGroups && quote.bomGroups.length > 0
+    ? { ...quote, bomGroups: quote.bomGroups.map(group => ({ ...group, items: group.items.map(repriceLine) })) }
+    : { ...quote, bomItems: quote.bomItems?.map(repriceLine) };
+
+  return { quote: repriced, summary };
+}
+
+// Unique part numbers on the BOM lines of a quote, for looking them up in the catalog
+export function getQuotePartNumbers(quote: Pick<QuoteFormData, "bomGroups" | "bomItems" | "costItems">): string[] {
+  const partNumbers = getQuoteBomLines(quote).map(item => item.partNumber.trim()).filter(Boolean);
+  return Array.from(new Set(partNumbers));
+}
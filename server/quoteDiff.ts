@@ -0,0 +1,130 @@
+import type { QuoteFormData } from "@shared/schema";
+
+// A single scalar value that differs between two revisions
+export type FieldChange = {
+  field: string;
+  from: unknown;
+  to: unknown;
+};
+
+// A BOM or cost line that was added, removed or edited between two revisions
+export type LineChange = {
+  type: "added" | "removed" | "changed";
+  key: string;
+  group?: string;
+  before?: Record<string, unknown>;
+  after?: Record<string, unknown>;
+  changes?: FieldChange[];
+};
+
+export type QuoteDiff = {
+  header: FieldChange[];
+  bomLines: LineChange[];
+  costLines: LineChange[];
+};
+
+// Header fields compared between revisions (nested objects are flattened to dotted paths)
+const HEADER_FIELDS = [
+  "quoteSubject",
+  "customerCompany",
+  "salesPersonName",
+  "date",
+  "version",
+  "paymentTerms",
+  "currency",
+  "bomEnabled",
+  "costsEnabled",
+] as const;
+
+const BOM_LINE_FIELDS = ["partNumber", "productDescription", "quantity", "unitPrice", "totalPrice"];
+const COST_LINE_FIELDS = ["productDescription", "quantity", "unitPrice", "totalPrice", "isDiscount"];
+
+type KeyedLine = {
+  key: string;
+  group?: string;
+  line: Record<string, unknown>;
+};
+
+function compareFields(before: Record<string, unknown>, after: Record<string, unknown>, fields: string[], prefix = ""): FieldChange[] {
+  const changes: FieldChange[] = [];
+  for (const field of fields) {
+    const from = before[field] ?? null;
+    const to = after[field] ?? null;
+    if (from !== to) {
+      changes.push({ field: prefix + field, from, to });
+    }
+  }
+  return changes;
+}
+
+// Give each line a stable key. Repeated keys (the same part twice in a group)
+// are told apart by their occurrence number.
+function keyLines(lines: Array<{ baseKey: string; group?: string; line: Record<string, unknown> }>): KeyedLine[] {
+  const seen = new Map<string, number>();
+  return lines.map(({ baseKey, group, line }) => {
+    const occurrence = (seen.get(baseKey) || 0) + 1;
+    seen.set(baseKey, occurrence);
+    return { key: occurrence > 1 ? `${baseKey}#${occurrence}` : baseKey, group, line };
+  });
+}
+
+function bomLines(quote: QuoteFormData): KeyedLine[] {
+  const groups = quote.bomGroups && quote.bomGroups.length > 0
+    ? quote.bomGroups
+    : [{ id: "bom-1", name: "BOM 1", items: quote.bomItems || [] }];
+
+  return keyLines(groups.flatMap(group =>
+    group.items.map(item => ({
+      baseKey: `${group.id}/${item.partNumber || item.productDescription}`,
+      group: group.name,
+      line: item as Record<string, unknown>,
+    }))
+  ));
+}
+
+function costLines(quote: QuoteFormData): KeyedLine[] {
+  return keyLines((quote.costItems || []).map(item => ({
+    baseKey: item.productDescription,
+    line: item as Record<string, unknown>,
+  })));
+}
+
+function diffLines(before: KeyedLine[], after: KeyedLine[], fields: string[]): LineChange[] {
+  const changes: LineChange[] = [];
+  const afterByKey = new Map(after.map(entry => [entry.key, entry]));
+  const beforeKeys = new Set(before.map(entry => entry.key));
+
+  for (const entry of before) {
+    const match = afterByKey.get(entry.key);
+    if (!match) {
+      changes.push({ type: "removed", key: entry.key, group: entry.group, before: entry.line });
+      continue;
+    }
+    const lineChanges = compareFields(entry.line, match.line, fields);
+    if (lineChanges.length > 0) {
+      changes.push({ type: "changed", key: entry.key, group: match.group, before: entry.line, after: match.line, changes: lineChanges });
+    }
+  }
+
+  for (const entry of after) {
+    if (!beforeKeys.has(entry.key)) {
+      changes.push({ type: "added", key: entry.key, group: entry.group, after: entry.line });
+    }
+  }
+
+  return changes;
+}
+
+// Structured diff between two quote snapshots: header fields, BOM lines and cost lines
+export function diffQuotes(before: QuoteFormData, after: QuoteFormData): QuoteDiff {
+  const header = [
+    ...compareFields(before as Record<string, unknown>, after as Record<string, unknown>, [...HEADER_FIELDS]),
+    ...compareFields(before.contactInfo || {}, after.contactInfo || {}, ["salesPersonName", "role", "phone", "email"], "contactInfo."),
+  ];
+
+  return {
+    header,
+    bomLines: diffLines(bomLines(before), bomLines(after), BOM_LINE_FIELDS),
+    costLines: diffLines(costLines(before), costLines(after), COST_LINE_FIELDS),
+  };
+}
@@ -0,0 +1,87 @@
+import type { QuoteFormData, QuoteSearchField, QuoteSearchMatch, QuoteSearchResult } from "@shared/schema";
+
+// A piece of searchable text in a quote and where it came from
+type SearchableText = Omit<QuoteSearchMatch, "value"> & {
+  value: string | undefined;
+};
+
+// Split a query into lowercase terms; every term must occur somewhere in a quote
+export function parseSearchTerms(query: string): string[] {
+  return query
+    .toLowerCase()
+    .split(/\s+/)
+    .filter(term => term.length > 0);
+}
+
+function searchableTexts(quote: QuoteFormData): SearchableText[] {
+  const headerField = (field: QuoteSearchField & keyof QuoteFormData): SearchableText => ({
+    field,
+    value: quote[field] as string | undefined,
+  });
+
+  const texts: SearchableText[] = [
+    headerField("quoteNumber"),
+    headerField("quoteSubject"),
+    headerField("customerCompany"),
+    headerField("salesPersonName"),
+  ];
+
+  const groups = quote.bomGroups && quote.bomGroups.length > 0
+    ? quote.bomGroups
+    : [{ id: "bom-1", name: "BOM 1", items: quote.bomItems || [] }];
+
+  for (const group of groups) {
+    texts.push({ field: "bomGroupName", value: group.name, groupName: group.name });
+    group.items.forEach((item, index) => {
+      texts.push({ field: "partNumber", value: item.partNumber, groupName: group.name, line: index + 1 });
+      texts.push({ field: "productDescription", value: item.productDescription, groupName: group.name, line: index + 1 });
+    });
+  }
+
+  (quote.costItems || []).forEach((item, index) => {
+    texts.push({ field: "costDescription", value: item.productDescription, line: index + 1 });
+  });
+
+  return texts;
+}
+
+// Find the quotes containing every term and report which fields and lines matched
+export function searchQuotes(quotes: QuoteFormData[], terms: string[]): QuoteSearchResult[] {
+  if (terms.length === 0) return [];
+
+  const results: QuoteSearchResult[] = [];
+  for (const quote of quotes) {
+    const matches: QuoteSearchMatch[] = [];
+    const matchedTerms = new Set<string>();
+
+    for (const text of searchableTexts(quote)) {
+      if (!text.value) continue;
+      const haystack = text.value.toLowerCase();
+      const termsInText = terms.filter(term => haystack.includes(term));
+      if (termsInText.length === 0) continue;
+
+      termsInText.forEach(term => matchedTerms.add(term));
+      matches.push({ ...text, value: text.value });
+    }
+
+    if (matchedTerms.size === terms.length) {
+      results.push({
+        quote: {
+          id: quote.id,
+          quoteNumber: quote.quoteNumber,
+          quoteSubject: quote.quoteSubject,
+          customerCompany: quote.customerCompany,
+          salesPersonName: quote.salesPersonName,
+          date: quote.date,
+          lastModified: quote.lastModified,
+        },
+        matches,
+      });
+    }
+  }
+
+  // Most recently modified quotes first
+  return results.sort((a, b) =>
+    new Date(b.quote.lastModified || 0).getTime() - new Date(a.quote.lastModified || 0).getTime()
+  );
+}
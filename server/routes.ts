@@ -1,11 +1,26 @@
-import type { Express } from "express";
+import type { Express, Request, Response, RequestHandler } from "express";
 import express from "express";
 import { createServer, type Server } from "http";
 import path from "path";
 import { fileURLToPath } from "url";
-import { storage } from "./storage";
-import { insertQuoteSchema, insertBomItemSchema, insertCostItemSchema, insertQuoteFormDataSchema, insertTemplateSettingsSchema } from "@shared/schema";
+import { storage, QuoteConflictError } from "./storage";
+import { diffQuotes } from "./quoteDiff";
+import { parseSearchTerms, searchQuotes } from "./quoteSearch";
+import { planCatalogImport } from "./catalogImport";
+import { getPartPriceHistory } from "./priceHistory";
+import { appendAttachmentsToPdf } from "./pdfAttachments";
+import { cloneQuoteForm, getQuotePartNumbers, repriceQuoteForm } from "./quoteClone";
+import { diffFieldPaths } from "./auditLog";
+import { setupAuth, ensureAdministrator, requirePermission, userCan, hashPassword, toPublicUser, generateApiToken } from "./auth";
+import { BackupArchiveError, createBackupArchive, decodeBackupArchive, encodeBackupArchive, planBackupImport } from "./backupArchive";
+import { insertQuoteSchema, insertBomItemSchema, insertCostItemSchema, insertQuoteFormDataSchema, insertTemplateSettingsSchema, insertCustomerSchema, insertSalesPersonSchema, insertCatalogItemSchema, insertBomKitSchema, catalogImportRequestSchema, quoteCloneRequestSchema, quoteListQuerySchema, quoteStatusChangeSchema, quoteOwnerChangeSchema, quoteAttachmentOrderSchema, auditQuerySchema, createUserSchema, updateUserSchema, createApiTokenSchema, quoteApprovalDecisionSchema, quoteDiscountCheckRequestSchema, BACKUP_IMPORT_MODES, QUOTE_ATTACHMENT_MAX_BYTES, type BackupImportResult, type InsertAuditEvent, type QuoteFormData, type CatalogImportResult, type CatalogItem, type QuoteCloneResult, type QuoteRepriceSummary, type CreatedApiToken, type QuoteApprovalQueueItem, type QuoteAttachment } from "@shared/schema";
+import { canTransitionQuoteStatus, QUOTE_STATUS_LABELS, type QuoteStatus } from "@shared/quoteStatus";
+import { DEFAULT_VALIDITY_DAYS, getQuoteValidUntil, isQuoteValidityExpired, formatValidityClause, type QuoteValidityInput } from "@shared/quoteValidity";
+import { DEFAULT_QUOTE_NUMBER_PATTERN, formatQuoteNumber } from "@shared/quoteNumber";
+import { DEFAULT_MAX_DISCOUNT_PERCENT, DEFAULT_MIN_MARGIN_PERCENT, checkQuoteDiscount, isAwaitingApproval, nextQuoteApproval, type QuoteDiscountCheck } from "@shared/quoteApproval";
+import { calculateQuoteTotals, getQuoteBomLines } from "@shared/quoteTotals";
 import { z } from "zod";
+import multer from "multer";
 import { Document, Page, Text, View, Image, StyleSheet, renderToBuffer, type DocumentProps } from "@react-pdf/renderer";
 import { readFileSync } from "fs";
 import { join } from "path";
@@ -18,187 +33,1832 @@ const saveQuoteSchema = z.object({
   costItems: z.array(insertCostItemSchema),
 });
 
+// Form fields sent along with a backup archive upload
+const backupImportOptionsSchema = z.object({
+  mode: z.enum(BACKUP_IMPORT_MODES, { errorMap: () => ({ message: 'Mode must be "merge" or "replace"' }) }),
+  dryRun: z.enum(["true", "false"]).default("true").transform(value => value === "true"), // Preview unless the caller explicitly commits
+});
+
+// Backup archives are read in memory; they hold every quote and uploaded image
+const backupUpload = multer({ storage: multer.memoryStorage(), limits: { fileSize: 200 * 1024 * 1024 } });
+
+// Quote attachments are read in memory and stored as data URLs
+const attachmentUpload = multer({ storage: multer.memoryStorage(), limits: { fileSize: QUOTE_ATTACHMENT_MAX_BYTES } });
+
+// Type of an uploaded attachment from its first bytes, so a renamed file cannot end up in the PDF.
+// Returns undefined for anything other than PDF, PNG or JPEG.
+function detectAttachmentType(file: Buffer): string | undefined {
+  if (file.subarray(0, 5).toString("latin1") === "%PDF-") return "application/pdf";
+  if (file.subarray(0, 8).equals(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]))) return "image/png";
+  if (file[0] === 0xff && file[1] === 0xd8 && file[2] === 0xff) return "image/jpeg";
+  return undefined;
+}
+
+// Run a multer upload inside a route handler so upload errors get the API's JSON error shape
+function receiveUpload(upload: RequestHandler, req: Request, res: Response): Promise<void> {
+  return new Promise((resolve, reject) => {
+    upload(req, res, (error?: unknown) => (error ? reject(error) : resolve()));
+  });
+}
+
 const __dirname = path.dirname(fileURLToPath(import.meta.url));
 
-export async function registerRoutes(app: Express): Promise<Server> {
-  // Serve static assets from public directory
-  app.use('/assets', express.static(path.join(__dirname, '../public/assets')));
-  
-  // Quote routes
-  
-  // Save a new quote
-  app.post("/api/quotes", async (req, res) => {
+// Name recorded as the author of a change: the logged-in user, which every /api route requires
+function getActor(req: Request): string {
+  return req.user!.username;
+}
+
+// Store an audit event for a change that has already been made. A failure to write the
+// log is reported but does not fail the request that made the change.
+async function recordAudit(actor: string, event: Omit<InsertAuditEvent, "actor">): Promise<void> {
+  try {
+    await storage.addAuditEvent({ ...event, actor });
+  } catch (error) {
+    console.error('Error recording audit event:', error);
+  }
+}
+
+// Sales work on the quotes they own. Quotes saved before ownership existed have no owner and stay open to everyone.
+function canAccessQuote(req: Request, quote: QuoteFormData): boolean {
+  return userCan(req, 'quotes.viewTeam') || !quote.ownerId || quote.ownerId === req.user!.id;
+}
+
+// Trashing and restoring someone else's (or nobody's) quote needs quotes.deleteAny
+function canDeleteQuote(req: Request, quote: QuoteFormData): boolean {
+  return userCan(req, 'quotes.deleteAny') || quote.ownerId === req.user!.id;
+}
+
+// New quotes and clones belong to the user who saved them
+function ownedBy(req: Request): Pick<QuoteFormData, "createdBy" | "ownerId"> {
+  return { createdBy: req.user!.id, ownerId: req.user!.id };
+}
+
+// Someone must always be able to manage users
+async function isLastAdmin(userId: string): Promise<boolean> {
+  const admins = (await storage.getUsers()).filter(user => user.role === 'admin');
+  return admins.length === 1 && admins[0].id === userId;
+}
+
+// "Q-2025-0042 Core switches", or just the subject for quotes saved before numbering
+function quoteAuditLabel(quote: Pick<QuoteFormData, "quoteNumber" | "quoteSubject">): string {
+  return [quote.quoteNumber, quote.quoteSubject].filter(Boolean).join(' ');
+}
+
+// Why a quote cannot be sent or exported yet
+function approvalBlockedMessage(quote: QuoteFormData, action: 'sent' | 'exported'): string {
+  return quote.approval?.status === 'rejected'
+    ? `The discount on this quote was rejected; rework it before it can be ${action}`
+    : `This quote is waiting for discount approval before it can be ${action}`;
+}
+
+// Quote revisions double as ETags: "<revision>"
+function revisionETag(revision: number | undefined): string {
+  return `"${revision ?? 0}"`;
+}
+
+// Revision the client based its update on, from If-Match or the request body
+function getExpectedRevision(req: Request): number | undefined {
+  const ifMatch = req.get("If-Match");
+  if (ifMatch && ifMatch.trim() !== "*") {
+    const revision = parseInt(ifMatch.replace(/^W\//, "").replace(/"/g, ""), 10);
+    if (!Number.isNaN(revision)) return revision;
+  }
+  return typeof req.body?.revision === "number" ? req.body.revision : undefined;
+}
+
+// Allocate the next quote number using the pattern configured in settings
+async function assignQuoteNumber(): Promise<string> {
+  const settings = await storage.getSettings();
+  const sequence = await storage.allocateQuoteSequence();
+  return formatQuoteNumber(settings.quoteNumberPattern || DEFAULT_QUOTE_NUMBER_PATTERN, sequence);
+}
+
+const DEFAULT_TRASH_RETENTION_DAYS = 30;
+const CATALOG_IMPORT_AUDIT_PART_LIMIT = 100; // Part numbers named in a price list import's audit event
+const MAINTENANCE_INTERVAL_MS = 60 * 60 * 1000;
+
+async function getDefaultValidityDays(): Promise<number> {
+  const settings = await storage.getSettings();
+  return settings.defaultValidityDays || DEFAULT_VALIDITY_DAYS;
+}
+
+// Add the computed offer validity to a quote or quote summary.
+// Accepted and rejected quotes are settled, so they are never reported as expired.
+function withValidity<T extends QuoteValidityInput & { status?: QuoteStatus }>(
+  quote: T,
+  defaultValidityDays: number,
+): T & { validUntil: string; isExpired: boolean } {
+  const validUntil = getQuoteValidUntil(quote, defaultValidityDays);
+  const isSettled = quote.status === 'accepted' || quote.status === 'rejected';
+  return { ...quote, validUntil, isExpired: !isSettled && isQuoteValidityExpired(validUntil) };
+}
+
+// Check a quote's discount and margin against the limits in settings, using catalog costs in the quote's currency
+async function checkDiscount(quote: Pick<QuoteFormData, "currency" | "bomGroups" | "bomItems" | "costItems">): Promise<QuoteDiscountCheck> {
+  const settings = await storage.getSettings();
+  const unitCosts = new Map<string, number>();
+  for (const partNumber of getQuotePartNumbers(quote)) {
+    const catalogItem = await storage.getCatalogItemByPartNumber(partNumber);
+    if (catalogItem && catalogItem.cost != null && catalogItem.currency === quote.currency) {
+      unitCosts.set(partNumber, catalogItem.cost);
+    }
+  }
+  return checkQuoteDiscount(quote, {
+    maxDiscountPercent: settings.maxDiscountPercent ?? DEFAULT_MAX_DISCOUNT_PERCENT,
+    minMarginPercent: settings.minMarginPercent ?? DEFAULT_MIN_MARGIN_PERCENT,
+  }, unitCosts);
+}
+
+// Re-check the discount rules after a save and record whether the quote now needs approval
+async function refreshQuoteApproval(quote: QuoteFormData, actor: string): Promise<QuoteFormData> {
+  const approval = nextQuoteApproval(quote.approval, await checkDiscount(quote), actor, new Date().toISOString());
+  if (approval === quote.approval) return quote;
+
+  const updatedQuote = await storage.setQuoteApproval(quote.id!, approval);
+  if (approval?.status !== quote.approval?.status) {
+    await recordAudit(actor, {
+      action: 'update',
+      entityType: 'quote',
+      entityId: quote.id,
+      entityLabel: quoteAuditLabel(quote),
+      quoteId: quote.id,
+      changes: [{ path: 'approval', oldValue: quote.approval?.status ?? null, newValue: approval?.status ?? null }],
+    });
+  }
+  return updatedQuote ?? quote;
+}
+
+// Move sent quotes whose validity period has ended to the "expired" status
+async function expireOverdueQuotes(): Promise<number> {
+  const defaultValidityDays = await getDefaultValidityDays();
+  const overdueQuotes = (await storage.getAllQuoteForms())
+    .filter(quote => quote.status === 'sent' && withValidity(quote, defaultValidityDays).isExpired);
+
+  for (const quote of overdueQuotes) {
+    await storage.changeQuoteStatus(quote.id!, {
+      status: 'expired',
+      changedAt: new Date().toISOString(),
+      changedBy: 'system',
+      reason: 'Validity period ended',
+    });
+    await recordAudit('system', {
+      action: 'update',
+      entityType: 'quote',
+      entityId: quote.id,
+      entityLabel: quoteAuditLabel(quote),
+      quoteId: quote.id,
+      changes: [{ path: 'status', oldValue: quote.status, newValue: 'expired' }],
+    });
+  }
+  if (overdueQuotes.length > 0) {
+    console.log(`Expired ${overdueQuotes.length} quote(s) past their validity period`);
+  }
+  return overdueQuotes.length;
+}
+
+// Permanently remove quotes that have been in the trash longer than the configured retention period
+async function purgeExpiredTrash(): Promise<number> {
+  const settings = await storage.getSettings();
+  const retentionDays = settings.trashRetentionDays || DEFAULT_TRASH_RETENTION_DAYS;
+  const cutoff = new Date(Date.now() - retentionDays * 24 * 60 * 60 * 1000);
+  const expiredQuotes = (await storage.getTrashedQuoteForms())
+    .filter(quote => new Date(quote.deletedAt!) < cutoff);
+  const purged = await storage.purgeTrashedQuoteForms(cutoff);
+  for (const quote of expiredQuotes) {
+    await recordAudit('system', {
+      action: 'purge',
+      entityType: 'quote',
+      entityId: quote.id,
+      entityLabel: quoteAuditLabel(quote),
+      quoteId: quote.id,
+    });
+  }
+  if (purged > 0) {
+    console.log(`Purged ${purged} quote(s) from the trash (retention ${retentionDays} days)`);
+  }
+  return purged;
+}
+
+export async function registerRoutes(app: Express): Promise<Server> {
+  // Sessions and login come first so that every other /api route requires a user
+  setupAuth(app);
+  await ensureAdministrator().catch(error => console.error('Error checking for an admin account:', error));
+
+  // Purge expired trash and expire overdue quotes on startup and then hourly
+  const runMaintenance = async () => {
+    await purgeExpiredTrash().catch(error => console.error('Error purging trash:', error));
+    await expireOverdueQuotes().catch(error => console.error('Error expiring quotes:', error));
+  };
+  runMaintenance();
+  setInterval(runMaintenance, MAINTENANCE_INTERVAL_MS).unref();
+
+  // Serve static assets from public directory
+  app.use('/assets', express.static(path.join(__dirname, '../public/assets')));
+  
+  // Quote routes
+  
+  // Save a new quote
+  app.post("/api/quotes", requirePermission('quotes.edit'), async (req, res) => {
+    try {
+      console.log('=== POST /api/quotes HANDLER CALLED ===');
+      console.log('POST /api/quotes - Method:', req.method);
+      console.log('POST /api/quotes - URL:', req.url);
+      console.log('POST /api/quotes - Request body:', JSON.stringify(req.body, null, 2));
+      
+      const validatedData = saveQuoteSchema.parse(req.body);
+      console.log('POST /api/quotes - Validated data:', JSON.stringify(validatedData, null, 2));
+      
+      const savedQuote = await storage.saveQuote(validatedData);
+      console.log('POST /api/quotes - Saved quote result type:', typeof savedQuote);
+      console.log('POST /api/quotes - Saved quote keys:', Object.keys(savedQuote));
+      console.log('POST /api/quotes - Saved quote:', JSON.stringify(savedQuote, null, 2));
+      
+      console.log('=== SENDING RESPONSE ===');
+      res.json(savedQuote);
+    } catch (error) {
+      console.error('Error saving quote:', error);
+      res.status(400).json({ error: error instanceof Error ? error.message : 'Invalid request' });
+    }
+  });
+
+  // Get all quotes (list view)
+  app.get("/api/quotes", async (req, res) => {
+    try {
+      console.log('=== GET /api/quotes HANDLER CALLED ===');
+      console.log('GET /api/quotes - Method:', req.method);
+      console.log('GET /api/quotes - URL:', req.url);
+      
+      const quotes = await storage.getAllQuotes();
+      console.log('GET /api/quotes - Number of quotes:', quotes.length);
+      res.json(quotes);
+    } catch (error) {
+      console.error('Error fetching quotes:', error);
+      res.status(500).json({ error: 'Failed to fetch quotes' });
+    }
+  });
+
+  // Get a specific quote by ID
+  app.get("/api/quotes/:id", async (req, res) => {
+    try {
+      const { id } = req.params;
+      const quote = await storage.getQuote(id);
+      
+      if (!quote) {
+        return res.status(404).json({ error: 'Quote not found' });
+      }
+      
+      res.json(quote);
+    } catch (error) {
+      console.error('Error fetching quote:', error);
+      res.status(500).json({ error: 'Failed to fetch quote' });
+    }
+  });
+
+  // Update a quote
+  app.put("/api/quotes/:id", requirePermission('quotes.edit'), async (req, res) => {
+    try {
+      const { id } = req.params;
+      console.log(`PUT /api/quotes/${id} - Request body:`, JSON.stringify(req.body, null, 2));
+      const validatedData = saveQuoteSchema.parse(req.body);
+      console.log(`PUT /api/quotes/${id} - Validated data:`, JSON.stringify(validatedData, null, 2));
+      const updatedQuote = await storage.updateQuote(id, validatedData);
+      console.log(`PUT /api/quotes/${id} - Updated quote:`, JSON.stringify(updatedQuote?.quote, null, 2));
+      
+      if (!updatedQuote) {
+        return res.status(404).json({ error: 'Quote not found' });
+      }
+      
+      res.json(updatedQuote);
+    } catch (error) {
+      console.error('Error updating quote:', error);
+      res.status(400).json({ error: error instanceof Error ? error.message : 'Invalid request' });
+    }
+  });
+
+  // Delete a quote
+  app.delete("/api/quotes/:id", requirePermission('quotes.deleteAny'), async (req, res) => {
+    try {
+      const { id } = req.params;
+      const deleted = await storage.deleteQuote(id);
+      
+      if (!deleted) {
+        return res.status(404).json({ error: 'Quote not found' });
+      }
+      
+      res.json({ success: true, message: 'Quote deleted successfully' });
+    } catch (error) {
+      console.error('Error deleting quote:', error);
+      res.status(500).json({ error: 'Failed to delete quote' });
+    }
+  });
+
+  // NEW QUOTE FORM ROUTES (using QuoteFormData structure)
+
+  // Every route for a single quote, and everything below it, is limited to users who may see that quote.
+  // Paths like /search or /trash are not quote ids and pass through to their own routes.
+  app.use("/api/quote-forms/:id", async (req, res, next) => {
+    try {
+      const quote = await storage.getQuoteForm(req.params.id);
+      if (!quote || canAccessQuote(req, quote)) return next();
+      res.status(403).json({ error: 'This quote belongs to another user' });
+    } catch (error) {
+      console.error('Error checking quote access:', error);
+      res.status(500).json({ error: 'Failed to fetch quote' });
+    }
+  });
+  
+  // Save a new quote form
+  app.post("/api/quote-forms", requirePermission('quotes.edit'), async (req, res) => {
+    try {
+      console.log('POST /api/quote-forms - Request body:', JSON.stringify(req.body, null, 2));
+      // A new quote gets its own id and revision, as clones do; the client cannot pick an existing quote
+      const { id: _id, revision: _revision, ...validatedData } = insertQuoteFormDataSchema.parse(req.body);
+      // Quote numbers are always assigned by the server, never taken from the client
+      const createdQuote = await storage.saveQuoteForm(
+        { ...validatedData, quoteNumber: await assignQuoteNumber(), ...ownedBy(req) },
+        getActor(req),
+      );
+      console.log('POST /api/quote-forms - Saved quote:', createdQuote.id);
+      await recordAudit(getActor(req), {
+        action: 'create',
+        entityType: 'quote',
+        entityId: createdQuote.id,
+        entityLabel: quoteAuditLabel(createdQuote),
+        quoteId: createdQuote.id,
+        changes: diffFieldPaths(undefined, createdQuote),
+      });
+      const savedQuote = await refreshQuoteApproval(createdQuote, getActor(req));
+      res.set('ETag', revisionETag(savedQuote.revision));
+      res.json(withValidity(savedQuote, await getDefaultValidityDays()));
+    } catch (error) {
+      console.error('Error saving quote form:', error);
+      res.status(400).json({ error: error instanceof Error ? error.message : 'Invalid request' });
+    }
+  });
+
+  // List quote forms as a page of summaries
+  // (?page, pageSize, sort, order, customer, salesPerson, currency, dateFrom, dateTo, search, scope, ownerId)
+  app.get("/api/quote-forms", async (req, res) => {
+    const parsedQuery = quoteListQuerySchema.safeParse(req.query);
+    if (!parsedQuery.success) {
+      return res.status(400).json({ error: parsedQuery.error.errors.map(issue => issue.message).join(', ') });
+    }
+    const query = parsedQuery.data;
+    if (query.scope === 'team' && !userCan(req, 'quotes.viewTeam')) {
+      return res.status(403).json({ error: 'Your role does not allow this action' });
+    }
+
+    try {
+      const result = await storage.listQuoteForms({
+        ...query,
+        ownerId: query.scope === 'mine' ? req.user!.id : query.ownerId,
+      });
+      console.log('GET /api/quote-forms - Matching quotes:', result.total);
+      const defaultValidityDays = await getDefaultValidityDays();
+      res.json({ ...result, items: result.items.map(item => withValidity(item, defaultValidityDays)) });
+    } catch (error) {
+      console.error('Error fetching quote forms:', error);
+      res.status(500).json({ error: 'Failed to fetch quotes' });
+    }
+  });
+
+  // Check quote lines that may not be saved yet against the discount and margin limits
+  // (body: { currency, bomGroups?, bomItems?, costItems }). Registered before /:id.
+  app.post("/api/quote-forms/discount-check", async (req, res) => {
+    try {
+      const parsedQuote = quoteDiscountCheckRequestSchema.safeParse(req.body);
+      if (!parsedQuote.success) {
+        return res.status(400).json({ error: parsedQuote.error.errors.map(issue => issue.message).join(', ') });
+      }
+      res.json(await checkDiscount(parsedQuote.data));
+    } catch (error) {
+      console.error('Error checking quote discount:', error);
+      res.status(500).json({ error: 'Failed to check discount' });
+    }
+  });
+
+  // Quotes waiting for discount approval, oldest request first. Registered before /:id.
+  app.get("/api/quote-forms/approvals", requirePermission('quotes.approve'), async (req, res) => {
+    try {
+      const quotes = await storage.getQuoteFormsAwaitingApproval();
+      const queue: QuoteApprovalQueueItem[] = quotes.map(quote => ({
+        id: quote.id,
+        quoteNumber: quote.quoteNumber,
+        quoteSubject: quote.quoteSubject,
+        customerCompany: quote.customerCompany,
+        salesPersonName: quote.salesPersonName,
+        currency: quote.currency,
+        ownerId: quote.ownerId,
+        lastModified: quote.lastModified,
+        grandTotal: calculateQuoteTotals(quote).grandTotal,
+        approval: quote.approval!,
+      }));
+      res.json(queue);
+    } catch (error) {
+      console.error('Error fetching approval queue:', error);
+      res.status(500).json({ error: 'Failed to fetch approval queue' });
+    }
+  });
+
+  // Full-text search across quote contents (?q=C9300-48P&limit=50). Registered before /:id.
+  app.get("/api/quote-forms/search", async (req, res) => {
+    try {
+      const query = typeof req.query.q === 'string' ? req.query.q : '';
+      const terms = parseSearchTerms(query);
+      if (terms.length === 0) {
+        return res.status(400).json({ error: 'Query parameter "q" is required' });
+      }
+
+      const limit = Math.min(Math.max(parseInt(String(req.query.limit ?? 50), 10) || 50, 1), 200);
+      const candidates = (await storage.findQuoteFormsForSearch(terms)).filter(quote => canAccessQuote(req, quote));
+      const results = searchQuotes(candidates, terms);
+      console.log(`GET /api/quote-forms/search - "${query}" matched ${results.length} quote(s)`);
+      res.json({ query, total: results.length, results: results.slice(0, limit) });
+    } catch (error) {
+      console.error('Error searching quote forms:', error);
+      res.status(500).json({ error: 'Failed to search quotes' });
+    }
+  });
+
+  // Prices charged for a part across stored quotes (?partNumber=C9300-48P-E&excludeQuoteId=...). Registered before /:id.
+  app.get("/api/quote-forms/price-history", async (req, res) => {
+    try {
+      const partNumber = typeof req.query.partNumber === 'string' ? req.query.partNumber.trim() : '';
+      if (!partNumber) {
+        return res.status(400).json({ error: 'Query parameter "partNumber" is required' });
+      }
+      const excludeQuoteId = typeof req.query.excludeQuoteId === 'string' ? req.query.excludeQuoteId : undefined;
+
+      const candidates = await storage.findQuoteFormsForSearch([partNumber.toLowerCase()]);
+      const visibleQuotes = candidates.filter(quote => quote.id !== excludeQuoteId && canAccessQuote(req, quote));
+      const history = getPartPriceHistory(visibleQuotes, partNumber);
+      console.log(`GET /api/quote-forms/price-history - ${partNumber} found on ${history.lines.length} line(s)`);
+      res.json(history);
+    } catch (error) {
+      console.error('Error fetching price history:', error);
+      res.status(500).json({ error: 'Failed to fetch price history' });
+    }
+  });
+
+  // List quotes in the trash (newest deletion first). Registered before /:id so "trash" is not taken as an id.
+  app.get("/api/quote-forms/trash", async (req, res) => {
+    try {
+      await purgeExpiredTrash();
+      const quotes = await storage.getTrashedQuoteForms();
+      res.json(quotes.filter(quote => canAccessQuote(req, quote)));
+    } catch (error) {
+      console.error('Error fetching trashed quote forms:', error);
+      res.status(500).json({ error: 'Failed to fetch trash' });
+    }
+  });
+
+  // Get a specific quote form by ID
+  app.get("/api/quote-forms/:id", async (req, res) => {
+    try {
+      const { id } = req.params;
+      const quote = await storage.getQuoteForm(id);
+      
+      if (!quote) {
+        return res.status(404).json({ error: 'Quote not found' });
+      }
+      
+      res.set('ETag', revisionETag(quote.revision));
+      res.json(withValidity(quote, await getDefaultValidityDays()));
+    } catch (error) {
+      console.error('Error fetching quote form:', error);
+      res.status(500).json({ error: 'Failed to fetch quote' });
+    }
+  });
+
+  // Update a quote form
+  app.put("/api/quote-forms/:id", requirePermission('quotes.edit'), async (req, res) => {
+    try {
+      const { id } = req.params;
+      console.log(`PUT /api/quote-forms/${id} - Request body:`, JSON.stringify(req.body, null, 2));
+      const validatedData = insertQuoteFormDataSchema.parse(req.body);
+      const existingQuote = await storage.getQuoteForm(id);
+
+      // Trashed quotes must be restored before they can be edited
+      if (!existingQuote || existingQuote.deletedAt) {
+        return res.status(404).json({ error: 'Quote not found' });
+      }
+
+      // Keep the number the quote already has; quotes saved before numbering get one now
+      const quoteNumber = existingQuote.quoteNumber || await assignQuoteNumber();
+      const updatedQuote = await storage.updateQuoteForm(
+        id,
+        { ...validatedData, quoteNumber },
+        getActor(req),
+        getExpectedRevision(req),
+      );
+      
+      if (!updatedQuote) {
+        return res.status(404).json({ error: 'Quote not found' });
+      }
+
+      await recordAudit(getActor(req), {
+        action: 'update',
+        entityType: 'quote',
+        entityId: id,
+        entityLabel: quoteAuditLabel(updatedQuote),
+        quoteId: id,
+        changes: diffFieldPaths(existingQuote, updatedQuote),
+      });
+      const savedQuote = await refreshQuoteApproval(updatedQuote, getActor(req));
+      res.set('ETag', revisionETag(savedQuote.revision));
+      res.json(withValidity(savedQuote, await getDefaultValidityDays()));
+    } catch (error) {
+      if (error instanceof QuoteConflictError) {
+        // Stale revision: hand back the server copy so the client can resolve the conflict
+        res.set('ETag', revisionETag(error.current.revision));
+        return res.status(409).json({ error: 'Quote was modified by someone else', current: error.current });
+      }
+      console.error('Error updating quote form:', error);
+      res.status(400).json({ error: error instanceof Error ? error.message : 'Invalid request' });
+    }
+  });
+
+  // Delete a quote form (moves it to the trash)
+  app.delete("/api/quote-forms/:id", requirePermission('quotes.deleteOwn'), async (req, res) => {
+    try {
+      const { id } = req.params;
+      const quote = await storage.getQuoteForm(id);
+      if (quote && !canDeleteQuote(req, quote)) {
+        return res.status(403).json({ error: 'Only managers can delete quotes owned by someone else' });
+      }
+      const deleted = await storage.deleteQuoteForm(id);
+      
+      if (!deleted) {
+        return res.status(404).json({ error: 'Quote not found' });
+      }
+      
+      await recordAudit(getActor(req), {
+        action: 'delete',
+        entityType: 'quote',
+        entityId: id,
+        entityLabel: quote ? quoteAuditLabel(quote) : '',
+        quoteId: id,
+      });
+      res.json({ success: true, message: 'Quote moved to trash' });
+    } catch (error) {
+      console.error('Error deleting quote form:', error);
+      res.status(500).json({ error: 'Failed to delete quote' });
+    }
+  });
+
+  // Restore a quote from the trash
+  app.post("/api/quote-forms/:id/restore", requirePermission('quotes.deleteOwn'), async (req, res) => {
+    try {
+      const { id } = req.params;
+      const quote = await storage.getQuoteForm(id);
+      if (quote && !canDeleteQuote(req, quote)) {
+        return res.status(403).json({ error: 'Only managers can restore quotes owned by someone else' });
+      }
+      const restoredQuote = await storage.restoreQuoteForm(id);
+
+      if (!restoredQuote) {
+        return res.status(404).json({ error: 'Quote not found in trash' });
+      }
+
+      await recordAudit(getActor(req), {
+        action: 'restore',
+        entityType: 'quote',
+        entityId: id,
+        entityLabel: quoteAuditLabel(restoredQuote),
+        quoteId: id,
+      });
+      res.json(withValidity(restoredQuote, await getDefaultValidityDays()));
+    } catch (error) {
+      console.error('Error restoring quote form:', error);
+      res.status(500).json({ error: 'Failed to restore quote' });
+    }
+  });
+
+  // Permanently delete a quote that is already in the trash
+  app.delete("/api/quote-forms/:id/purge", requirePermission('quotes.purge'), async (req, res) => {
+    try {
+      const { id } = req.params;
+      const quote = await storage.getQuoteForm(id);
+      const purged = await storage.purgeQuoteForm(id);
+
+      if (!purged) {
+        return res.status(404).json({ error: 'Quote not found in trash' });
+      }
+
+      await recordAudit(getActor(req), {
+        action: 'purge',
+        entityType: 'quote',
+        entityId: id,
+        entityLabel: quote ? quoteAuditLabel(quote) : '',
+        quoteId: id,
+      });
+
+      res.json({ success: true, message: 'Quote permanently deleted' });
+    } catch (error) {
+      console.error('Error purging quote form:', error);
+      res.status(500).json({ error: 'Failed to purge quote' });
+    }
+  });
+
+  // Change the lifecycle status of a quote (body: { status, reason? })
+  app.post("/api/quote-forms/:id/status", requirePermission('quotes.edit'), async (req, res) => {
+    try {
+      const { id } = req.params;
+      const parsedChange = quoteStatusChangeSchema.safeParse(req.body);
+      if (!parsedChange.success) {
+        return res.status(400).json({ error: parsedChange.error.errors.map(issue => issue.message).join(', ') });
+      }
+
+      const quote = await storage.getQuoteForm(id);
+      if (!quote || quote.deletedAt) {
+        return res.status(404).json({ error: 'Quote not found' });
+      }
+
+      const { status, reason } = parsedChange.data;
+      const currentStatus = quote.status || 'draft';
+      if (!canTransitionQuoteStatus(currentStatus, status)) {
+        return res.status(409).json({
+          error: `Cannot change status from ${QUOTE_STATUS_LABELS[currentStatus]} to ${QUOTE_STATUS_LABELS[status]}`,
+        });
+      }
+      if (status === 'sent' && isAwaitingApproval(quote.approval)) {
+        return res.status(409).json({ error: approvalBlockedMessage(quote, 'sent') });
+      }
+
+      const updatedQuote = await storage.changeQuoteStatus(id, {
+        status,
+        changedAt: new Date().toISOString(),
+        changedBy: getActor(req),
+        ...(reason ? { reason } : {}),
+      });
+      if (!updatedQuote) {
+        return res.status(404).json({ error: 'Quote not found' });
+      }
+
+      console.log(`POST /api/quote-forms/${id}/status - ${currentStatus} -> ${status}`);
+      await recordAudit(getActor(req), {
+        action: 'update',
+        entityType: 'quote',
+        entityId: id,
+        entityLabel: quoteAuditLabel(updatedQuote),
+        quoteId: id,
+        changes: diffFieldPaths(quote, updatedQuote),
+      });
+      res.json(withValidity(updatedQuote, await getDefaultValidityDays()));
+    } catch (error) {
+      console.error('Error changing quote status:', error);
+      res.status(500).json({ error: 'Failed to change quote status' });
+    }
+  });
+
+  // Hand a quote to another user (body: { ownerId })
+  app.put("/api/quote-forms/:id/owner", requirePermission('quotes.edit'), async (req, res) => {
+    try {
+      const { id } = req.params;
+      const parsedChange = quoteOwnerChangeSchema.safeParse(req.body);
+      if (!parsedChange.success) {
+        return res.status(400).json({ error: parsedChange.error.errors.map(issue => issue.message).join(', ') });
+      }
+
+      const quote = await storage.getQuoteForm(id);
+      if (!quote || quote.deletedAt) {
+        return res.status(404).json({ error: 'Quote not found' });
+      }
+      if (quote.ownerId !== req.user!.id && !userCan(req, 'quotes.reassign')) {
+        return res.status(403).json({ error: 'Only managers can reassign quotes owned by someone else' });
+      }
+      const newOwner = await storage.getUser(parsedChange.data.ownerId);
+      if (!newOwner) {
+        return res.status(400).json({ error: 'User not found' });
+      }
+
+      const updatedQuote = await storage.changeQuoteOwner(id, newOwner.id);
+      if (!updatedQuote) {
+        return res.status(404).json({ error: 'Quote not found' });
+      }
+
+      const previousOwner = quote.ownerId ? await storage.getUser(quote.ownerId) : undefined;
+      console.log(`PUT /api/quote-forms/${id}/owner - now owned by ${newOwner.username}`);
+      await recordAudit(getActor(req), {
+        action: 'update',
+        entityType: 'quote',
+        entityId: id,
+        entityLabel: quoteAuditLabel(updatedQuote),
+        quoteId: id,
+        changes: [{ path: 'owner', oldValue: previousOwner?.username ?? null, newValue: newOwner.username }],
+      });
+      res.json(withValidity(updatedQuote, await getDefaultValidityDays()));
+    } catch (error) {
+      console.error('Error reassigning quote:', error);
+      res.status(500).json({ error: 'Failed to reassign quote' });
+    }
+  });
+
+  // Approve or reject the discount on a quote waiting for approval (body: { decision, comment? })
+  app.post("/api/quote-forms/:id/approval", requirePermission('quotes.approve'), async (req, res) => {
+    try {
+      const { id } = req.params;
+      const parsedDecision = quoteApprovalDecisionSchema.safeParse(req.body);
+      if (!parsedDecision.success) {
+        return res.status(400).json({ error: parsedDecision.error.errors.map(issue => issue.message).join(', ') });
+      }
+
+      const quote = await storage.getQuoteForm(id);
+      if (!quote || quote.deletedAt) {
+        return res.status(404).json({ error: 'Quote not found' });
+      }
+      if (quote.approval?.status !== 'pending') {
+        return res.status(409).json({ error: 'This quote is not waiting for approval' });
+      }
+      // Approval needs a second person
+      if (quote.approval.requestedBy === getActor(req) || quote.ownerId === req.user!.id) {
+        return res.status(403).json({ error: 'The discount on your own quote must be decided by another manager' });
+      }
+
+      const { decision, comment } = parsedDecision.data;
+      const updatedQuote = await storage.setQuoteApproval(id, {
+        ...quote.approval,
+        status: decision,
+        decidedAt: new Date().toISOString(),
+        decidedBy: getActor(req),
+        ...(comment ? { comment } : {}),
+      });
+      if (!updatedQuote) {
+        return res.status(404).json({ error: 'Quote not found' });
+      }
+
+      console.log(`POST /api/quote-forms/${id}/approval - ${decision} by ${getActor(req)}`);
+      await recordAudit(getActor(req), {
+        action: 'update',
+        entityType: 'quote',
+        entityId: id,
+        entityLabel: quoteAuditLabel(updatedQuote),
+        quoteId: id,
+        changes: [
+          { path: 'approval', oldValue: 'pending', newValue: decision },
+          ...(comment ? [{ path: 'approval.comment', oldValue: null, newValue: comment }] : []),
+        ],
+      });
+      res.json(withValidity(updatedQuote, await getDefaultValidityDays()));
+    } catch (error) {
+      console.error('Error deciding quote approval:', error);
+      res.status(500).json({ error: 'Failed to record approval decision' });
+    }
+  });
+
+  // Clone a quote as a new version or as a copy for another customer (body: { mode, reprice?, customerId? })
+  app.post("/api/quote-forms/:id/clone", requirePermission('quotes.edit'), async (req, res) => {
+    try {
+      const { id } = req.params;
+      const parsedRequest = quoteCloneRequestSchema.safeParse(req.body);
+      if (!parsedRequest.success) {
+        return res.status(400).json({ error: parsedRequest.error.errors.map(issue => issue.message).join(', ') });
+      }
+
+      const source = await storage.getQuoteForm(id);
+      if (!source || source.deletedAt) {
+        return res.status(404).json({ error: 'Quote not found' });
+      }
+
+      const { mode, reprice, customerId } = parsedRequest.data;
+      if (customerId && mode !== 'customer') {
+        return res.status(400).json({ error: 'A customer can only be chosen when copying for a customer' });
+      }
+      const customer = customerId ? await storage.getCustomer(customerId) : undefined;
+      if (customerId && !customer) {
+        return res.status(400).json({ error: 'Customer not found' });
+      }
+
+      let clone = cloneQuoteForm(source, mode, new Date().toISOString().split('T')[0], customer);
+      let repriceSummary: QuoteRepriceSummary | undefined;
+      if (reprice) {
+        const catalogByPartNumber = new Map<string, CatalogItem>();
+        for (const partNumber of getQuotePartNumbers(clone)) {
+          const catalogItem = await storage.getCatalogItemByPartNumber(partNumber);
+          if (catalogItem) catalogByPartNumber.set(partNumber, catalogItem);
+        }
+        const repriced = repriceQuoteForm(clone, catalogByPartNumber);
+        clone = repriced.quote;
+        repriceSummary = repriced.summary;
+      }
+
+      const clonedQuote = await storage.saveQuoteForm(
+        { ...clone, quoteNumber: await assignQuoteNumber(), ...ownedBy(req) },
+        getActor(req),
+      );
+      console.log(`POST /api/quote-forms/${id}/clone - ${mode} saved as ${clonedQuote.id}`);
+      await recordAudit(getActor(req), {
+        action: 'create',
+        entityType: 'quote',
+        entityId: clonedQuote.id,
+        entityLabel: quoteAuditLabel(clonedQuote),
+        quoteId: clonedQuote.id,
+        changes: diffFieldPaths(undefined, clonedQuote),
+      });
+      const savedQuote = await refreshQuoteApproval(clonedQuote, getActor(req));
+      res.set('ETag', revisionETag(savedQuote.revision));
+      const result: QuoteCloneResult = {
+        quote: withValidity(savedQuote, await getDefaultValidityDays()),
+        ...(repriceSummary ? { reprice: repriceSummary } : {}),
+      };
+      res.json(result);
+    } catch (error) {
+      console.error('Error cloning quote form:', error);
+      res.status(500).json({ error: 'Failed to clone quote' });
+    }
+  });
+
+  // Record that the PDF of a quote was downloaded; the client generates the PDF itself (body: { fileName? })
+  app.post("/api/quote-forms/:id/downloads", async (req, res) => {
+    try {
+      const { id } = req.params;
+      const quote = await storage.getQuoteForm(id);
+      if (!quote || quote.deletedAt) {
+        return res.status(404).json({ error: 'Quote not found' });
+      }
+      if (isAwaitingApproval(quote.approval)) {
+        return res.status(409).json({ error: approvalBlockedMessage(quote, 'exported') });
+      }
+
+      const fileName = typeof req.body?.fileName === 'string' ? req.body.fileName : undefined;
+      await recordAudit(getActor(req), {
+        action: 'download',
+        entityType: 'quote',
+        entityId: id,
+        entityLabel: quoteAuditLabel(quote),
+        quoteId: id,
+        changes: fileName ? [{ path: 'fileName', oldValue: null, newValue: fileName }] : [],
+      });
+      res.json({ success: true });
+    } catch (error) {
+      console.error('Error recording quote download:', error);
+      res.status(500).json({ error: 'Failed to record download' });
+    }
+  });
+
+  // QUOTE REVISION ROUTES
+
+  // List revisions of a quote (newest first, without the snapshot payload)
+  app.get("/api/quote-forms/:id/revisions", async (req, res) => {
+    try {
+      const { id } = req.params;
+      const quote = await storage.getQuoteForm(id);
+
+      if (!quote) {
+        return res.status(404).json({ error: 'Quote not found' });
+      }
+
+      const revisions = await storage.getQuoteRevisions(id);
+      res.json(revisions.map(({ data, ...revision }) => ({
+        ...revision,
+        quoteSubject: data.quoteSubject,
+      })));
+    } catch (error) {
+      console.error('Error fetching quote revisions:', error);
+      res.status(500).json({ error: 'Failed to fetch revisions' });
+    }
+  });
+
+  // Structured diff between two revisions (?from=1&to=3, "to" defaults to the head)
+  app.get("/api/quote-forms/:id/revisions/diff", async (req, res) => {
+    try {
+      const { id } = req.params;
+      const from = Number(req.query.from);
+      if (!Number.isInteger(from)) {
+        return res.status(400).json({ error: 'Query parameter "from" must be a revision number' });
+      }
+
+      const fromRevision = await storage.getQuoteRevision(id, from);
+      const toRevision = req.query.to !== undefined
+        ? await storage.getQuoteRevision(id, Number(req.query.to))
+        : (await storage.getQuoteRevisions(id))[0];
+
+      if (!fromRevision || !toRevision) {
+        return res.status(404).json({ error: 'Revision not found' });
+      }
+
+      res.json({
+        from: fromRevision.revision,
+        to: toRevision.revision,
+        ...diffQuotes(fromRevision.data, toRevision.data),
+      });
+    } catch (error) {
+      console.error('Error diffing quote revisions:', error);
+      res.status(500).json({ error: 'Failed to diff revisions' });
+    }
+  });
+
+  // Get a single revision including its snapshot
+  app.get("/api/quote-forms/:id/revisions/:revision", async (req, res) => {
+    try {
+      const { id, revision } = req.params;
+      const quoteRevision = await storage.getQuoteRevision(id, Number(revision));
+
+      if (!quoteRevision) {
+        return res.status(404).json({ error: 'Revision not found' });
+      }
+
+      res.json(quoteRevision);
+    } catch (error) {
+      console.error('Error fetching quote revision:', error);
+      res.status(500).json({ error: 'Failed to fetch revision' });
+    }
+  });
+
+  // Restore an old revision by saving its snapshot as the new head revision
+  app.post("/api/quote-forms/:id/revisions/:revision/restore", requirePermission('quotes.edit'), async (req, res) => {
+    try {
+      const { id, revision } = req.params;
+      const quoteRevision = await storage.getQuoteRevision(id, Number(revision));
+
+      if (!quoteRevision) {
+        return res.status(404).json({ error: 'Revision not found' });
+      }
+
+      const currentQuote = await storage.getQuoteForm(id);
+      if (!currentQuote || currentQuote.deletedAt) {
+        return res.status(404).json({ error: 'Quote not found' });
+      }
+
+      const restoredQuote = await storage.updateQuoteForm(
+        id,
+        { ...quoteRevision.data, quoteNumber: currentQuote.quoteNumber ?? quoteRevision.data.quoteNumber },
+        getActor(req),
+      );
+      if (!restoredQuote) {
+        return res.status(404).json({ error: 'Quote not found' });
+      }
+
+      console.log(`POST /api/quote-forms/${id}/revisions/${revision}/restore - New revision:`, restoredQuote.revision);
+      await recordAudit(getActor(req), {
+        action: 'update',
+        entityType: 'quote',
+        entityId: id,
+        entityLabel: quoteAuditLabel(restoredQuote),
+        quoteId: id,
+        changes: diffFieldPaths(currentQuote, restoredQuote),
+      });
+      res.json(withValidity(await refreshQuoteApproval(restoredQuote, getActor(req)), await getDefaultValidityDays()));
+    } catch (error) {
+      console.error('Error restoring quote revision:', error);
+      res.status(500).json({ error: 'Failed to restore revision' });
+    }
+  });
+
+  // QUOTE ATTACHMENT ROUTES
+
+  // List the attachments of a quote in PDF order, without the file content
+  app.get("/api/quote-forms/:id/attachments", async (req, res) => {
+    try {
+      const { id } = req.params;
+      const quote = await storage.getQuoteForm(id);
+      if (!quote) {
+        return res.status(404).json({ error: 'Quote not found' });
+      }
+
+      res.json(await storage.getQuoteAttachments(id));
+    } catch (error) {
+      console.error('Error fetching quote attachments:', error);
+      res.status(500).json({ error: 'Failed to fetch attachments' });
+    }
+  });
+
+  // Attach a datasheet or drawing to a quote (multipart: file, a PDF, PNG or JPEG)
+  app.post("/api/quote-forms/:id/attachments", requirePermission('quotes.edit'), async (req, res) => {
+    try {
+      const { id } = req.params;
+      const quote = await storage.getQuoteForm(id);
+      if (!quote || quote.deletedAt) {
+        return res.status(404).json({ error: 'Quote not found' });
+      }
+
+      try {
+        await receiveUpload(attachmentUpload.single('file'), req, res);
+      } catch (error) {
+        if (error instanceof multer.MulterError && error.code === 'LIMIT_FILE_SIZE') {
+          return res.status(400).json({ error: `Attachments can be at most ${QUOTE_ATTACHMENT_MAX_BYTES / (1024 * 1024)} MB` });
+        }
+        return res.status(400).json({ error: error instanceof Error ? error.message : 'Upload failed' });
+      }
+      if (!req.file) {
+        return res.status(400).json({ error: 'A file is required' });
+      }
+      const mimeType = detectAttachmentType(req.file.buffer);
+      if (!mimeType) {
+        return res.status(400).json({ error: 'Attachments must be PDF, PNG or JPEG files' });
+      }
+
+      const attachment = await storage.addQuoteAttachment({
+        quoteId: id,
+        // Multipart file names arrive as latin1
+        fileName: Buffer.from(req.file.originalname, 'latin1').toString('utf8'),
+        mimeType,
+        size: req.file.size,
+        content: `data:${mimeType};base64,${req.file.buffer.toString('base64')}`,
+      });
+      console.log(`POST /api/quote-forms/${id}/attachments - Added ${attachment.fileName} (${attachment.size} bytes)`);
+      await recordAudit(getActor(req), {
+        action: 'create',
+        entityType: 'attachment',
+        entityId: attachment.id,
+        entityLabel: attachment.fileName,
+        quoteId: id,
+        changes: diffFieldPaths(undefined, { fileName: attachment.fileName, mimeType, size: attachment.size }),
+      });
+      res.status(201).json(attachment);
+    } catch (error) {
+      console.error('Error adding quote attachment:', error);
+      res.status(500).json({ error: 'Failed to add attachment' });
+    }
+  });
+
+  // Set the PDF order and selection (body: { attachments: [{ id, appendToPdf }] } listing every attachment)
+  app.put("/api/quote-forms/:id/attachments", requirePermission('quotes.edit'), async (req, res) => {
+    try {
+      const { id } = req.params;
+      const parsedOrder = quoteAttachmentOrderSchema.safeParse(req.body);
+      if (!parsedOrder.success) {
+        return res.status(400).json({ error: parsedOrder.error.errors.map(issue => issue.message).join(', ') });
+      }
+
+      const quote = await storage.getQuoteForm(id);
+      if (!quote || quote.deletedAt) {
+        return res.status(404).json({ error: 'Quote not found' });
+      }
+
+      const order = parsedOrder.data.attachments;
+      const currentAttachments = await storage.getQuoteAttachments(id);
+      const currentIds = new Set(currentAttachments.map(attachment => attachment.id));
+      const orderedIds = new Set(order.map(entry => entry.id));
+      if (orderedIds.size !== order.length || orderedIds.size !== currentIds.size || order.some(entry => !currentIds.has(entry.id))) {
+        return res.status(400).json({ error: 'The order must list every attachment of the quote exactly once' });
+      }
+
+      const arranged = await storage.arrangeQuoteAttachments(id, order);
+      // Recorded on the quote as its PDF attachment list
+      const pdfAttachments = (attachments: typeof arranged) => attachments.map(({ fileName, appendToPdf }) => ({ fileName, appendToPdf }));
+      await recordAudit(getActor(req), {
+        action: 'update',
+        entityType: 'quote',
+        entityId: id,
+        entityLabel: quoteAuditLabel(quote),
+        quoteId: id,
+        changes: diffFieldPaths({ attachments: pdfAttachments(currentAttachments) }, { attachments: pdfAttachments(arranged) }),
+      });
+      res.json(arranged);
+    } catch (error) {
+      console.error('Error arranging quote attachments:', error);
+      res.status(500).json({ error: 'Failed to update attachments' });
+    }
+  });
+
+  // Download an attachment with its original type and file name
+  app.get("/api/quote-forms/:id/attachments/:attachmentId/file", async (req, res) => {
+    try {
+      const { id, attachmentId } = req.params;
+      const attachment = await storage.getQuoteAttachment(id, attachmentId);
+      if (!attachment) {
+        return res.status(404).json({ error: 'Attachment not found' });
+      }
+
+      const base64 = attachment.content.slice(attachment.content.indexOf(',') + 1);
+      res.setHeader('Content-Type', attachment.mimeType);
+      res.setHeader('Content-Disposition', `inline; filename*=UTF-8''${encodeURIComponent(attachment.fileName)}`);
+      res.send(Buffer.from(base64, 'base64'));
+    } catch (error) {
+      console.error('Error fetching quote attachment:', error);
+      res.status(500).json({ error: 'Failed to fetch attachment' });
+    }
+  });
+
+  // Remove an attachment from a quote
+  app.delete("/api/quote-forms/:id/attachments/:attachmentId", requirePermission('quotes.edit'), async (req, res) => {
+    try {
+      const { id, attachmentId } = req.params;
+      const attachment = await storage.getQuoteAttachment(id, attachmentId);
+      const deleted = await storage.deleteQuoteAttachment(id, attachmentId);
+      if (!deleted) {
+        return res.status(404).json({ error: 'Attachment not found' });
+      }
+
+      await recordAudit(getActor(req), {
+        action: 'delete',
+        entityType: 'attachment',
+        entityId: attachmentId,
+        entityLabel: attachment?.fileName ?? '',
+        quoteId: id,
+      });
+
+      res.json({ success: true, message: 'Attachment deleted successfully' });
+    } catch (error) {
+      console.error('Error deleting quote attachment:', error);
+      res.status(500).json({ error: 'Failed to delete attachment' });
+    }
+  });
+
+  // CUSTOMER ROUTES
+
+  // List customers sorted by name (?search matches name or VAT id)
+  app.get("/api/customers", async (req, res) => {
+    try {
+      const search = typeof req.query.search === 'string' ? req.query.search.trim() : '';
+      const customers = await storage.getCustomers(search || undefined);
+      res.json(customers);
+    } catch (error) {
+      console.error('Error fetching customers:', error);
+      res.status(500).json({ error: 'Failed to fetch customers' });
+    }
+  });
+
+  // Get a single customer
+  app.get("/api/customers/:id", async (req, res) => {
+    try {
+      const customer = await storage.getCustomer(req.params.id);
+      if (!customer) {
+        return res.status(404).json({ error: 'Customer not found' });
+      }
+      res.json(customer);
+    } catch (error) {
+      console.error('Error fetching customer:', error);
+      res.status(500).json({ error: 'Failed to fetch customer' });
+    }
+  });
+
+  // Create a customer
+  app.post("/api/customers", requirePermission('customers.edit'), async (req, res) => {
+    try {
+      const validatedData = insertCustomerSchema.parse(req.body);
+      const customer = await storage.createCustomer(validatedData);
+      await recordAudit(getActor(req), {
+        action: 'create',
+        entityType: 'customer',
+        entityId: customer.id,
+        entityLabel: customer.name,
+        changes: diffFieldPaths(undefined, customer),
+      });
+      console.log('POST /api/customers - Created customer:', customer.id);
+      res.json(customer);
+    } catch (error) {
+      console.error('Error creating customer:', error);
+      res.status(400).json({ error: error instanceof Error ? error.message : 'Invalid request' });
+    }
+  });
+
+  // Update a customer; quotes already made for it keep their own header copy
+  app.put("/api/customers/:id", requirePermission('customers.edit'), async (req, res) => {
+    try {
+      const validatedData = insertCustomerSchema.parse(req.body);
+      const previousCustomer = await storage.getCustomer(req.params.id);
+      const customer = await storage.updateCustomer(req.params.id, validatedData);
+      if (!customer) {
+        return res.status(404).json({ error: 'Customer not found' });
+      }
+      await recordAudit(getActor(req), {
+        action: 'update',
+        entityType: 'customer',
+        entityId: customer.id,
+        entityLabel: customer.name,
+        changes: diffFieldPaths(previousCustomer, customer),
+      });
+      res.json(customer);
+    } catch (error) {
+      console.error('Error updating customer:', error);
+      res.status(400).json({ error: error instanceof Error ? error.message : 'Invalid request' });
+    }
+  });
+
+  // Delete a customer; linked quotes keep their header text but lose the customer link
+  app.delete("/api/customers/:id", requirePermission('customers.edit'), async (req, res) => {
+    try {
+      const customer = await storage.getCustomer(req.params.id);
+      const deleted = await storage.deleteCustomer(req.params.id);
+      if (!deleted) {
+        return res.status(404).json({ error: 'Customer not found' });
+      }
+      await recordAudit(getActor(req), {
+        action: 'delete',
+        entityType: 'customer',
+        entityId: req.params.id,
+        entityLabel: customer?.name ?? '',
+      });
+      res.json({ success: true, message: 'Customer deleted successfully' });
+    } catch (error) {
+      console.error('Error deleting customer:', error);
+      res.status(500).json({ error: 'Failed to delete customer' });
+    }
+  });
+
+  // SALES TEAM ROUTES
+
+  // List the sales team sorted by name
+  app.get("/api/sales-people", async (req, res) => {
+    try {
+      const salesPeople = await storage.getSalesPeople();
+      res.json(salesPeople);
+    } catch (error) {
+      console.error('Error fetching sales people:', error);
+      res.status(500).json({ error: 'Failed to fetch sales people' });
+    }
+  });
+
+  // Get a single sales person
+  app.get("/api/sales-people/:id", async (req, res) => {
+    try {
+      const salesPerson = await storage.getSalesPerson(req.params.id);
+      if (!salesPerson) {
+        return res.status(404).json({ error: 'Sales person not found' });
+      }
+      res.json(salesPerson);
+    } catch (error) {
+      console.error('Error fetching sales person:', error);
+      res.status(500).json({ error: 'Failed to fetch sales person' });
+    }
+  });
+
+  // Add a sales person
+  app.post("/api/sales-people", requirePermission('salesTeam.edit'), async (req, res) => {
     try {
-      console.log('=== POST /api/quotes HANDLER CALLED ===');
-      console.log('POST /api/quotes - Method:', req.method);
-      console.log('POST /api/quotes - URL:', req.url);
-      console.log('POST /api/quotes - Request body:', JSON.stringify(req.body, null, 2));
-      
-      const validatedData = saveQuoteSchema.parse(req.body);
-      console.log('POST /api/quotes - Validated data:', JSON.stringify(validatedData, null, 2));
-      
-      const savedQuote = await storage.saveQuote(validatedData);
-      console.log('POST /api/quotes - Saved quote result type:', typeof savedQuote);
-      console.log('POST /api/quotes - Saved quote keys:', Object.keys(savedQuote));
-      console.log('POST /api/quotes - Saved quote:', JSON.stringify(savedQuote, null, 2));
-      
-      console.log('=== SENDING RESPONSE ===');
-      res.json(savedQuote);
+      const validatedData = insertSalesPersonSchema.parse(req.body);
+      const salesPerson = await storage.createSalesPerson(validatedData);
+      await recordAudit(getActor(req), {
+        action: 'create',
+        entityType: 'salesPerson',
+        entityId: salesPerson.id,
+        entityLabel: salesPerson.name,
+        changes: diffFieldPaths(undefined, salesPerson),
+      });
+      console.log('POST /api/sales-people - Created sales person:', salesPerson.id);
+      res.json(salesPerson);
     } catch (error) {
-      console.error('Error saving quote:', error);
+      console.error('Error creating sales person:', error);
       res.status(400).json({ error: error instanceof Error ? error.message : 'Invalid request' });
     }
   });
 
-  // Get all quotes (list view)
-  app.get("/api/quotes", async (req, res) => {
+  // Update a sales person; existing quotes keep the contact details they were saved with
+  app.put("/api/sales-people/:id", requirePermission('salesTeam.edit'), async (req, res) => {
     try {
-      console.log('=== GET /api/quotes HANDLER CALLED ===');
-      console.log('GET /api/quotes - Method:', req.method);
-      console.log('GET /api/quotes - URL:', req.url);
-      
-      const quotes = await storage.getAllQuotes();
-      console.log('GET /api/quotes - Number of quotes:', quotes.length);
-      res.json(quotes);
+      const validatedData = insertSalesPersonSchema.parse(req.body);
+      const previousSalesPerson = await storage.getSalesPerson(req.params.id);
+      const salesPerson = await storage.updateSalesPerson(req.params.id, validatedData);
+      if (!salesPerson) {
+        return res.status(404).json({ error: 'Sales person not found' });
+      }
+      await recordAudit(getActor(req), {
+        action: 'update',
+        entityType: 'salesPerson',
+        entityId: salesPerson.id,
+        entityLabel: salesPerson.name,
+        changes: diffFieldPaths(previousSalesPerson, salesPerson),
+      });
+      res.json(salesPerson);
     } catch (error) {
-      console.error('Error fetching quotes:', error);
-      res.status(500).json({ error: 'Failed to fetch quotes' });
+      console.error('Error updating sales person:', error);
+      res.status(400).json({ error: error instanceof Error ? error.message : 'Invalid request' });
     }
   });
 
-  // Get a specific quote by ID
-  app.get("/api/quotes/:id", async (req, res) => {
+  // Remove a sales person from the team
+  app.delete("/api/sales-people/:id", requirePermission('salesTeam.edit'), async (req, res) => {
     try {
-      const { id } = req.params;
-      const quote = await storage.getQuote(id);
-      
-      if (!quote) {
-        return res.status(404).json({ error: 'Quote not found' });
+      const salesPerson = await storage.getSalesPerson(req.params.id);
+      const deleted = await storage.deleteSalesPerson(req.params.id);
+      if (!deleted) {
+        return res.status(404).json({ error: 'Sales person not found' });
       }
-      
-      res.json(quote);
+      await recordAudit(getActor(req), {
+        action: 'delete',
+        entityType: 'salesPerson',
+        entityId: req.params.id,
+        entityLabel: salesPerson?.name ?? '',
+      });
+      res.json({ success: true, message: 'Sales person deleted successfully' });
     } catch (error) {
-      console.error('Error fetching quote:', error);
-      res.status(500).json({ error: 'Failed to fetch quote' });
+      console.error('Error deleting sales person:', error);
+      res.status(500).json({ error: 'Failed to delete sales person' });
     }
   });
 
-  // Update a quote
-  app.put("/api/quotes/:id", async (req, res) => {
+  // PRODUCT CATALOG ROUTES
+
+  // List catalog items (?search matches part number, description or manufacturer)
+  app.get("/api/catalog", async (req, res) => {
     try {
-      const { id } = req.params;
-      console.log(`PUT /api/quotes/${id} - Request body:`, JSON.stringify(req.body, null, 2));
-      const validatedData = saveQuoteSchema.parse(req.body);
-      console.log(`PUT /api/quotes/${id} - Validated data:`, JSON.stringify(validatedData, null, 2));
-      const updatedQuote = await storage.updateQuote(id, validatedData);
-      console.log(`PUT /api/quotes/${id} - Updated quote:`, JSON.stringify(updatedQuote?.quote, null, 2));
-      
-      if (!updatedQuote) {
-        return res.status(404).json({ error: 'Quote not found' });
+      const search = typeof req.query.search === 'string' ? req.query.search.trim() : '';
+      const items = await storage.getCatalogItems(search || undefined);
+      res.json(items);
+    } catch (error) {
+      console.error('Error fetching catalog:', error);
+      res.status(500).json({ error: 'Failed to fetch catalog' });
+    }
+  });
+
+  // Part-number suggestions for BOM rows (?q=C9300&limit=10). Registered before /:id.
+  app.get("/api/catalog/search", async (req, res) => {
+    try {
+      const query = typeof req.query.q === 'string' ? req.query.q.trim() : '';
+      if (!query) {
+        return res.json([]);
       }
-      
-      res.json(updatedQuote);
+      const limit = Math.min(Math.max(parseInt(String(req.query.limit ?? 10), 10) || 10, 1), 50);
+      res.json(await storage.getCatalogItems(query, limit));
     } catch (error) {
-      console.error('Error updating quote:', error);
+      console.error('Error searching catalog:', error);
+      res.status(500).json({ error: 'Failed to search catalog' });
+    }
+  });
+
+  // Saved price-list column mappings, one per vendor
+  app.get("/api/catalog/import-mappings", async (req, res) => {
+    try {
+      res.json(await storage.getCatalogImportMappings());
+    } catch (error) {
+      console.error('Error fetching catalog import mappings:', error);
+      res.status(500).json({ error: 'Failed to fetch import mappings' });
+    }
+  });
+
+  // Import a mapped vendor price list, upserting by part number.
+  // Dry run (the default) only reports what would be added, updated or left unchanged;
+  // a committed import also saves the vendor's column mapping for next time.
+  app.post("/api/catalog/import", requirePermission('catalog.edit'), async (req, res) => {
+    const parsedRequest = catalogImportRequestSchema.safeParse(req.body);
+    if (!parsedRequest.success) {
+      return res.status(400).json({ error: parsedRequest.error.errors.map(issue => issue.message).join(', ') });
+    }
+
+    try {
+      const { mapping, rows, dryRun } = parsedRequest.data;
+      const plan = planCatalogImport(await storage.getCatalogItems(), rows, mapping.defaultCurrency);
+      const countRows = (action: string) => plan.rows.filter(row => row.action === action).length;
+
+      if (!dryRun) {
+        await storage.upsertCatalogItems(plan.upserts);
+        await storage.saveCatalogImportMapping(mapping);
+        // A summary rather than every changed field: price lists can have tens of thousands of rows
+        const changedParts = plan.upserts.map(upsert => upsert.partNumber);
+        await recordAudit(getActor(req), {
+          action: 'import',
+          entityType: 'catalog',
+          entityLabel: mapping.vendor,
+          changes: [
+            { path: 'added', oldValue: null, newValue: countRows('added') },
+            { path: 'updated', oldValue: null, newValue: countRows('updated') },
+            { path: 'partNumbers', oldValue: null, newValue: changedParts.slice(0, CATALOG_IMPORT_AUDIT_PART_LIMIT) },
+            ...(changedParts.length > CATALOG_IMPORT_AUDIT_PART_LIMIT
+              ? [{ path: 'partNumbersOmitted', oldValue: null, newValue: changedParts.length - CATALOG_IMPORT_AUDIT_PART_LIMIT }]
+              : []),
+          ],
+        });
+      }
+
+      const result: CatalogImportResult = {
+        dryRun,
+        vendor: mapping.vendor,
+        added: countRows('added'),
+        updated: countRows('updated'),
+        unchanged: countRows('unchanged'),
+        skipped: countRows('skipped'),
+        rows: plan.rows,
+      };
+      console.log(`POST /api/catalog/import - ${dryRun ? 'Dry run' : 'Imported'} ${mapping.vendor}:`, result.added, 'added,', result.updated, 'updated,', result.unchanged, 'unchanged');
+      res.json(result);
+    } catch (error) {
+      console.error('Error importing price list:', error);
+      res.status(500).json({ error: 'Failed to import price list' });
+    }
+  });
+
+  // Get a single catalog item
+  app.get("/api/catalog/:id", async (req, res) => {
+    try {
+      const item = await storage.getCatalogItem(req.params.id);
+      if (!item) {
+        return res.status(404).json({ error: 'Catalog item not found' });
+      }
+      res.json(item);
+    } catch (error) {
+      console.error('Error fetching catalog item:', error);
+      res.status(500).json({ error: 'Failed to fetch catalog item' });
+    }
+  });
+
+  // Add a part to the catalog; part numbers are unique
+  app.post("/api/catalog", requirePermission('catalog.edit'), async (req, res) => {
+    try {
+      const validatedData = insertCatalogItemSchema.parse(req.body);
+      if (await storage.getCatalogItemByPartNumber(validatedData.partNumber)) {
+        return res.status(409).json({ error: `Part number ${validatedData.partNumber} is already in the catalog` });
+      }
+      const item = await storage.createCatalogItem(validatedData);
+      await recordAudit(getActor(req), {
+        action: 'create',
+        entityType: 'catalogItem',
+        entityId: item.id,
+        entityLabel: item.partNumber,
+        changes: diffFieldPaths(undefined, item),
+      });
+      console.log('POST /api/catalog - Created catalog item:', item.partNumber);
+      res.json(item);
+    } catch (error) {
+      console.error('Error creating catalog item:', error);
       res.status(400).json({ error: error instanceof Error ? error.message : 'Invalid request' });
     }
   });
 
-  // Delete a quote
-  app.delete("/api/quotes/:id", async (req, res) => {
+  // Update a catalog item
+  app.put("/api/catalog/:id", requirePermission('catalog.edit'), async (req, res) => {
     try {
-      const { id } = req.params;
-      const deleted = await storage.deleteQuote(id);
-      
+      const validatedData = insertCatalogItemSchema.parse(req.body);
+      const samePartNumber = await storage.getCatalogItemByPartNumber(validatedData.partNumber);
+      if (samePartNumber && samePartNumber.id !== req.params.id) {
+        return res.status(409).json({ error: `Part number ${validatedData.partNumber} is already in the catalog` });
+      }
+      const previousCatalogItem = await storage.getCatalogItem(req.params.id);
+      const item = await storage.updateCatalogItem(req.params.id, validatedData);
+      if (!item) {
+        return res.status(404).json({ error: 'Catalog item not found' });
+      }
+      await recordAudit(getActor(req), {
+        action: 'update',
+        entityType: 'catalogItem',
+        entityId: item.id,
+        entityLabel: item.partNumber,
+        changes: diffFieldPaths(previousCatalogItem, item),
+      });
+      res.json(item);
+    } catch (error) {
+      console.error('Error updating catalog item:', error);
+      res.status(400).json({ error: error instanceof Error ? error.message : 'Invalid request' });
+    }
+  });
+
+  // Remove a part from the catalog; quotes keep their BOM lines
+  app.delete("/api/catalog/:id", requirePermission('catalog.edit'), async (req, res) => {
+    try {
+      const item = await storage.getCatalogItem(req.params.id);
+      const deleted = await storage.deleteCatalogItem(req.params.id);
       if (!deleted) {
-        return res.status(404).json({ error: 'Quote not found' });
+        return res.status(404).json({ error: 'Catalog item not found' });
       }
-      
-      res.json({ success: true, message: 'Quote deleted successfully' });
+      await recordAudit(getActor(req), {
+        action: 'delete',
+        entityType: 'catalogItem',
+        entityId: req.params.id,
+        entityLabel: item?.partNumber ?? '',
+      });
+      res.json({ success: true, message: 'Catalog item deleted successfully' });
     } catch (error) {
-      console.error('Error deleting quote:', error);
-      res.status(500).json({ error: 'Failed to delete quote' });
+      console.error('Error deleting catalog item:', error);
+      res.status(500).json({ error: 'Failed to delete catalog item' });
     }
   });
 
-  // NEW QUOTE FORM ROUTES (using QuoteFormData structure)
-  
-  // Save a new quote form
-  app.post("/api/quote-forms", async (req, res) => {
+  // BOM KIT ROUTES
+
+  // List the kit library sorted by name (?search matches name, description or tags)
+  app.get("/api/bom-kits", async (req, res) => {
     try {
-      console.log('POST /api/quote-forms - Request body:', JSON.stringify(req.body, null, 2));
-      const validatedData = insertQuoteFormDataSchema.parse(req.body);
-      const savedQuote = await storage.saveQuoteForm(validatedData);
-      console.log('POST /api/quote-forms - Saved quote:', savedQuote.id);
-      res.json(savedQuote);
+      const search = typeof req.query.search === 'string' ? req.query.search.trim() : '';
+      const kits = await storage.getBomKits(search || undefined);
+      res.json(kits);
     } catch (error) {
-      console.error('Error saving quote form:', error);
+      console.error('Error fetching BOM kits:', error);
+      res.status(500).json({ error: 'Failed to fetch BOM kits' });
+    }
+  });
+
+  // Get a single kit
+  app.get("/api/bom-kits/:id", async (req, res) => {
+    try {
+      const kit = await storage.getBomKit(req.params.id);
+      if (!kit) {
+        return res.status(404).json({ error: 'BOM kit not found' });
+      }
+      res.json(kit);
+    } catch (error) {
+      console.error('Error fetching BOM kit:', error);
+      res.status(500).json({ error: 'Failed to fetch BOM kit' });
+    }
+  });
+
+  // Save a BOM group as a new kit
+  app.post("/api/bom-kits", requirePermission('kits.edit'), async (req, res) => {
+    try {
+      const validatedData = insertBomKitSchema.parse(req.body);
+      const kit = await storage.createBomKit(validatedData);
+      await recordAudit(getActor(req), {
+        action: 'create',
+        entityType: 'bomKit',
+        entityId: kit.id,
+        entityLabel: kit.name,
+        changes: diffFieldPaths(undefined, kit),
+      });
+      console.log('POST /api/bom-kits - Created kit:', kit.id);
+      res.json(kit);
+    } catch (error) {
+      console.error('Error creating BOM kit:', error);
       res.status(400).json({ error: error instanceof Error ? error.message : 'Invalid request' });
     }
   });
 
-  // Get all quote forms (list view)
-  app.get("/api/quote-forms", async (req, res) => {
+  // Update a kit; quotes it was inserted into keep their own lines
+  app.put("/api/bom-kits/:id", requirePermission('kits.edit'), async (req, res) => {
     try {
-      const quotes = await storage.getAllQuoteForms();
-      console.log('GET /api/quote-forms - Number of quotes:', quotes.length);
-      res.json(quotes);
+      const validatedData = insertBomKitSchema.parse(req.body);
+      const previousBomKit = await storage.getBomKit(req.params.id);
+      const kit = await storage.updateBomKit(req.params.id, validatedData);
+      if (!kit) {
+        return res.status(404).json({ error: 'BOM kit not found' });
+      }
+      await recordAudit(getActor(req), {
+        action: 'update',
+        entityType: 'bomKit',
+        entityId: kit.id,
+        entityLabel: kit.name,
+        changes: diffFieldPaths(previousBomKit, kit),
+      });
+      res.json(kit);
     } catch (error) {
-      console.error('Error fetching quote forms:', error);
-      res.status(500).json({ error: 'Failed to fetch quotes' });
+      console.error('Error updating BOM kit:', error);
+      res.status(400).json({ error: error instanceof Error ? error.message : 'Invalid request' });
     }
   });
 
-  // Get a specific quote form by ID
-  app.get("/api/quote-forms/:id", async (req, res) => {
+  // Delete a kit from the library
+  app.delete("/api/bom-kits/:id", requirePermission('kits.edit'), async (req, res) => {
     try {
-      const { id } = req.params;
-      const quote = await storage.getQuoteForm(id);
-      
-      if (!quote) {
-        return res.status(404).json({ error: 'Quote not found' });
+      const kit = await storage.getBomKit(req.params.id);
+      const deleted = await storage.deleteBomKit(req.params.id);
+      if (!deleted) {
+        return res.status(404).json({ error: 'BOM kit not found' });
       }
-      
-      res.json(quote);
+      await recordAudit(getActor(req), {
+        action: 'delete',
+        entityType: 'bomKit',
+        entityId: req.params.id,
+        entityLabel: kit?.name ?? '',
+      });
+      res.json({ success: true, message: 'BOM kit deleted successfully' });
     } catch (error) {
-      console.error('Error fetching quote form:', error);
-      res.status(500).json({ error: 'Failed to fetch quote' });
+      console.error('Error deleting BOM kit:', error);
+      res.status(500).json({ error: 'Failed to delete BOM kit' });
     }
   });
 
-  // Update a quote form
-  app.put("/api/quote-forms/:id", async (req, res) => {
+  // AUDIT ROUTES
+
+  // Audit events, newest first
+  // (?page, pageSize, entityType, entityId, quoteId, action, actor, path, dateFrom, dateTo)
+  app.get("/api/audit", async (req, res) => {
+    const parsedQuery = auditQuerySchema.safeParse(req.query);
+    if (!parsedQuery.success) {
+      return res.status(400).json({ error: parsedQuery.error.errors.map(issue => issue.message).join(', ') });
+    }
+    // Everyone sees the activity of the quotes they can open; the log as a whole is for managers
+    const { quoteId } = parsedQuery.data;
+    if (!quoteId && !userCan(req, 'audit.view')) {
+      return res.status(403).json({ error: 'Your role does not allow this action' });
+    }
+
     try {
-      const { id } = req.params;
-      console.log(`PUT /api/quote-forms/${id} - Request body:`, JSON.stringify(req.body, null, 2));
-      const validatedData = insertQuoteFormDataSchema.parse(req.body);
-      const updatedQuote = await storage.updateQuoteForm(id, validatedData);
-      
-      if (!updatedQuote) {
-        return res.status(404).json({ error: 'Quote not found' });
+      if (quoteId) {
+        // The history of a purged quote can no longer be checked against its owner
+        const quote = await storage.getQuoteForm(quoteId);
+        if (!quote && !userCan(req, 'audit.view')) {
+          return res.status(404).json({ error: 'Quote not found' });
+        }
+        if (quote && !canAccessQuote(req, quote)) {
+          return res.status(403).json({ error: 'This quote belongs to another user' });
+        }
       }
-      
-      res.json(updatedQuote);
+      res.json(await storage.listAuditEvents(parsedQuery.data));
     } catch (error) {
-      console.error('Error updating quote form:', error);
-      res.status(400).json({ error: error instanceof Error ? error.message : 'Invalid request' });
+      console.error('Error fetching audit events:', error);
+      res.status(500).json({ error: 'Failed to fetch audit events' });
     }
   });
 
-  // Delete a quote form
-  app.delete("/api/quote-forms/:id", async (req, res) => {
+  // USER ROUTES
+
+  // List user accounts (never with their password hashes); everyone needs it to show and pick quote owners
+  app.get("/api/users", async (req, res) => {
     try {
-      const { id } = req.params;
-      const deleted = await storage.deleteQuoteForm(id);
-      
+      const users = await storage.getUsers();
+      res.json(users.map(toPublicUser));
+    } catch (error) {
+      console.error('Error fetching users:', error);
+      res.status(500).json({ error: 'Failed to fetch users' });
+    }
+  });
+
+  // Add a user account with a role (body: { username, password, role })
+  app.post("/api/users", requirePermission('users.manage'), async (req, res) => {
+    try {
+      const validation = createUserSchema.safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({ error: validation.error.errors.map(i => i.message).join(', ') });
+      }
+      if (await storage.getUserByUsername(validation.data.username)) {
+        return res.status(409).json({ error: `User "${validation.data.username}" already exists` });
+      }
+
+      const user = toPublicUser(await storage.createUser({
+        ...validation.data,
+        password: await hashPassword(validation.data.password),
+      }));
+      await recordAudit(getActor(req), {
+        action: 'create',
+        entityType: 'user',
+        entityId: user.id,
+        entityLabel: user.username,
+        changes: diffFieldPaths(undefined, user),
+      });
+      console.log('POST /api/users - Created user:', user.username);
+      res.status(201).json(user);
+    } catch (error) {
+      console.error('Error creating user:', error);
+      res.status(500).json({ error: 'Failed to create user' });
+    }
+  });
+
+  // Change a user's role or set a new password (body: { role?, password? })
+  app.put("/api/users/:id", requirePermission('users.manage'), async (req, res) => {
+    try {
+      const validation = updateUserSchema.safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({ error: validation.error.errors.map(i => i.message).join(', ') });
+      }
+      const { role, password } = validation.data;
+
+      const previousUser = await storage.getUser(req.params.id);
+      if (!previousUser) {
+        return res.status(404).json({ error: 'User not found' });
+      }
+      if (role && role !== 'admin' && previousUser.role === 'admin' && await isLastAdmin(previousUser.id)) {
+        return res.status(409).json({ error: 'The last admin cannot be given another role' });
+      }
+
+      const updatedUser = await storage.updateUser(req.params.id, {
+        ...(role ? { role } : {}),
+        ...(password ? { password: await hashPassword(password) } : {}),
+      });
+      if (!updatedUser) {
+        return res.status(404).json({ error: 'User not found' });
+      }
+
+      const user = toPublicUser(updatedUser);
+      await recordAudit(getActor(req), {
+        action: 'update',
+        entityType: 'user',
+        entityId: user.id,
+        entityLabel: user.username,
+        changes: [
+          ...diffFieldPaths(toPublicUser(previousUser), user),
+          // The hash itself is not recorded, only that the password was reset
+          ...(password ? [{ path: 'password', oldValue: null, newValue: '[changed]' }] : []),
+        ],
+      });
+      res.json(user);
+    } catch (error) {
+      console.error('Error updating user:', error);
+      res.status(500).json({ error: 'Failed to update user' });
+    }
+  });
+
+  // Delete a user account; their quotes and history stay as they are
+  app.delete("/api/users/:id", requirePermission('users.manage'), async (req, res) => {
+    try {
+      const user = await storage.getUser(req.params.id);
+      if (!user) {
+        return res.status(404).json({ error: 'User not found' });
+      }
+      if (user.id === req.user!.id) {
+        return res.status(409).json({ error: 'You cannot delete your own account' });
+      }
+      if (user.role === 'admin' && await isLastAdmin(user.id)) {
+        return res.status(409).json({ error: 'The last admin cannot be deleted' });
+      }
+
+      await storage.deleteUser(user.id);
+      await recordAudit(getActor(req), {
+        action: 'delete',
+        entityType: 'user',
+        entityId: user.id,
+        entityLabel: user.username,
+      });
+      res.json({ success: true, message: 'User deleted successfully' });
+    } catch (error) {
+      console.error('Error deleting user:', error);
+      res.status(500).json({ error: 'Failed to delete user' });
+    }
+  });
+
+  // API TOKEN ROUTES - each user manages their own tokens; tokens cannot be used to reach these routes
+
+  // List the current user's API tokens (never with the token or its hash)
+  app.get("/api/api-tokens", async (req, res) => {
+    try {
+      res.json(await storage.getApiTokens(req.user!.id));
+    } catch (error) {
+      console.error('Error fetching API tokens:', error);
+      res.status(500).json({ error: 'Failed to fetch API tokens' });
+    }
+  });
+
+  // Create an API token (body: { name, scopes }); the response is the only time the token is shown
+  app.post("/api/api-tokens", async (req, res) => {
+    try {
+      const validation = createApiTokenSchema.safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({ error: validation.error.errors.map(i => i.message).join(', ') });
+      }
+
+      const { token, tokenHash, tokenPrefix } = generateApiToken();
+      const created = await storage.createApiToken({
+        userId: req.user!.id,
+        name: validation.data.name,
+        scopes: Array.from(new Set(validation.data.scopes)),
+        tokenHash,
+        tokenPrefix,
+      });
+      console.log('POST /api/api-tokens - Created token', created.tokenPrefix, 'for', req.user!.username);
+      const response: CreatedApiToken = { ...created, token };
+      res.status(201).json(response);
+    } catch (error) {
+      console.error('Error creating API token:', error);
+      res.status(500).json({ error: 'Failed to create API token' });
+    }
+  });
+
+  // Revoke one of the current user's API tokens
+  app.delete("/api/api-tokens/:id", async (req, res) => {
+    try {
+      const deleted = await storage.deleteApiToken(req.user!.id, req.params.id);
       if (!deleted) {
-        return res.status(404).json({ error: 'Quote not found' });
+        return res.status(404).json({ error: 'API token not found' });
       }
-      
-      res.json({ success: true, message: 'Quote deleted successfully' });
+      res.json({ success: true, message: 'API token revoked successfully' });
     } catch (error) {
-      console.error('Error deleting quote form:', error);
-      res.status(500).json({ error: 'Failed to delete quote' });
+      console.error('Error revoking API token:', error);
+      res.status(500).json({ error: 'Failed to revoke API token' });
+    }
+  });
+
+  // ADMIN ROUTES
+
+  // Download a backup archive of all quotes, settings, directories and uploaded images
+  app.get("/api/admin/export", requirePermission('backup.manage'), async (req, res) => {
+    try {
+      const archive = createBackupArchive(await storage.exportBackupData());
+      const fileName = `moonquote-backup-${archive.manifest.exportedAt.split('T')[0]}.json.gz`;
+      console.log('GET /api/admin/export - Exported', JSON.stringify(archive.manifest.counts), `${archive.manifest.assetCount} asset(s)`);
+      res.setHeader('Content-Type', 'application/gzip');
+      res.setHeader('Content-Disposition', `attachment; filename="${fileName}"`);
+      res.send(encodeBackupArchive(archive));
+    } catch (error) {
+      console.error('Error exporting backup:', error);
+      res.status(500).json({ error: 'Failed to export backup' });
+    }
+  });
+
+  // Import a backup archive (multipart: archive file, mode=merge|replace, dryRun=true|false)
+  app.post("/api/admin/import", requirePermission('backup.manage'), async (req, res) => {
+    try {
+      try {
+        await receiveUpload(backupUpload.single('archive'), req, res);
+      } catch (error) {
+        return res.status(400).json({ error: error instanceof Error ? error.message : 'Upload failed' });
+      }
+      if (!req.file) {
+        return res.status(400).json({ error: 'An archive file is required' });
+      }
+      const parsedOptions = backupImportOptionsSchema.safeParse(req.body);
+      if (!parsedOptions.success) {
+        return res.status(400).json({ error: parsedOptions.error.errors.map(issue => issue.message).join(', ') });
+      }
+
+      const { mode, dryRun } = parsedOptions.data;
+      const archive = decodeBackupArchive(req.file.buffer);
+      const plan = planBackupImport(await storage.exportBackupData(), archive.data, mode);
+      if (!dryRun) {
+        await storage.restoreBackupData(plan.data);
+        await recordAudit(getActor(req), {
+          action: 'import',
+          entityType: 'backup',
+          entityLabel: `${mode === 'merge' ? 'Merged' : 'Replaced with'} backup of ${archive.manifest.exportedAt}`,
+        });
+      }
+
+      const result: BackupImportResult = { ...plan.result, dryRun, manifest: archive.manifest };
+      console.log(`POST /api/admin/import - ${dryRun ? 'Dry run' : 'Imported'} (${mode}):`, JSON.stringify(result.sections));
+      res.json(result);
+    } catch (error) {
+      if (error instanceof BackupArchiveError) {
+        return res.status(400).json({ error: error.message });
+      }
+      console.error('Error importing backup:', error);
+      res.status(500).json({ error: 'Failed to import backup' });
     }
   });
 
@@ -216,11 +1876,18 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Update template settings
-  app.put("/api/settings", async (req, res) => {
+  app.put("/api/settings", requirePermission('settings.edit'), async (req, res) => {
     try {
       console.log('PUT /api/settings - Request body:', JSON.stringify(req.body, null, 2));
       const validatedData = insertTemplateSettingsSchema.parse(req.body);
+      const previousSettings = await storage.getSettings();
       const updatedSettings = await storage.updateSettings(validatedData);
+      await recordAudit(getActor(req), {
+        action: 'update',
+        entityType: 'settings',
+        entityLabel: 'Template settings',
+        changes: diffFieldPaths(previousSettings, updatedSettings),
+      });
       res.json(updatedSettings);
     } catch (error) {
       console.error('Error updating settings:', error);
@@ -229,17 +1896,33 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // PDF download endpoint
+  // Render a saved quote as a PDF on the server (body: { quoteId }); quotes waiting for discount approval are refused
   app.post("/api/download-pdf", async (req, res) => {
     try {
-      const { quoteData } = req.body;
-      
-      if (!quoteData) {
-        return res.status(400).json({ error: 'Quote data is required' });
+      const quoteId = typeof req.body?.quoteId === 'string' ? req.body.quoteId : '';
+      if (!quoteId) {
+        return res.status(400).json({ error: 'Quote id is required' });
+      }
+
+      const quote = await storage.getQuoteForm(quoteId);
+      if (!quote || quote.deletedAt) {
+        return res.status(404).json({ error: 'Quote not found' });
+      }
+      if (!canAccessQuote(req, quote)) {
+        return res.status(403).json({ error: 'This quote belongs to another user' });
+      }
+      if (isAwaitingApproval(quote.approval)) {
+        return res.status(409).json({ error: approvalBlockedMessage(quote, 'exported') });
       }
+      const quoteData = pdfDataFromQuote(quote);
 
       // Generate PDF using React PDF with file-based images (secure)
-      const QuotePDFDocument = generateQuotePDF(quoteData);
-      const pdfBuffer = await renderToBuffer(QuotePDFDocument);
+      const QuotePDFDocument = generateQuotePDF(quoteData, await getDefaultValidityDays());
+      // Attachments selected for the PDF follow the IP & Contact page, in their saved order
+      const attachmentInfos = (await storage.getQuoteAttachments(quote.id!)).filter(attachment => attachment.appendToPdf);
+      const attachments = (await Promise.all(attachmentInfos.map(info => storage.getQuoteAttachment(quote.id!, info.id))))
+        .filter((attachment): attachment is QuoteAttachment => attachment !== undefined);
+      const pdfBuffer = await appendAttachmentsToPdf(await renderToBuffer(QuotePDFDocument), attachments);
       
       // Set response headers for PDF download with sanitized filename
       const sanitizedSubject = (quoteData.quote?.subject || 'untitled')
@@ -248,7 +1931,19 @@ export async function registerRoutes(app: Express): Promise<Server> {
         .trim() || 'untitled';
       const sanitizedDate = (quoteData.date || new Date().toISOString().split('T')[0])
         .replace(/[^0-9-]/g, '');
-      const filename = `quote-${sanitizedSubject}-${sanitizedDate}.pdf`;
+      const sanitizedNumber = (quoteData.quote?.quoteNumber || '')
+        .replace(/[^A-Za-z0-9_-]+/g, '');
+      const filename = sanitizedNumber
+        ? `quote-${sanitizedNumber}-${sanitizedSubject}-${sanitizedDate}.pdf`
+        : `quote-${sanitizedSubject}-${sanitizedDate}.pdf`;
+      await recordAudit(getActor(req), {
+        action: 'download',
+        entityType: 'quote',
+        entityId: quote.id,
+        entityLabel: quoteAuditLabel(quote),
+        quoteId: quote.id,
+        changes: [{ path: 'fileName', oldValue: null, newValue: filename }],
+      });
       res.setHeader('Content-Type', 'application/pdf');
       res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
       res.setHeader('Content-Length', pdfBuffer.length);
@@ -269,8 +1964,37 @@ export async function registerRoutes(app: Express): Promise<Server> {
   return httpServer;
 }
 
+// The stored quote in the shape generateQuotePDF reads
+function pdfDataFromQuote(quote: QuoteFormData) {
+  return {
+    quote: {
+      subject: quote.quoteSubject,
+      quoteNumber: quote.quoteNumber,
+      salesPerson: quote.salesPersonName,
+      currency: quote.currency,
+      paymentTerms: quote.paymentTerms,
+      validityDays: quote.validityDays,
+      validUntilDate: quote.validUntilDate,
+    },
+    bomItems: getQuoteBomLines(quote),
+    costItems: quote.costItems,
+    columnVisibility: quote.columnVisibility,
+    bomEnabled: quote.bomEnabled,
+    costsEnabled: quote.costsEnabled,
+    date: quote.date,
+    version: quote.version,
+    contact: {
+      salesPerson: quote.contactInfo.salesPersonName,
+      role: quote.contactInfo.role,
+      phone: quote.contactInfo.phone,
+      email: quote.contactInfo.email,
+      signature: quote.contactInfo.signature,
+    },
+  };
+}
+
 // Helper function to generate React PDF document
-function generateQuotePDF(quoteData: any): React.ReactElement<DocumentProps> {
+function generateQuotePDF(quoteData: any, defaultValidityDays: number = DEFAULT_VALIDITY_DAYS): React.ReactElement<DocumentProps> {
   const { quote, bomItems = [], costItems = [], columnVisibility = {}, bomEnabled = true, costsEnabled = true, date, version, contact = {} } = quoteData;
   
   // Load images from filesystem as buffers (secure approach)
@@ -367,6 +2091,12 @@ function generateQuotePDF(quoteData: any): React.ReactElement<DocumentProps> {
       lineHeight: 1.2,
       textAlign: 'center'
     },
+    coverQuoteNumber: {
+      fontSize: 14,
+      color: '#374151',
+      marginTop: 8,
+      textAlign: 'center'
+    },
     coverBottomContainer: {
       position: 'absolute',
       bottom: 64,
@@ -483,6 +2213,12 @@ function generateQuotePDF(quoteData: any): React.ReactElement<DocumentProps> {
       fontSize: 12,
       color: '#374151'
     },
+    salesSignature: {
+      marginTop: 16,
+      height: 48,
+      width: 160,
+      objectFit: 'contain'
+    },
     grandTotal: {
       fontSize: 16,
       fontWeight: 'bold',
@@ -506,13 +2242,16 @@ function generateQuotePDF(quoteData: any): React.ReactElement<DocumentProps> {
       // Cover content
       React.createElement(View, { style: styles.coverContent },
         React.createElement(Text, { style: styles.coverTitle }, 'Quotation For'),
-        React.createElement(Text, { style: styles.coverSubtitle }, quote?.subject || 'Cisco Catalyst Switch')
+        React.createElement(Text, { style: styles.coverSubtitle }, quote?.subject || 'Cisco Catalyst Switch'),
+        ...(quote?.quoteNumber ? [
+          React.createElement(Text, { style: styles.coverQuoteNumber }, `Quote No. ${quote.quoteNumber}`)
+        ] : [])
       ),
       
       // Bottom info
       React.createElement(View, { style: styles.coverBottomContainer },
         React.createElement(Text, { style: styles.coverBottomText },
-          `${quote?.salesPerson || 'David Gilboa'} | ${formatDate(date)} | Ver ${version || '1'}`
+          [quote?.salesPerson || contact.salesPerson, formatDate(date), `Ver ${version || '1'}`].filter(Boolean).join(' | ')
         )
       ),
       
@@ -637,7 +2376,11 @@ function generateQuotePDF(quoteData: any): React.ReactElement<DocumentProps> {
           React.createElement(Text, { style: styles.paymentListItem }, '1. Prices are not including VAT'),
           React.createElement(Text, { style: styles.paymentListItem }, '2. Installation is not included unless specifically stated in the quote.'),
           React.createElement(Text, { style: styles.paymentListItem }, '3. Payment in NIS will be at the dollar exchange rate represented on the day of the invoice issuance.'),
-          React.createElement(Text, { style: styles.paymentListItem }, '4. Our offer is valid for a period of 14 days.'),
+          React.createElement(Text, { style: styles.paymentListItem }, `4. ${formatValidityClause({
+            date: date || new Date().toISOString().split('T')[0],
+            validityDays: quote?.validityDays,
+            validUntilDate: quote?.validUntilDate,
+          }, defaultValidityDays)}`),
           React.createElement(Text, { style: styles.paymentListItem }, '5. The total price is for the purchase of the entire proposal'),
           React.createElement(Text, { style: styles.paymentListItem }, `6. Payment Terms - ${quote?.paymentTerms || 'Current +30'}`),
           React.createElement(Text, { style: styles.paymentListItem }, '7. Any delay in payment will result in the customer being charged an exceptional shekel-based interest or conversion to dollars according to the calculation that will produce the highest result.'),
@@ -693,13 +2436,17 @@ function generateQuotePDF(quoteData: any): React.ReactElement<DocumentProps> {
             ),
             React.createElement(View, { style: styles.tableRow },
               React.createElement(Text, { style: [styles.tableCell, { width: '25%' }] },
-                contact.salesPerson || quote?.salesPerson || 'David Gilboa'
+                contact.salesPerson || quote?.salesPerson || ''
               ),
-              React.createElement(Text, { style: [styles.tableCell, { width: '25%' }] }, 'Account Manager'),
+              React.createElement(Text, { style: [styles.tableCell, { width: '25%' }] }, contact.role || ''),
               React.createElement(Text, { style: [styles.tableCell, { width: '25%' }] }, contact.phone || ''),
               React.createElement(Text, { style: [styles.tableCell, { width: '25%', borderRightWidth: 0 }] }, contact.email || '')
             )
-          )
+          ),
+          // Salesperson signature from the sales team directory, if one was uploaded
+          contact.signature && typeof contact.signature === 'string' && contact.signature.startsWith('data:image/')
+            ? React.createElement(Image, { src: contact.signature, style: styles.salesSignature })
+            : null
         )
       ),
       
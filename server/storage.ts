@@ -1,26 +1,125 @@
-import { users, quotes, bomItems, costItems, type User, type InsertUser, type Quote, type InsertQuote, type BomItem, type InsertBomItem, type CostItem, type InsertCostItem, type QuoteData, type QuoteFormData, type TemplateSettings, defaultTemplateSettings } from "@shared/schema";
+import { users, quotes, bomItems, costItems, quoteForms, quoteRevisions, appSettings, customers, salesPeople, catalogItems, catalogImportMappings, bomKits, quoteAttachments, auditEvents, apiTokens, type User, type InsertUser, type Quote, type InsertQuote, type BomItem, type InsertBomItem, type CostItem, type InsertCostItem, type QuoteData, type QuoteFormData, type TemplateSettings, type QuoteFormRow, type InsertQuoteFormRow, type QuoteRevision, type QuoteListQuery, type QuoteListPage, type QuoteFormSummary, type QuoteStatusChange, type Customer, type InsertCustomer, type SalesPerson, type InsertSalesPerson, type CatalogItem, type InsertCatalogItem, type CatalogImportMapping, type InsertCatalogImportMapping, type BomKit, type InsertBomKit, type QuoteAttachment, type QuoteAttachmentInfo, type InsertQuoteAttachment, type QuoteAttachmentOrder, type AuditEvent, type InsertAuditEvent, type AuditQuery, type AuditEventPage, type BackupData, type ApiToken, type PublicApiToken, type InsertApiToken, type QuoteApproval, defaultTemplateSettings } from "@shared/schema";
+import { calculateQuoteTotals, getQuoteBomLines } from "@shared/quoteTotals";
 import { db } from "./db";
-import { eq } from "drizzle-orm";
+import { eq, and, or, asc, desc, sql, isNull, isNotNull, lt, gte, lte, ilike, getTableColumns } from "drizzle-orm";
+import fs from "fs";
+import path from "path";
 
 
 // modify the interface with any CRUD methods
 // you might need
 
+// Thrown by updateQuoteForm when the caller's expected revision is no longer the head
+export class QuoteConflictError extends Error {
+  constructor(public readonly current: QuoteFormData) {
+    super(`Quote has been modified since revision was loaded (current revision ${current.revision})`);
+    this.name = "QuoteConflictError";
+  }
+}
+
 export interface IStorage {
   getUser(id: string): Promise<User | undefined>;
   getUserByUsername(username: string): Promise<User | undefined>;
   createUser(user: InsertUser): Promise<User>;
+  getUsers(): Promise<User[]>;
+  updateUser(id: string, updates: Partial<InsertUser>): Promise<User | undefined>;
+  deleteUser(id: string): Promise<boolean>;
+  // False until the first account has been set up
+  hasUsers(): Promise<boolean>;
+
+  // Personal API tokens (newest first); listings leave out the hash
+  getApiTokens(userId: string): Promise<PublicApiToken[]>;
+  getApiTokenByHash(tokenHash: string): Promise<ApiToken | undefined>;
+  createApiToken(token: InsertApiToken): Promise<PublicApiToken>;
+  markApiTokenUsed(id: string, usedAt: string): Promise<void>;
+  deleteApiToken(userId: string, id: string): Promise<boolean>; // Only removes the user's own tokens
   
   // Quote operations with new QuoteFormData structure
-  saveQuoteForm(quoteData: QuoteFormData): Promise<QuoteFormData>;
+  // Every save and update records an immutable revision attributed to the author
+  saveQuoteForm(quoteData: QuoteFormData, author?: string): Promise<QuoteFormData>; // Always a new quote with a fresh id
   getQuoteForm(id: string): Promise<QuoteFormData | undefined>;
-  getAllQuoteForms(): Promise<QuoteFormData[]>;
-  deleteQuoteForm(id: string): Promise<boolean>;
-  updateQuoteForm(id: string, quoteData: QuoteFormData): Promise<QuoteFormData | undefined>;
+  getAllQuoteForms(): Promise<QuoteFormData[]>; // Excludes quotes in the trash
+  listQuoteForms(query: QuoteListQuery): Promise<QuoteListPage>; // Filtered, sorted page of summaries (excludes trash)
+  // Quotes that may contain every search term (excludes trash); the caller works out the exact matches
+  findQuoteFormsForSearch(terms: string[]): Promise<QuoteFormData[]>;
+  deleteQuoteForm(id: string): Promise<boolean>; // Moves the quote to the trash
+  // Sets the status and appends the change to the status history (does not create a revision)
+  changeQuoteStatus(id: string, change: QuoteStatusChange): Promise<QuoteFormData | undefined>;
+  // Hand the quote to another user; like status changes, this does not create a revision
+  changeQuoteOwner(id: string, ownerId: string): Promise<QuoteFormData | undefined>;
+  // Record the discount approval state, or clear it when none is needed (does not create a revision)
+  setQuoteApproval(id: string, approval: QuoteApproval | undefined): Promise<QuoteFormData | undefined>;
+  getQuoteFormsAwaitingApproval(): Promise<QuoteFormData[]>; // Pending approvals, oldest request first (excludes trash)
+  // When expectedRevision is given and does not match the head, throws QuoteConflictError
+  updateQuoteForm(id: string, quoteData: QuoteFormData, author?: string, expectedRevision?: number): Promise<QuoteFormData | undefined>;
+
+  // Trash operations
+  getTrashedQuoteForms(): Promise<QuoteFormData[]>;
+  restoreQuoteForm(id: string): Promise<QuoteFormData | undefined>;
+  purgeQuoteForm(id: string): Promise<boolean>; // Permanently removes a trashed quote
+  purgeTrashedQuoteForms(deletedBefore: Date): Promise<number>;
+
+  // Quote numbering - returns the next value of a counter that never repeats
+  allocateQuoteSequence(): Promise<number>;
+
+  // Revision history (newest first)
+  getQuoteRevisions(quoteId: string): Promise<QuoteRevision[]>;
+  getQuoteRevision(quoteId: string, revision: number): Promise<QuoteRevision | undefined>;
+
+  // Quote attachments in PDF order; listings leave out the file content
+  getQuoteAttachments(quoteId: string): Promise<QuoteAttachmentInfo[]>;
+  getQuoteAttachment(quoteId: string, id: string): Promise<QuoteAttachment | undefined>;
+  addQuoteAttachment(attachment: InsertQuoteAttachment): Promise<QuoteAttachmentInfo>; // Added after the existing attachments
+  // Sets the order and PDF selection; the caller passes every attachment of the quote
+  arrangeQuoteAttachments(quoteId: string, order: QuoteAttachmentOrder["attachments"]): Promise<QuoteAttachmentInfo[]>;
+  deleteQuoteAttachment(quoteId: string, id: string): Promise<boolean>;
   
   // Settings operations
   getSettings(): Promise<TemplateSettings>;
   updateSettings(settings: TemplateSettings): Promise<TemplateSettings>;
+
+  // Customer directory (sorted by name; search matches name or VAT id)
+  getCustomers(search?: string): Promise<Customer[]>;
+  getCustomer(id: string): Promise<Customer | undefined>;
+  createCustomer(customer: InsertCustomer): Promise<Customer>;
+  updateCustomer(id: string, customer: InsertCustomer): Promise<Customer | undefined>;
+  deleteCustomer(id: string): Promise<boolean>; // Quotes keep their header text but lose the reference
+
+  // Sales team directory (sorted by name)
+  getSalesPeople(): Promise<SalesPerson[]>;
+  getSalesPerson(id: string): Promise<SalesPerson | undefined>;
+  createSalesPerson(salesPerson: InsertSalesPerson): Promise<SalesPerson>;
+  updateSalesPerson(id: string, salesPerson: InsertSalesPerson): Promise<SalesPerson | undefined>;
+  deleteSalesPerson(id: string): Promise<boolean>; // Quotes keep their copied contact details
+
+  // Product catalog. Search matches part number, description or manufacturer;
+  // part numbers starting with the search text come first, then by part number.
+  getCatalogItems(search?: string, limit?: number): Promise<CatalogItem[]>;
+  getCatalogItem(id: string): Promise<CatalogItem | undefined>;
+  getCatalogItemByPartNumber(partNumber: string): Promise<CatalogItem | undefined>;
+  createCatalogItem(item: InsertCatalogItem): Promise<CatalogItem>;
+  updateCatalogItem(id: string, item: InsertCatalogItem): Promise<CatalogItem | undefined>;
+  deleteCatalogItem(id: string): Promise<boolean>;
+  upsertCatalogItems(items: InsertCatalogItem[]): Promise<void>; // Insert or update by part number
+
+  // Saved price-list column mappings, one per vendor
+  getCatalogImportMappings(): Promise<CatalogImportMapping[]>;
+  saveCatalogImportMapping(mapping: InsertCatalogImportMapping): Promise<CatalogImportMapping>;
+
+  // BOM kit library (sorted by name; search matches name, description or tags)
+  getBomKits(search?: string): Promise<BomKit[]>;
+  getBomKit(id: string): Promise<BomKit | undefined>;
+  createBomKit(kit: InsertBomKit): Promise<BomKit>;
+  updateBomKit(id: string, kit: InsertBomKit): Promise<BomKit | undefined>;
+  deleteBomKit(id: string): Promise<boolean>; // Quotes keep the lines already inserted from the kit
+
+  // Audit log (append only; listed newest first)
+  addAuditEvent(event: InsertAuditEvent): Promise<AuditEvent>;
+  listAuditEvents(query: AuditQuery): Promise<AuditEventPage>;
+
+  // Backup and restore. Restoring replaces everything in the backup sections with the given data.
+  exportBackupData(): Promise<BackupData>;
+  restoreBackupData(data: BackupData): Promise<void>;
   
   // Legacy quote operations (keeping for compatibility)
   saveQuote(quoteData: {
@@ -38,35 +137,769 @@ export interface IStorage {
   }): Promise<QuoteData | undefined>;
 }
 
+const SETTINGS_ROW_ID = "default";
+
+// Map a quote_forms row back to the QuoteFormData shape used by the API
+function quoteFormFromRow(row: QuoteFormRow): QuoteFormData {
+  return {
+    id: row.id,
+    quoteNumber: row.quoteNumber ?? undefined,
+    quoteSubject: row.quoteSubject,
+    customerCompany: row.customerCompany,
+    customerLogo: row.customerLogo ?? undefined,
+    salesPersonName: row.salesPersonName,
+    date: row.date,
+    version: row.version,
+    paymentTerms: row.paymentTerms,
+    currency: row.currency,
+    customerId: row.customerId ?? undefined,
+    parentQuoteId: row.parentQuoteId ?? undefined,
+    validityDays: row.validityDays ?? undefined,
+    validUntilDate: row.validUntilDate ?? undefined,
+    bomEnabled: row.bomEnabled,
+    costsEnabled: row.costsEnabled,
+    columnVisibility: row.columnVisibility,
+    contactInfo: row.contactInfo,
+    bomGroups: row.bomGroups ?? undefined,
+    bomItems: row.bomItems ?? undefined,
+    costItems: row.costItems,
+    templateSettings: row.templateSettings ?? undefined,
+    lastModified: row.lastModified,
+    revision: row.revision,
+    deletedAt: row.deletedAt ?? undefined,
+    status: row.status,
+    statusHistory: row.statusHistory,
+    createdBy: row.createdBy ?? undefined,
+    ownerId: row.ownerId ?? undefined,
+    approval: row.approval ?? undefined,
+  };
+}
+
+// Status history of a newly created quote
+function initialStatusHistory(author: string, changedAt: string): QuoteStatusChange[] {
+  return [{ status: "draft", changedAt, changedBy: author }];
+}
+
+// Map QuoteFormData to the column values of a quote_forms row.
+// The id, revision, status, ownership, approval and trash state are managed by the storage layer and never taken from the payload.
+function quoteFormToRow(quoteData: QuoteFormData, lastModified: string): Omit<InsertQuoteFormRow, "id" | "revision" | "deletedAt" | "status" | "statusHistory" | "createdBy" | "ownerId" | "approval"> {
+  return {
+    quoteNumber: quoteData.quoteNumber ?? null,
+    quoteSubject: quoteData.quoteSubject,
+    customerCompany: quoteData.customerCompany || "",
+    customerLogo: typeof quoteData.customerLogo === "string" ? quoteData.customerLogo : null,
+    salesPersonName: quoteData.salesPersonName,
+    date: quoteData.date,
+    version: quoteData.version || "1",
+    paymentTerms: quoteData.paymentTerms || "Current +30",
+    currency: quoteData.currency || "USD",
+    customerId: quoteData.customerId ?? null,
+    parentQuoteId: quoteData.parentQuoteId ?? null,
+    validityDays: quoteData.validityDays ?? null,
+    validUntilDate: quoteData.validUntilDate ?? null,
+    bomEnabled: quoteData.bomEnabled,
+    costsEnabled: quoteData.costsEnabled,
+    columnVisibility: quoteData.columnVisibility,
+    contactInfo: quoteData.contactInfo,
+    bomGroups: quoteData.bomGroups ?? null,
+    bomItems: quoteData.bomItems ?? null,
+    costItems: quoteData.costItems,
+    templateSettings: quoteData.templateSettings ?? null,
+    lastModified,
+  };
+}
+
+type QuoteSummarySource = Omit<QuoteFormSummary, "itemCount" | "grandTotal"> &
+  Pick<QuoteFormData, "bomGroups" | "bomItems" | "costItems">;
+
+function toQuoteFormSummary({ bomGroups, bomItems, costItems, ...summary }: QuoteSummarySource): QuoteFormSummary {
+  const lines = { bomGroups, bomItems, costItems };
+  return {
+    ...summary,
+    itemCount: getQuoteBomLines(lines).length,
+    grandTotal: calculateQuoteTotals(lines).grandTotal,
+  };
+}
+
+// Escape LIKE wildcards so user input is matched literally
+function escapeLikePattern(value: string): string {
+  return value.replace(/[\\%_]/g, (char) => `\\${char}`);
+}
+
+function containsPattern(value: string): string {
+  return `%${escapeLikePattern(value)}%`;
+}
+
+function startsWithPattern(value: string): string {
+  return `${escapeLikePattern(value)}%`;
+}
+
+// quote_attachments columns without the file content, for listings
+const { content: _attachmentContent, ...quoteAttachmentInfoColumns } = getTableColumns(quoteAttachments);
+
+// api_tokens columns without the token hash, for listings
+const { tokenHash: _tokenHash, ...publicApiTokenColumns } = getTableColumns(apiTokens);
+
+// Split rows into batches so a single insert stays well below the Postgres bind parameter limit
+function inBatches<T>(rows: T[], batchSize: number): T[][] {
+  const batches: T[][] = [];
+  for (let start = 0; start < rows.length; start += batchSize) {
+    batches.push(rows.slice(start, start + batchSize));
+  }
+  return batches;
+}
+
 export class DatabaseStorage implements IStorage {
-  // Quote form operations (required by interface) - not implemented for database storage
-  async saveQuoteForm(quoteData: QuoteFormData): Promise<QuoteFormData> {
-    throw new Error("Database storage for QuoteFormData not implemented - use MemStorage");
+  // Quote form operations (new structure)
+  async saveQuoteForm(quoteData: QuoteFormData, author = "anonymous"): Promise<QuoteFormData> {
+    return await db.transaction(async (tx) => {
+      const now = new Date().toISOString();
+      const values = {
+        ...quoteFormToRow(quoteData, now),
+        revision: 1,
+        status: "draft" as const,
+        statusHistory: initialStatusHistory(author, now),
+        createdBy: quoteData.createdBy ?? null,
+        ownerId: quoteData.ownerId ?? null,
+      };
+      const [row] = await tx
+        .insert(quoteForms)
+        .values(values)
+        .returning();
+      const savedQuote = quoteFormFromRow(row);
+      await tx.insert(quoteRevisions).values({
+        quoteId: savedQuote.id!,
+        revision: row.revision,
+        author,
+        createdAt: row.lastModified,
+        data: savedQuote,
+      });
+      return savedQuote;
+    });
   }
-  
+
   async getQuoteForm(id: string): Promise<QuoteFormData | undefined> {
-    throw new Error("Database storage for QuoteFormData not implemented - use MemStorage");
+    const [row] = await db.select().from(quoteForms).where(eq(quoteForms.id, id));
+    return row ? quoteFormFromRow(row) : undefined;
   }
-  
+
   async getAllQuoteForms(): Promise<QuoteFormData[]> {
-    throw new Error("Database storage for QuoteFormData not implemented - use MemStorage");
+    const rows = await db
+      .select()
+      .from(quoteForms)
+      .where(isNull(quoteForms.deletedAt))
+      .orderBy(desc(quoteForms.lastModified));
+    return rows.map(quoteFormFromRow);
   }
-  
+
+  async listQuoteForms(query: QuoteListQuery): Promise<QuoteListPage> {
+    const conditions = [isNull(quoteForms.deletedAt)];
+    if (query.customer) conditions.push(ilike(quoteForms.customerCompany, containsPattern(query.customer)));
+    if (query.salesPerson) conditions.push(ilike(quoteForms.salesPersonName, containsPattern(query.salesPerson)));
+    if (query.currency) conditions.push(eq(quoteForms.currency, query.currency));
+    if (query.status) conditions.push(eq(quoteForms.status, query.status));
+    if (query.ownerId) {
+      // "mine" also lists quotes saved before ownership existed, which are open to everyone
+      const owned = eq(quoteForms.ownerId, query.ownerId);
+      conditions.push(query.scope === "mine" ? or(owned, isNull(quoteForms.ownerId))! : owned);
+    }
+    if (query.dateFrom) conditions.push(gte(quoteForms.date, query.dateFrom));
+    if (query.dateTo) conditions.push(lte(quoteForms.date, query.dateTo));
+    if (query.search) {
+      const pattern = containsPattern(query.search);
+      conditions.push(or(
+        ilike(quoteForms.quoteSubject, pattern),
+        ilike(quoteForms.customerCompany, pattern),
+        ilike(quoteForms.salesPersonName, pattern),
+        ilike(quoteForms.quoteNumber, pattern),
+      )!);
+    }
+    const where = and(...conditions);
+    const sortColumn = quoteForms[query.sort];
+
+    const [{ count }] = await db
+      .select({ count: sql<number>`count(*)::int` })
+      .from(quoteForms)
+      .where(where);
+
+    // Only the columns the summary needs; logos and template settings stay in the database
+    const rows = await db
+      .select({
+        id: quoteForms.id,
+        quoteNumber: quoteForms.quoteNumber,
+        quoteSubject: quoteForms.quoteSubject,
+        customerCompany: quoteForms.customerCompany,
+        salesPersonName: quoteForms.salesPersonName,
+        date: quoteForms.date,
+        version: quoteForms.version,
+        currency: quoteForms.currency,
+        lastModified: quoteForms.lastModified,
+        revision: quoteForms.revision,
+        status: quoteForms.status,
+        validityDays: quoteForms.validityDays,
+        validUntilDate: quoteForms.validUntilDate,
+        ownerId: quoteForms.ownerId,
+        bomGroups: quoteForms.bomGroups,
+        bomItems: quoteForms.bomItems,
+        costItems: quoteForms.costItems,
+      })
+      .from(quoteForms)
+      .where(where)
+      .orderBy(query.order === "asc" ? asc(sortColumn) : desc(sortColumn), asc(quoteForms.id))
+      .limit(query.pageSize)
+      .offset((query.page - 1) * query.pageSize);
+
+    return {
+      items: rows.map(row => toQuoteFormSummary({
+        ...row,
+        quoteNumber: row.quoteNumber ?? undefined,
+        validityDays: row.validityDays ?? undefined,
+        validUntilDate: row.validUntilDate ?? undefined,
+        ownerId: row.ownerId ?? undefined,
+        bomGroups: row.bomGroups ?? undefined,
+        bomItems: row.bomItems ?? undefined,
+      })),
+      total: count,
+      page: query.page,
+      pageSize: query.pageSize,
+    };
+  }
+
+  async findQuoteFormsForSearch(terms: string[]): Promise<QuoteFormData[]> {
+    // Narrow the candidates in SQL by matching each term against the text columns and the JSON of the lines
+    const termConditions = terms.map(term => {
+      const pattern = containsPattern(term);
+      return or(
+        ilike(quoteForms.quoteNumber, pattern),
+        ilike(quoteForms.quoteSubject, pattern),
+        ilike(quoteForms.customerCompany, pattern),
+        ilike(quoteForms.salesPersonName, pattern),
+        sql`${quoteForms.bomGroups}::text ilike ${pattern}`,
+        sql`${quoteForms.bomItems}::text ilike ${pattern}`,
+        sql`${quoteForms.costItems}::text ilike ${pattern}`,
+      )!;
+    });
+    const rows = await db
+      .select()
+      .from(quoteForms)
+      .where(and(isNull(quoteForms.deletedAt), ...termConditions));
+    return rows.map(quoteFormFromRow);
+  }
+
   async deleteQuoteForm(id: string): Promise<boolean> {
-    throw new Error("Database storage for QuoteFormData not implemented - use MemStorage");
+    const result = await db
+      .update(quoteForms)
+      .set({ deletedAt: new Date().toISOString() })
+      .where(and(eq(quoteForms.id, id), isNull(quoteForms.deletedAt)));
+    return (result.rowCount || 0) > 0;
   }
-  
-  async updateQuoteForm(id: string, quoteData: QuoteFormData): Promise<QuoteFormData | undefined> {
-    throw new Error("Database storage for QuoteFormData not implemented - use MemStorage");
+
+  async changeQuoteStatus(id: string, change: QuoteStatusChange): Promise<QuoteFormData | undefined> {
+    const [row] = await db
+      .update(quoteForms)
+      .set({
+        status: change.status,
+        statusHistory: sql`${quoteForms.statusHistory} || ${JSON.stringify([change])}::jsonb`,
+      })
+      .where(eq(quoteForms.id, id))
+      .returning();
+    return row ? quoteFormFromRow(row) : undefined;
   }
-  
+
+  async changeQuoteOwner(id: string, ownerId: string): Promise<QuoteFormData | undefined> {
+    const [row] = await db
+      .update(quoteForms)
+      .set({ ownerId })
+      .where(eq(quoteForms.id, id))
+      .returning();
+    return row ? quoteFormFromRow(row) : undefined;
+  }
+
+  async setQuoteApproval(id: string, approval: QuoteApproval | undefined): Promise<QuoteFormData | undefined> {
+    const [row] = await db
+      .update(quoteForms)
+      .set({ approval: approval ?? null })
+      .where(eq(quoteForms.id, id))
+      .returning();
+    return row ? quoteFormFromRow(row) : undefined;
+  }
+
+  async getQuoteFormsAwaitingApproval(): Promise<QuoteFormData[]> {
+    const rows = await db
+      .select()
+      .from(quoteForms)
+      .where(and(isNull(quoteForms.deletedAt), sql`${quoteForms.approval}->>'status' = 'pending'`))
+      .orderBy(sql`${quoteForms.approval}->>'requestedAt'`);
+    return rows.map(quoteFormFromRow);
+  }
+
+  async updateQuoteForm(id: string, quoteData: QuoteFormData, author = "anonymous", expectedRevision?: number): Promise<QuoteFormData | undefined> {
+    return await db.transaction(async (tx) => {
+      // Bump the revision in the same statement so concurrent updates get distinct numbers.
+      // The revision check is part of the WHERE clause, so a stale writer updates nothing.
+      const [row] = await tx
+        .update(quoteForms)
+        .set({
+          ...quoteFormToRow(quoteData, new Date().toISOString()),
+          revision: sql`${quoteForms.revision} + 1`,
+        })
+        .where(expectedRevision === undefined
+          ? eq(quoteForms.id, id)
+          : and(eq(quoteForms.id, id), eq(quoteForms.revision, expectedRevision)))
+        .returning();
+      if (!row) {
+        if (expectedRevision === undefined) return undefined;
+        const [current] = await tx.select().from(quoteForms).where(eq(quoteForms.id, id));
+        if (!current) return undefined;
+        throw new QuoteConflictError(quoteFormFromRow(current));
+      }
+
+      const updatedQuote = quoteFormFromRow(row);
+      await tx.insert(quoteRevisions).values({
+        quoteId: id,
+        revision: row.revision,
+        author,
+        createdAt: row.lastModified,
+        data: updatedQuote,
+      });
+      return updatedQuote;
+    });
+  }
+
+  // Trash operations
+  async getTrashedQuoteForms(): Promise<QuoteFormData[]> {
+    const rows = await db
+      .select()
+      .from(quoteForms)
+      .where(isNotNull(quoteForms.deletedAt))
+      .orderBy(desc(quoteForms.deletedAt));
+    return rows.map(quoteFormFromRow);
+  }
+
+  async restoreQuoteForm(id: string): Promise<QuoteFormData | undefined> {
+    const [row] = await db
+      .update(quoteForms)
+      .set({ deletedAt: null })
+      .where(and(eq(quoteForms.id, id), isNotNull(quoteForms.deletedAt)))
+      .returning();
+    return row ? quoteFormFromRow(row) : undefined;
+  }
+
+  async purgeQuoteForm(id: string): Promise<boolean> {
+    // Revisions are removed with the quote (ON DELETE CASCADE)
+    const result = await db
+      .delete(quoteForms)
+      .where(and(eq(quoteForms.id, id), isNotNull(quoteForms.deletedAt)));
+    return (result.rowCount || 0) > 0;
+  }
+
+  async purgeTrashedQuoteForms(deletedBefore: Date): Promise<number> {
+    const result = await db
+      .delete(quoteForms)
+      .where(lt(quoteForms.deletedAt, deletedBefore.toISOString()));
+    return result.rowCount || 0;
+  }
+
+  // Quote numbering
+  async allocateQuoteSequence(): Promise<number> {
+    const result = await db.execute<{ value: string }>(sql`select nextval('quote_number_seq') as value`);
+    return Number(result.rows[0].value);
+  }
+
+  // Revision history
+  async getQuoteRevisions(quoteId: string): Promise<QuoteRevision[]> {
+    return await db
+      .select()
+      .from(quoteRevisions)
+      .where(eq(quoteRevisions.quoteId, quoteId))
+      .orderBy(desc(quoteRevisions.revision));
+  }
+
+  async getQuoteRevision(quoteId: string, revision: number): Promise<QuoteRevision | undefined> {
+    const [row] = await db
+      .select()
+      .from(quoteRevisions)
+      .where(and(eq(quoteRevisions.quoteId, quoteId), eq(quoteRevisions.revision, revision)));
+    return row || undefined;
+  }
+
+  // Quote attachments
+  async getQuoteAttachments(quoteId: string): Promise<QuoteAttachmentInfo[]> {
+    return await db
+      .select(quoteAttachmentInfoColumns)
+      .from(quoteAttachments)
+      .where(eq(quoteAttachments.quoteId, quoteId))
+      .orderBy(asc(quoteAttachments.position));
+  }
+
+  async getQuoteAttachment(quoteId: string, id: string): Promise<QuoteAttachment | undefined> {
+    const [attachment] = await db
+      .select()
+      .from(quoteAttachments)
+      .where(and(eq(quoteAttachments.quoteId, quoteId), eq(quoteAttachments.id, id)));
+    return attachment || undefined;
+  }
+
+  async addQuoteAttachment(attachment: InsertQuoteAttachment): Promise<QuoteAttachmentInfo> {
+    const [created] = await db
+      .insert(quoteAttachments)
+      .values({
+        ...attachment,
+        position: sql`(select coalesce(max(${quoteAttachments.position}), 0) + 1 from ${quoteAttachments} where ${quoteAttachments.quoteId} = ${attachment.quoteId})`,
+        createdAt: new Date().toISOString(),
+      })
+      .returning(quoteAttachmentInfoColumns);
+    return created;
+  }
+
+  async arrangeQuoteAttachments(quoteId: string, order: QuoteAttachmentOrder["attachments"]): Promise<QuoteAttachmentInfo[]> {
+    await db.transaction(async (tx) => {
+      for (let index = 0; index < order.length; index++) {
+        const { id, appendToPdf } = order[index];
+        await tx
+          .update(quoteAttachments)
+          .set({ position: index + 1, appendToPdf })
+          .where(and(eq(quoteAttachments.quoteId, quoteId), eq(quoteAttachments.id, id)));
+      }
+    });
+    return await this.getQuoteAttachments(quoteId);
+  }
+
+  async deleteQuoteAttachment(quoteId: string, id: string): Promise<boolean> {
+    const result = await db
+      .delete(quoteAttachments)
+      .where(and(eq(quoteAttachments.quoteId, quoteId), eq(quoteAttachments.id, id)));
+    return (result.rowCount || 0) > 0;
+  }
+
+  // Settings operations
   async getSettings(): Promise<TemplateSettings> {
-    throw new Error("Database storage for settings not implemented - use MemStorage");
+    const [row] = await db.select().from(appSettings).where(eq(appSettings.id, SETTINGS_ROW_ID));
+    return row ? { ...defaultTemplateSettings, ...row.templateSettings } : { ...defaultTemplateSettings };
   }
-  
+
   async updateSettings(settings: TemplateSettings): Promise<TemplateSettings> {
-    throw new Error("Database storage for settings not implemented - use MemStorage");
+    const [row] = await db
+      .insert(appSettings)
+      .values({ id: SETTINGS_ROW_ID, templateSettings: settings })
+      .onConflictDoUpdate({ target: appSettings.id, set: { templateSettings: settings } })
+      .returning();
+    return { ...row.templateSettings };
+  }
+
+  // Customer directory
+  async getCustomers(search?: string): Promise<Customer[]> {
+    const pattern = search ? containsPattern(search) : undefined;
+    return await db
+      .select()
+      .from(customers)
+      .where(pattern ? or(ilike(customers.name, pattern), ilike(customers.vatId, pattern)) : undefined)
+      .orderBy(asc(customers.name));
+  }
+
+  async getCustomer(id: string): Promise<Customer | undefined> {
+    const [customer] = await db.select().from(customers).where(eq(customers.id, id));
+    return customer || undefined;
   }
+
+  async createCustomer(customer: InsertCustomer): Promise<Customer> {
+    const now = new Date().toISOString();
+    const [created] = await db
+      .insert(customers)
+      .values({ ...customer, createdAt: now, updatedAt: now })
+      .returning();
+    return created;
+  }
+
+  async updateCustomer(id: string, customer: InsertCustomer): Promise<Customer | undefined> {
+    const [updated] = await db
+      .update(customers)
+      .set({ ...customer, updatedAt: new Date().toISOString() })
+      .where(eq(customers.id, id))
+      .returning();
+    return updated || undefined;
+  }
+
+  async deleteCustomer(id: string): Promise<boolean> {
+    // quote_forms.customer_id is cleared by ON DELETE SET NULL
+    const result = await db.delete(customers).where(eq(customers.id, id));
+    return (result.rowCount || 0) > 0;
+  }
+
+  // Sales team directory
+  async getSalesPeople(): Promise<SalesPerson[]> {
+    return await db.select().from(salesPeople).orderBy(asc(salesPeople.name));
+  }
+
+  async getSalesPerson(id: string): Promise<SalesPerson | undefined> {
+    const [salesPerson] = await db.select().from(salesPeople).where(eq(salesPeople.id, id));
+    return salesPerson || undefined;
+  }
+
+  async createSalesPerson(salesPerson: InsertSalesPerson): Promise<SalesPerson> {
+    const now = new Date().toISOString();
+    const [created] = await db
+      .insert(salesPeople)
+      .values({ ...salesPerson, createdAt: now, updatedAt: now })
+      .returning();
+    return created;
+  }
+
+  async updateSalesPerson(id: string, salesPerson: InsertSalesPerson): Promise<SalesPerson | undefined> {
+    const [updated] = await db
+      .update(salesPeople)
+      .set({ ...salesPerson, updatedAt: new Date().toISOString() })
+      .where(eq(salesPeople.id, id))
+      .returning();
+    return updated || undefined;
+  }
+
+  async deleteSalesPerson(id: string): Promise<boolean> {
+    const result = await db.delete(salesPeople).where(eq(salesPeople.id, id));
+    return (result.rowCount || 0) > 0;
+  }
+
+  // Product catalog
+  async getCatalogItems(search?: string, limit?: number): Promise<CatalogItem[]> {
+    const pattern = search ? containsPattern(search) : undefined;
+    const query = db
+      .select()
+      .from(catalogItems)
+      .where(pattern ? or(
+        ilike(catalogItems.partNumber, pattern),
+        ilike(catalogItems.description, pattern),
+        ilike(catalogItems.manufacturer, pattern),
+      ) : undefined)
+      .orderBy(
+        search
+          ? sql`case when ${catalogItems.partNumber} ilike ${startsWithPattern(search)} then 0 else 1 end`
+          : asc(catalogItems.partNumber),
+        asc(catalogItems.partNumber),
+      );
+    return limit ? await query.limit(limit) : await query;
+  }
+
+  async getCatalogItem(id: string): Promise<CatalogItem | undefined> {
+    const [item] = await db.select().from(catalogItems).where(eq(catalogItems.id, id));
+    return item || undefined;
+  }
+
+  async getCatalogItemByPartNumber(partNumber: string): Promise<CatalogItem | undefined> {
+    const [item] = await db.select().from(catalogItems).where(eq(catalogItems.partNumber, partNumber));
+    return item || undefined;
+  }
+
+  async createCatalogItem(item: InsertCatalogItem): Promise<CatalogItem> {
+    const now = new Date().toISOString();
+    const [created] = await db
+      .insert(catalogItems)
+      .values({ ...item, createdAt: now, updatedAt: now })
+      .returning();
+    return created;
+  }
+
+  async updateCatalogItem(id: string, item: InsertCatalogItem): Promise<CatalogItem | undefined> {
+    const [updated] = await db
+      .update(catalogItems)
+      .set({ ...item, updatedAt: new Date().toISOString() })
+      .where(eq(catalogItems.id, id))
+      .returning();
+    return updated || undefined;
+  }
+
+  async deleteCatalogItem(id: string): Promise<boolean> {
+    const result = await db.delete(catalogItems).where(eq(catalogItems.id, id));
+    return (result.rowCount || 0) > 0;
+  }
+
+  async upsertCatalogItems(items: InsertCatalogItem[]): Promise<void> {
+    const now = new Date().toISOString();
+    for (const batch of inBatches(items, 1000)) {
+      await db
+        .insert(catalogItems)
+        .values(batch.map(item => ({ ...item, createdAt: now, updatedAt: now })))
+        .onConflictDoUpdate({
+          target: catalogItems.partNumber,
+          set: {
+            description: sql`excluded.description`,
+            manufacturer: sql`excluded.manufacturer`,
+            listPrice: sql`excluded.list_price`,
+            cost: sql`excluded.cost`,
+            currency: sql`excluded.currency`,
+            updatedAt: now,
+          },
+        });
+    }
+  }
+
+  async getCatalogImportMappings(): Promise<CatalogImportMapping[]> {
+    return await db.select().from(catalogImportMappings).orderBy(asc(catalogImportMappings.vendor));
+  }
+
+  async saveCatalogImportMapping(mapping: InsertCatalogImportMapping): Promise<CatalogImportMapping> {
+    const values = { ...mapping, updatedAt: new Date().toISOString() };
+    const [saved] = await db
+      .insert(catalogImportMappings)
+      .values(values)
+      .onConflictDoUpdate({ target: catalogImportMappings.vendor, set: values })
+      .returning();
+    return saved;
+  }
+
+  // BOM kit library
+  async getBomKits(search?: string): Promise<BomKit[]> {
+    const pattern = search ? containsPattern(search) : undefined;
+    return await db
+      .select()
+      .from(bomKits)
+      .where(pattern ? or(
+        ilike(bomKits.name, pattern),
+        ilike(bomKits.description, pattern),
+        sql`${bomKits.tags}::text ilike ${pattern}`,
+      ) : undefined)
+      .orderBy(asc(bomKits.name));
+  }
+
+  async getBomKit(id: string): Promise<BomKit | undefined> {
+    const [kit] = await db.select().from(bomKits).where(eq(bomKits.id, id));
+    return kit || undefined;
+  }
+
+  async createBomKit(kit: InsertBomKit): Promise<BomKit> {
+    const now = new Date().toISOString();
+    const [created] = await db
+      .insert(bomKits)
+      .values({ ...kit, createdAt: now, updatedAt: now })
+      .returning();
+    return created;
+  }
+
+  async updateBomKit(id: string, kit: InsertBomKit): Promise<BomKit | undefined> {
+    const [updated] = await db
+      .update(bomKits)
+      .set({ ...kit, updatedAt: new Date().toISOString() })
+      .where(eq(bomKits.id, id))
+      .returning();
+    return updated || undefined;
+  }
+
+  async deleteBomKit(id: string): Promise<boolean> {
+    const result = await db.delete(bomKits).where(eq(bomKits.id, id));
+    return (result.rowCount || 0) > 0;
+  }
+
+  // Audit log
+  async addAuditEvent(event: InsertAuditEvent): Promise<AuditEvent> {
+    const [created] = await db
+      .insert(auditEvents)
+      .values({ ...event, occurredAt: new Date().toISOString() })
+      .returning();
+    return created;
+  }
+
+  async listAuditEvents(query: AuditQuery): Promise<AuditEventPage> {
+    const conditions = [];
+    if (query.entityType) conditions.push(eq(auditEvents.entityType, query.entityType));
+    if (query.entityId) conditions.push(eq(auditEvents.entityId, query.entityId));
+    if (query.quoteId) conditions.push(eq(auditEvents.quoteId, query.quoteId));
+    if (query.action) conditions.push(eq(auditEvents.action, query.action));
+    if (query.actor) conditions.push(ilike(auditEvents.actor, containsPattern(query.actor)));
+    if (query.path) {
+      conditions.push(sql`exists (select 1 from jsonb_array_elements(${auditEvents.changes}) as change where change->>'path' ilike ${containsPattern(query.path)})`);
+    }
+    if (query.dateFrom) conditions.push(gte(auditEvents.occurredAt, query.dateFrom));
+    if (query.dateTo) conditions.push(lte(auditEvents.occurredAt, `${query.dateTo}T23:59:59.999Z`));
+    const where = conditions.length > 0 ? and(...conditions) : undefined;
+
+    const [{ count }] = await db
+      .select({ count: sql<number>`count(*)::int` })
+      .from(auditEvents)
+      .where(where);
+    const items = await db
+      .select()
+      .from(auditEvents)
+      .where(where)
+      .orderBy(desc(auditEvents.occurredAt), desc(auditEvents.id))
+      .limit(query.pageSize)
+      .offset((query.page - 1) * query.pageSize);
+
+    return { items, total: count, page: query.page, pageSize: query.pageSize };
+  }
+
+  // Backup and restore
+  async exportBackupData(): Promise<BackupData> {
+    const quoteRows = await db.select().from(quoteForms).orderBy(asc(quoteForms.lastModified));
+    const sequence = await db.execute<{ last_value: string; is_called: boolean }>(
+      sql`select last_value, is_called from quote_number_seq`,
+    );
+    return {
+      settings: await this.getSettings(),
+      quotes: quoteRows.map(quoteFormFromRow),
+      revisions: await db.select().from(quoteRevisions).orderBy(asc(quoteRevisions.quoteId), asc(quoteRevisions.revision)),
+      customers: await db.select().from(customers).orderBy(asc(customers.name)),
+      salesPeople: await db.select().from(salesPeople).orderBy(asc(salesPeople.name)),
+      catalogItems: await db.select().from(catalogItems).orderBy(asc(catalogItems.partNumber)),
+      catalogImportMappings: await this.getCatalogImportMappings(),
+      bomKits: await db.select().from(bomKits).orderBy(asc(bomKits.name)),
+      attachments: await db.select().from(quoteAttachments).orderBy(asc(quoteAttachments.quoteId), asc(quoteAttachments.position)),
+      quoteSequence: sequence.rows[0]?.is_called ? Number(sequence.rows[0].last_value) : 0,
+    };
+  }
+
+  async restoreBackupData(data: BackupData): Promise<void> {
+    await db.transaction(async (tx) => {
+      // Revisions and attachments go with their quotes (ON DELETE CASCADE)
+      await tx.delete(quoteForms);
+      await tx.delete(customers);
+      await tx.delete(salesPeople);
+      await tx.delete(catalogItems);
+      await tx.delete(catalogImportMappings);
+      await tx.delete(bomKits);
+
+      await tx
+        .insert(appSettings)
+        .values({ id: SETTINGS_ROW_ID, templateSettings: data.settings })
+        .onConflictDoUpdate({ target: appSettings.id, set: { templateSettings: data.settings } });
+
+      for (const batch of inBatches(data.customers, 500)) await tx.insert(customers).values(batch);
+      for (const batch of inBatches(data.salesPeople, 500)) await tx.insert(salesPeople).values(batch);
+      for (const batch of inBatches(data.catalogItems, 1000)) await tx.insert(catalogItems).values(batch);
+      for (const batch of inBatches(data.catalogImportMappings, 500)) await tx.insert(catalogImportMappings).values(batch);
+      for (const batch of inBatches(data.bomKits, 500)) await tx.insert(bomKits).values(batch);
+
+      // Users are not part of a backup; owners who have no account here are dropped
+      const userIds = new Set((await tx.select({ id: users.id }).from(users)).map(user => user.id));
+      const knownUserId = (id?: string) => (id && userIds.has(id) ? id : null);
+
+      // Parents may come later in the list, so version links are set once every quote exists
+      for (const batch of inBatches(data.quotes, 100)) {
+        await tx.insert(quoteForms).values(batch.map(quote => ({
+          ...quoteFormToRow(quote, quote.lastModified || new Date().toISOString()),
+          parentQuoteId: null,
+          id: quote.id!,
+          revision: quote.revision || 1,
+          status: quote.status || "draft",
+          statusHistory: quote.statusHistory || [],
+          createdBy: knownUserId(quote.createdBy),
+          ownerId: knownUserId(quote.ownerId),
+          approval: quote.approval ?? null,
+          deletedAt: quote.deletedAt ?? null,
+        })));
+      }
+      for (const quote of data.quotes.filter(quote => quote.parentQuoteId)) {
+        await tx.update(quoteForms).set({ parentQuoteId: quote.parentQuoteId }).where(eq(quoteForms.id, quote.id!));
+      }
+      for (const batch of inBatches(data.revisions, 100)) await tx.insert(quoteRevisions).values(batch);
+      for (const batch of inBatches(data.attachments, 10)) await tx.insert(quoteAttachments).values(batch);
+
+      // setval(.., 1, false) makes the next number 1 again
+      await tx.execute(data.quoteSequence > 0
+        ? sql`select setval('quote_number_seq', ${data.quoteSequence}, true)`
+        : sql`select setval('quote_number_seq', 1, false)`);
+    });
+  }
+
+  // User operations
   async getUser(id: string): Promise<User | undefined> {
     const [user] = await db.select().from(users).where(eq(users.id, id));
     return user || undefined;
@@ -85,6 +918,59 @@ export class DatabaseStorage implements IStorage {
     return user;
   }
 
+  async getUsers(): Promise<User[]> {
+    return await db.select().from(users).orderBy(users.username);
+  }
+
+  async updateUser(id: string, updates: Partial<InsertUser>): Promise<User | undefined> {
+    const [user] = await db.update(users).set(updates).where(eq(users.id, id)).returning();
+    return user || undefined;
+  }
+
+  async deleteUser(id: string): Promise<boolean> {
+    const deleted = await db.delete(users).where(eq(users.id, id)).returning({ id: users.id });
+    return deleted.length > 0;
+  }
+
+  async hasUsers(): Promise<boolean> {
+    const [user] = await db.select({ id: users.id }).from(users).limit(1);
+    return Boolean(user);
+  }
+
+  // API token operations
+  async getApiTokens(userId: string): Promise<PublicApiToken[]> {
+    return await db
+      .select(publicApiTokenColumns)
+      .from(apiTokens)
+      .where(eq(apiTokens.userId, userId))
+      .orderBy(desc(apiTokens.createdAt));
+  }
+
+  async getApiTokenByHash(tokenHash: string): Promise<ApiToken | undefined> {
+    const [token] = await db.select().from(apiTokens).where(eq(apiTokens.tokenHash, tokenHash));
+    return token || undefined;
+  }
+
+  async createApiToken(token: InsertApiToken): Promise<PublicApiToken> {
+    const [created] = await db
+      .insert(apiTokens)
+      .values({ ...token, createdAt: new Date().toISOString() })
+      .returning(publicApiTokenColumns);
+    return created;
+  }
+
+  async markApiTokenUsed(id: string, usedAt: string): Promise<void> {
+    await db.update(apiTokens).set({ lastUsedAt: usedAt }).where(eq(apiTokens.id, id));
+  }
+
+  async deleteApiToken(userId: string, id: string): Promise<boolean> {
+    const deleted = await db
+      .delete(apiTokens)
+      .where(and(eq(apiTokens.id, id), eq(apiTokens.userId, userId)))
+      .returning({ id: apiTokens.id });
+    return deleted.length > 0;
+  }
+
   // Quote operations
   async saveQuote(quoteData: {
     quote: InsertQuote,
@@ -231,19 +1117,39 @@ export class DatabaseStorage implements IStorage {
 
 // MemStorage implementation for quotes and settings (as per fullstack guidelines)
 export class MemStorage implements IStorage {
-  private quotes: Map<string, QuoteFormData> = new Map();
-  private settings: TemplateSettings = defaultTemplateSettings;
-  private users: Map<string, User> = new Map();
+  protected quotes: Map<string, QuoteFormData> = new Map();
+  protected settings: TemplateSettings = defaultTemplateSettings;
+  protected users: Map<string, User> = new Map();
+  protected apiTokens: Map<string, ApiToken> = new Map();
+  protected revisions: Map<string, QuoteRevision[]> = new Map();
+  protected customers: Map<string, Customer> = new Map();
+  protected salesPeople: Map<string, SalesPerson> = new Map();
+  protected catalogItems: Map<string, CatalogItem> = new Map();
+  protected catalogImportMappings: Map<string, CatalogImportMapping> = new Map();
+  protected bomKits: Map<string, BomKit> = new Map();
+  protected attachments: Map<string, QuoteAttachment> = new Map();
+  protected auditEvents: AuditEvent[] = []; // Oldest first
+  protected quoteSequence = 0;
+
+  // Called after every mutation; durable subclasses override this to write their state out
+  protected async persist(): Promise<void> {}
 
   // Quote form operations (new structure)
-  async saveQuoteForm(quoteData: QuoteFormData): Promise<QuoteFormData> {
-    const id = quoteData.id || this.generateId();
+  async saveQuoteForm(quoteData: QuoteFormData, author = "anonymous"): Promise<QuoteFormData> {
+    const id = this.generateId(); // Never the payload's: that could overwrite an existing quote
+    const now = new Date().toISOString();
     const savedQuote: QuoteFormData = {
       ...quoteData,
       id,
-      lastModified: new Date().toISOString()
+      lastModified: now,
+      revision: 1,
+      status: "draft",
+      statusHistory: initialStatusHistory(author, now)
     };
     this.quotes.set(id, savedQuote);
+    this.revisions.set(id, []);
+    this.recordRevision(savedQuote, author);
+    await this.persist();
     return savedQuote;
   }
 
@@ -252,28 +1158,262 @@ export class MemStorage implements IStorage {
   }
 
   async getAllQuoteForms(): Promise<QuoteFormData[]> {
-    return Array.from(this.quotes.values()).sort((a, b) => {
+    return Array.from(this.quotes.values()).filter(quote => !quote.deletedAt).sort((a, b) => {
       const aDate = new Date(a.lastModified || 0);
       const bDate = new Date(b.lastModified || 0);
       return bDate.getTime() - aDate.getTime(); // Sort by lastModified desc
     });
   }
 
+  async listQuoteForms(query: QuoteListQuery): Promise<QuoteListPage> {
+    const contains = (value: string | undefined, term: string) => (value || "").toLowerCase().includes(term.toLowerCase());
+    const matches = (await this.getAllQuoteForms()).filter(quote =>
+      (!query.customer || contains(quote.customerCompany, query.customer)) &&
+      (!query.salesPerson || contains(quote.salesPersonName, query.salesPerson)) &&
+      (!query.currency || quote.currency === query.currency) &&
+      (!query.status || (quote.status || "draft") === query.status) &&
+      (!query.ownerId || quote.ownerId === query.ownerId || (query.scope === "mine" && !quote.ownerId)) &&
+      (!query.dateFrom || quote.date >= query.dateFrom) &&
+      (!query.dateTo || quote.date <= query.dateTo) &&
+      (!query.search || [quote.quoteSubject, quote.customerCompany, quote.salesPersonName, quote.quoteNumber]
+        .some(value => contains(value, query.search!)))
+    );
+
+    const direction = query.order === "asc" ? 1 : -1;
+    matches.sort((a, b) => direction * String(a[query.sort] ?? "").localeCompare(String(b[query.sort] ?? "")));
+
+    const start = (query.page - 1) * query.pageSize;
+    return {
+      items: matches.slice(start, start + query.pageSize).map(quote => toQuoteFormSummary({
+        id: quote.id,
+        quoteNumber: quote.quoteNumber,
+        quoteSubject: quote.quoteSubject,
+        customerCompany: quote.customerCompany,
+        salesPersonName: quote.salesPersonName,
+        date: quote.date,
+        version: quote.version,
+        currency: quote.currency,
+        lastModified: quote.lastModified,
+        revision: quote.revision,
+        status: quote.status || "draft",
+        validityDays: quote.validityDays,
+        validUntilDate: quote.validUntilDate,
+        ownerId: quote.ownerId,
+        bomGroups: quote.bomGroups,
+        bomItems: quote.bomItems,
+        costItems: quote.costItems,
+      })),
+      total: matches.length,
+      page: query.page,
+      pageSize: query.pageSize,
+    };
+  }
+
+  async findQuoteFormsForSearch(terms: string[]): Promise<QuoteFormData[]> {
+    return await this.getAllQuoteForms();
+  }
+
   async deleteQuoteForm(id: string): Promise<boolean> {
-    return this.quotes.delete(id);
+    const quote = this.quotes.get(id);
+    if (!quote || quote.deletedAt) return false;
+    this.quotes.set(id, { ...quote, deletedAt: new Date().toISOString() });
+    await this.persist();
+    return true;
   }
 
-  async updateQuoteForm(id: string, quoteData: QuoteFormData): Promise<QuoteFormData | undefined> {
-    if (!this.quotes.has(id)) return undefined;
+  async changeQuoteStatus(id: string, change: QuoteStatusChange): Promise<QuoteFormData | undefined> {
+    const quote = this.quotes.get(id);
+    if (!quote) return undefined;
+    const updatedQuote: QuoteFormData = {
+      ...quote,
+      status: change.status,
+      statusHistory: [...(quote.statusHistory || []), change],
+    };
+    this.quotes.set(id, updatedQuote);
+    await this.persist();
+    return updatedQuote;
+  }
+
+  async changeQuoteOwner(id: string, ownerId: string): Promise<QuoteFormData | undefined> {
+    const quote = this.quotes.get(id);
+    if (!quote) return undefined;
+    const updatedQuote: QuoteFormData = { ...quote, ownerId };
+    this.quotes.set(id, updatedQuote);
+    await this.persist();
+    return updatedQuote;
+  }
+
+  async setQuoteApproval(id: string, approval: QuoteApproval | undefined): Promise<QuoteFormData | undefined> {
+    const quote = this.quotes.get(id);
+    if (!quote) return undefined;
+    const updatedQuote: QuoteFormData = { ...quote, approval };
+    this.quotes.set(id, updatedQuote);
+    await this.persist();
+    return updatedQuote;
+  }
+
+  async getQuoteFormsAwaitingApproval(): Promise<QuoteFormData[]> {
+    return Array.from(this.quotes.values())
+      .filter(quote => !quote.deletedAt && quote.approval?.status === "pending")
+      .sort((a, b) => a.approval!.requestedAt.localeCompare(b.approval!.requestedAt));
+  }
+
+  async updateQuoteForm(id: string, quoteData: QuoteFormData, author = "anonymous", expectedRevision?: number): Promise<QuoteFormData | undefined> {
+    const existingQuote = this.quotes.get(id);
+    if (!existingQuote) return undefined;
+    if (expectedRevision !== undefined && expectedRevision !== (existingQuote.revision || 0)) {
+      throw new QuoteConflictError(existingQuote);
+    }
     const updatedQuote: QuoteFormData = {
       ...quoteData,
       id,
-      lastModified: new Date().toISOString()
+      lastModified: new Date().toISOString(),
+      revision: (existingQuote.revision || 0) + 1,
+      deletedAt: existingQuote.deletedAt,
+      status: existingQuote.status,
+      statusHistory: existingQuote.statusHistory,
+      createdBy: existingQuote.createdBy,
+      ownerId: existingQuote.ownerId,
+      approval: existingQuote.approval,
     };
     this.quotes.set(id, updatedQuote);
+    this.recordRevision(updatedQuote, author);
+    await this.persist();
     return updatedQuote;
   }
 
+  // Trash operations
+  async getTrashedQuoteForms(): Promise<QuoteFormData[]> {
+    return Array.from(this.quotes.values())
+      .filter(quote => quote.deletedAt)
+      .sort((a, b) => new Date(b.deletedAt!).getTime() - new Date(a.deletedAt!).getTime());
+  }
+
+  async restoreQuoteForm(id: string): Promise<QuoteFormData | undefined> {
+    const quote = this.quotes.get(id);
+    if (!quote || !quote.deletedAt) return undefined;
+    const { deletedAt, ...restoredQuote } = quote;
+    this.quotes.set(id, restoredQuote);
+    await this.persist();
+    return restoredQuote;
+  }
+
+  async purgeQuoteForm(id: string): Promise<boolean> {
+    if (!this.quotes.get(id)?.deletedAt) return false;
+    this.quotes.delete(id);
+    this.revisions.delete(id);
+    this.removeQuoteAttachments([id]);
+    this.unlinkParentQuotes([id]);
+    await this.persist();
+    return true;
+  }
+
+  async purgeTrashedQuoteForms(deletedBefore: Date): Promise<number> {
+    const expiredIds = Array.from(this.quotes.values())
+      .filter(quote => quote.deletedAt && new Date(quote.deletedAt) < deletedBefore)
+      .map(quote => quote.id!);
+    for (const id of expiredIds) {
+      this.quotes.delete(id);
+      this.revisions.delete(id);
+    }
+    this.removeQuoteAttachments(expiredIds);
+    this.unlinkParentQuotes(expiredIds);
+    if (expiredIds.length > 0) await this.persist();
+    return expiredIds.length;
+  }
+
+  // Mirror ON DELETE CASCADE on the attachments of purged quotes
+  private removeQuoteAttachments(purgedIds: string[]): void {
+    for (const attachment of Array.from(this.attachments.values())) {
+      if (purgedIds.includes(attachment.quoteId)) this.attachments.delete(attachment.id);
+    }
+  }
+
+  // Mirror ON DELETE SET NULL on versions cloned from purged quotes
+  private unlinkParentQuotes(purgedIds: string[]): void {
+    for (const quote of Array.from(this.quotes.values())) {
+      if (quote.parentQuoteId && purgedIds.includes(quote.parentQuoteId)) {
+        const { parentQuoteId, ...unlinkedQuote } = quote;
+        this.quotes.set(quote.id!, unlinkedQuote);
+      }
+    }
+  }
+
+  // Quote numbering
+  async allocateQuoteSequence(): Promise<number> {
+    this.quoteSequence += 1;
+    await this.persist();
+    return this.quoteSequence;
+  }
+
+  // Revision history
+  async getQuoteRevisions(quoteId: string): Promise<QuoteRevision[]> {
+    return [...(this.revisions.get(quoteId) || [])].reverse();
+  }
+
+  async getQuoteRevision(quoteId: string, revision: number): Promise<QuoteRevision | undefined> {
+    return this.revisions.get(quoteId)?.find(entry => entry.revision === revision);
+  }
+
+  // Quote attachments
+  async getQuoteAttachments(quoteId: string): Promise<QuoteAttachmentInfo[]> {
+    return Array.from(this.attachments.values())
+      .filter(attachment => attachment.quoteId === quoteId)
+      .sort((a, b) => a.position - b.position)
+      .map(({ content, ...info }) => info);
+  }
+
+  async getQuoteAttachment(quoteId: string, id: string): Promise<QuoteAttachment | undefined> {
+    const attachment = this.attachments.get(id);
+    return attachment?.quoteId === quoteId ? attachment : undefined;
+  }
+
+  async addQuoteAttachment(attachment: InsertQuoteAttachment): Promise<QuoteAttachmentInfo> {
+    const positions = (await this.getQuoteAttachments(attachment.quoteId)).map(existing => existing.position);
+    const created: QuoteAttachment = {
+      id: this.generateId(),
+      ...attachment,
+      appendToPdf: true,
+      position: Math.max(0, ...positions) + 1,
+      createdAt: new Date().toISOString(),
+    };
+    this.attachments.set(created.id, created);
+    await this.persist();
+    const { content, ...info } = created;
+    return info;
+  }
+
+  async arrangeQuoteAttachments(quoteId: string, order: QuoteAttachmentOrder["attachments"]): Promise<QuoteAttachmentInfo[]> {
+    order.forEach(({ id, appendToPdf }, index) => {
+      const attachment = this.attachments.get(id);
+      if (attachment?.quoteId === quoteId) {
+        this.attachments.set(id, { ...attachment, position: index + 1, appendToPdf });
+      }
+    });
+    await this.persist();
+    return await this.getQuoteAttachments(quoteId);
+  }
+
+  async deleteQuoteAttachment(quoteId: string, id: string): Promise<boolean> {
+    if (this.attachments.get(id)?.quoteId !== quoteId) return false;
+    this.attachments.delete(id);
+    await this.persist();
+    return true;
+  }
+
+  private recordRevision(quote: QuoteFormData, author: string) {
+    const history = this.revisions.get(quote.id!) || [];
+    history.push({
+      id: this.generateId(),
+      quoteId: quote.id!,
+      revision: quote.revision!,
+      author,
+      createdAt: quote.lastModified!,
+      data: quote,
+    });
+    this.revisions.set(quote.id!, history);
+  }
+
   // Settings operations
   async getSettings(): Promise<TemplateSettings> {
     return { ...this.settings };
@@ -281,9 +1421,353 @@ export class MemStorage implements IStorage {
 
   async updateSettings(settings: TemplateSettings): Promise<TemplateSettings> {
     this.settings = { ...settings };
+    await this.persist();
     return { ...this.settings };
   }
 
+  // Customer directory
+  async getCustomers(search?: string): Promise<Customer[]> {
+    const term = search?.toLowerCase();
+    return Array.from(this.customers.values())
+      .filter(customer => !term
+        || customer.name.toLowerCase().includes(term)
+        || (customer.vatId || "").toLowerCase().includes(term))
+      .sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  async getCustomer(id: string): Promise<Customer | undefined> {
+    return this.customers.get(id);
+  }
+
+  async createCustomer(customer: InsertCustomer): Promise<Customer> {
+    const now = new Date().toISOString();
+    const created: Customer = {
+      id: this.generateId(),
+      name: customer.name,
+      logo: customer.logo ?? null,
+      address: customer.address ?? null,
+      vatId: customer.vatId ?? null,
+      defaultCurrency: customer.defaultCurrency ?? null,
+      defaultPaymentTerms: customer.defaultPaymentTerms ?? null,
+      contacts: customer.contacts,
+      createdAt: now,
+      updatedAt: now,
+    };
+    this.customers.set(created.id, created);
+    await this.persist();
+    return created;
+  }
+
+  async updateCustomer(id: string, customer: InsertCustomer): Promise<Customer | undefined> {
+    const existing = this.customers.get(id);
+    if (!existing) return undefined;
+    const updated: Customer = {
+      ...existing,
+      name: customer.name,
+      logo: customer.logo ?? null,
+      address: customer.address ?? null,
+      vatId: customer.vatId ?? null,
+      defaultCurrency: customer.defaultCurrency ?? null,
+      defaultPaymentTerms: customer.defaultPaymentTerms ?? null,
+      contacts: customer.contacts,
+      updatedAt: new Date().toISOString(),
+    };
+    this.customers.set(id, updated);
+    await this.persist();
+    return updated;
+  }
+
+  async deleteCustomer(id: string): Promise<boolean> {
+    if (!this.customers.delete(id)) return false;
+    // Mirror ON DELETE SET NULL on the quotes that referenced the customer
+    for (const quote of Array.from(this.quotes.values())) {
+      if (quote.customerId === id) {
+        const { customerId, ...unlinkedQuote } = quote;
+        this.quotes.set(quote.id!, unlinkedQuote);
+      }
+    }
+    await this.persist();
+    return true;
+  }
+
+  // Sales team directory
+  async getSalesPeople(): Promise<SalesPerson[]> {
+    return Array.from(this.salesPeople.values()).sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  async getSalesPerson(id: string): Promise<SalesPerson | undefined> {
+    return this.salesPeople.get(id);
+  }
+
+  async createSalesPerson(salesPerson: InsertSalesPerson): Promise<SalesPerson> {
+    const now = new Date().toISOString();
+    const created: SalesPerson = {
+      id: this.generateId(),
+      name: salesPerson.name,
+      role: salesPerson.role ?? null,
+      phone: salesPerson.phone ?? null,
+      email: salesPerson.email ?? null,
+      signature: salesPerson.signature ?? null,
+      createdAt: now,
+      updatedAt: now,
+    };
+    this.salesPeople.set(created.id, created);
+    await this.persist();
+    return created;
+  }
+
+  async updateSalesPerson(id: string, salesPerson: InsertSalesPerson): Promise<SalesPerson | undefined> {
+    const existing = this.salesPeople.get(id);
+    if (!existing) return undefined;
+    const updated: SalesPerson = {
+      ...existing,
+      name: salesPerson.name,
+      role: salesPerson.role ?? null,
+      phone: salesPerson.phone ?? null,
+      email: salesPerson.email ?? null,
+      signature: salesPerson.signature ?? null,
+      updatedAt: new Date().toISOString(),
+    };
+    this.salesPeople.set(id, updated);
+    await this.persist();
+    return updated;
+  }
+
+  async deleteSalesPerson(id: string): Promise<boolean> {
+    if (!this.salesPeople.delete(id)) return false;
+    await this.persist();
+    return true;
+  }
+
+  // Product catalog
+  async getCatalogItems(search?: string, limit?: number): Promise<CatalogItem[]> {
+    const term = search?.toLowerCase();
+    const startsWithTerm = (item: CatalogItem) => (term && item.partNumber.toLowerCase().startsWith(term) ? 0 : 1);
+    const items = Array.from(this.catalogItems.values())
+      .filter(item => !term || [item.partNumber, item.description, item.manufacturer]
+        .some(value => (value || "").toLowerCase().includes(term)))
+      .sort((a, b) => startsWithTerm(a) - startsWithTerm(b) || a.partNumber.localeCompare(b.partNumber));
+    return limit ? items.slice(0, limit) : items;
+  }
+
+  async getCatalogItem(id: string): Promise<CatalogItem | undefined> {
+    return this.catalogItems.get(id);
+  }
+
+  async getCatalogItemByPartNumber(partNumber: string): Promise<CatalogItem | undefined> {
+    return Array.from(this.catalogItems.values()).find(item => item.partNumber === partNumber);
+  }
+
+  async createCatalogItem(item: InsertCatalogItem): Promise<CatalogItem> {
+    const now = new Date().toISOString();
+    const created: CatalogItem = {
+      id: this.generateId(),
+      partNumber: item.partNumber,
+      description: item.description ?? "",
+      manufacturer: item.manufacturer ?? null,
+      listPrice: item.listPrice ?? null,
+      cost: item.cost ?? null,
+      currency: item.currency ?? "USD",
+      createdAt: now,
+      updatedAt: now,
+    };
+    this.catalogItems.set(created.id, created);
+    await this.persist();
+    return created;
+  }
+
+  async updateCatalogItem(id: string, item: InsertCatalogItem): Promise<CatalogItem | undefined> {
+    const existing = this.catalogItems.get(id);
+    if (!existing) return undefined;
+    const updated: CatalogItem = {
+      ...existing,
+      partNumber: item.partNumber,
+      description: item.description ?? "",
+      manufacturer: item.manufacturer ?? null,
+      listPrice: item.listPrice ?? null,
+      cost: item.cost ?? null,
+      currency: item.currency ?? "USD",
+      updatedAt: new Date().toISOString(),
+    };
+    this.catalogItems.set(id, updated);
+    await this.persist();
+    return updated;
+  }
+
+  async deleteCatalogItem(id: string): Promise<boolean> {
+    if (!this.catalogItems.delete(id)) return false;
+    await this.persist();
+    return true;
+  }
+
+  async upsertCatalogItems(items: InsertCatalogItem[]): Promise<void> {
+    const now = new Date().toISOString();
+    const idsByPartNumber = new Map(Array.from(this.catalogItems.values()).map(item => [item.partNumber, item.id]));
+    for (const item of items) {
+      const existingId = idsByPartNumber.get(item.partNumber);
+      const existing = existingId ? this.catalogItems.get(existingId) : undefined;
+      const upserted: CatalogItem = {
+        id: existing?.id ?? this.generateId(),
+        partNumber: item.partNumber,
+        description: item.description ?? "",
+        manufacturer: item.manufacturer ?? null,
+        listPrice: item.listPrice ?? null,
+        cost: item.cost ?? null,
+        currency: item.currency ?? "USD",
+        createdAt: existing?.createdAt ?? now,
+        updatedAt: now,
+      };
+      this.catalogItems.set(upserted.id, upserted);
+      idsByPartNumber.set(upserted.partNumber, upserted.id);
+    }
+    await this.persist();
+  }
+
+  async getCatalogImportMappings(): Promise<CatalogImportMapping[]> {
+    return Array.from(this.catalogImportMappings.values()).sort((a, b) => a.vendor.localeCompare(b.vendor));
+  }
+
+  async saveCatalogImportMapping(mapping: InsertCatalogImportMapping): Promise<CatalogImportMapping> {
+    const saved: CatalogImportMapping = { ...mapping, updatedAt: new Date().toISOString() };
+    this.catalogImportMappings.set(saved.vendor, saved);
+    await this.persist();
+    return saved;
+  }
+
+  // BOM kit library
+  async getBomKits(search?: string): Promise<BomKit[]> {
+    const term = search?.toLowerCase();
+    return Array.from(this.bomKits.values())
+      .filter(kit => !term || [kit.name, kit.description, ...kit.tags].some(value => value.toLowerCase().includes(term)))
+      .sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  async getBomKit(id: string): Promise<BomKit | undefined> {
+    return this.bomKits.get(id);
+  }
+
+  async createBomKit(kit: InsertBomKit): Promise<BomKit> {
+    const now = new Date().toISOString();
+    const created: BomKit = {
+      id: this.generateId(),
+      name: kit.name,
+      description: kit.description,
+      tags: kit.tags,
+      currency: kit.currency || "USD",
+      items: kit.items,
+      createdAt: now,
+      updatedAt: now,
+    };
+    this.bomKits.set(created.id, created);
+    await this.persist();
+    return created;
+  }
+
+  async updateBomKit(id: string, kit: InsertBomKit): Promise<BomKit | undefined> {
+    const existing = this.bomKits.get(id);
+    if (!existing) return undefined;
+    const updated: BomKit = {
+      ...existing,
+      name: kit.name,
+      description: kit.description,
+      tags: kit.tags,
+      currency: kit.currency || existing.currency,
+      items: kit.items,
+      updatedAt: new Date().toISOString(),
+    };
+    this.bomKits.set(id, updated);
+    await this.persist();
+    return updated;
+  }
+
+  async deleteBomKit(id: string): Promise<boolean> {
+    if (!this.bomKits.delete(id)) return false;
+    await this.persist();
+    return true;
+  }
+
+  // Audit log
+  async addAuditEvent(event: InsertAuditEvent): Promise<AuditEvent> {
+    const created: AuditEvent = {
+      id: this.generateId(),
+      occurredAt: new Date().toISOString(),
+      actor: event.actor,
+      action: event.action,
+      entityType: event.entityType,
+      entityId: event.entityId ?? null,
+      entityLabel: event.entityLabel ?? "",
+      quoteId: event.quoteId ?? null,
+      changes: event.changes ?? [],
+    };
+    this.auditEvents.push(created);
+    await this.persist();
+    return created;
+  }
+
+  async listAuditEvents(query: AuditQuery): Promise<AuditEventPage> {
+    const contains = (value: string, term: string) => value.toLowerCase().includes(term.toLowerCase());
+    const matches = this.auditEvents.filter(event =>
+      (!query.entityType || event.entityType === query.entityType) &&
+      (!query.entityId || event.entityId === query.entityId) &&
+      (!query.quoteId || event.quoteId === query.quoteId) &&
+      (!query.action || event.action === query.action) &&
+      (!query.actor || contains(event.actor, query.actor)) &&
+      (!query.path || event.changes.some(change => contains(change.path, query.path!))) &&
+      (!query.dateFrom || event.occurredAt >= query.dateFrom) &&
+      (!query.dateTo || event.occurredAt <= `${query.dateTo}T23:59:59.999Z`)
+    ).reverse();
+
+    const start = (query.page - 1) * query.pageSize;
+    return {
+      items: matches.slice(start, start + query.pageSize),
+      total: matches.length,
+      page: query.page,
+      pageSize: query.pageSize,
+    };
+  }
+
+  // Backup and restore
+  async exportBackupData(): Promise<BackupData> {
+    return {
+      settings: { ...this.settings },
+      quotes: Array.from(this.quotes.values()),
+      revisions: Array.from(this.revisions.values()).flat(),
+      customers: Array.from(this.customers.values()),
+      salesPeople: Array.from(this.salesPeople.values()),
+      catalogItems: Array.from(this.catalogItems.values()),
+      catalogImportMappings: Array.from(this.catalogImportMappings.values()),
+      bomKits: Array.from(this.bomKits.values()),
+      attachments: Array.from(this.attachments.values()),
+      quoteSequence: this.quoteSequence,
+    };
+  }
+
+  async restoreBackupData(data: BackupData): Promise<void> {
+    this.settings = { ...data.settings };
+    // Users are not part of a backup; owners who have no account here are dropped
+    const knownUserId = (id?: string) => (id && this.users.has(id) ? id : undefined);
+    this.quotes = new Map(data.quotes.map(quote => [quote.id!, {
+      ...quote,
+      createdBy: knownUserId(quote.createdBy),
+      ownerId: knownUserId(quote.ownerId),
+    }]));
+    this.revisions = new Map();
+    for (const revision of data.revisions) {
+      const history = this.revisions.get(revision.quoteId) || [];
+      history.push(revision);
+      this.revisions.set(revision.quoteId, history);
+    }
+    this.revisions.forEach(history => history.sort((a, b) => a.revision - b.revision));
+    this.customers = new Map(data.customers.map(customer => [customer.id, customer]));
+    this.salesPeople = new Map(data.salesPeople.map(salesPerson => [salesPerson.id, salesPerson]));
+    this.catalogItems = new Map(data.catalogItems.map(item => [item.id, item]));
+    this.catalogImportMappings = new Map(data.catalogImportMappings.map(mapping => [mapping.vendor, mapping]));
+    this.bomKits = new Map(data.bomKits.map(kit => [kit.id, kit]));
+    this.attachments = new Map(data.attachments.map(attachment => [attachment.id, attachment]));
+    this.quoteSequence = data.quoteSequence;
+    await this.persist();
+  }
+
   // User operations (existing)
   async getUser(id: string): Promise<User | undefined> {
     return this.users.get(id);
@@ -299,12 +1783,90 @@ export class MemStorage implements IStorage {
   async createUser(insertUser: InsertUser): Promise<User> {
     const user: User = {
       id: this.generateId(),
-      ...insertUser
+      ...insertUser,
+      role: insertUser.role ?? "sales",
     };
     this.users.set(user.id, user);
+    await this.persist();
     return user;
   }
 
+  async getUsers(): Promise<User[]> {
+    return Array.from(this.users.values()).sort((a, b) => a.username.localeCompare(b.username));
+  }
+
+  async updateUser(id: string, updates: Partial<InsertUser>): Promise<User | undefined> {
+    const user = this.users.get(id);
+    if (!user) return undefined;
+    const updated: User = { ...user, ...updates };
+    this.users.set(id, updated);
+    await this.persist();
+    return updated;
+  }
+
+  async deleteUser(id: string): Promise<boolean> {
+    const deleted = this.users.delete(id);
+    if (deleted) {
+      // Their API tokens go with the account
+      Array.from(this.apiTokens.values())
+        .filter(token => token.userId === id)
+        .forEach(token => this.apiTokens.delete(token.id));
+      // Their quotes become unowned, as ON DELETE SET NULL does in the database
+      Array.from(this.quotes.values())
+        .filter(quote => quote.ownerId === id || quote.createdBy === id)
+        .forEach(quote => this.quotes.set(quote.id!, {
+          ...quote,
+          ownerId: quote.ownerId === id ? undefined : quote.ownerId,
+          createdBy: quote.createdBy === id ? undefined : quote.createdBy,
+        }));
+      await this.persist();
+    }
+    return deleted;
+  }
+
+  async hasUsers(): Promise<boolean> {
+    return this.users.size > 0;
+  }
+
+  // API token operations
+  async getApiTokens(userId: string): Promise<PublicApiToken[]> {
+    return Array.from(this.apiTokens.values())
+      .filter(token => token.userId === userId)
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+      .map(({ tokenHash, ...token }) => token);
+  }
+
+  async getApiTokenByHash(tokenHash: string): Promise<ApiToken | undefined> {
+    return Array.from(this.apiTokens.values()).find(token => token.tokenHash === tokenHash);
+  }
+
+  async createApiToken(token: InsertApiToken): Promise<PublicApiToken> {
+    const created: ApiToken = {
+      id: this.generateId(),
+      ...token,
+      createdAt: new Date().toISOString(),
+      lastUsedAt: null,
+    };
+    this.apiTokens.set(created.id, created);
+    await this.persist();
+    const { tokenHash, ...publicToken } = created;
+    return publicToken;
+  }
+
+  async markApiTokenUsed(id: string, usedAt: string): Promise<void> {
+    const token = this.apiTokens.get(id);
+    if (!token) return;
+    this.apiTokens.set(id, { ...token, lastUsedAt: usedAt });
+    await this.persist();
+  }
+
+  async deleteApiToken(userId: string, id: string): Promise<boolean> {
+    if (this.apiTokens.get(id)?.userId !== userId) return false;
+    this.apiTokens.delete(id);
+    await this.persist();
+    return true;
+  }
+
   // Legacy quote operations (for compatibility) - implement to avoid crashes
   async saveQuote(quoteData: {
     quote: InsertQuote,
@@ -532,9 +2094,126 @@ export class MemStorage implements IStorage {
     };
   }
 
-  private generateId(): string {
+  protected generateId(): string {
     return Math.random().toString(36).substring(2) + Date.now().toString(36);
   }
 }
 
-export const storage = new MemStorage();
+// Shape of the JSON document written by FileStorage
+type FileStorageSnapshot = {
+  formatVersion: 1;
+  quotes: QuoteFormData[];
+  settings: TemplateSettings;
+  users: User[];
+  apiTokens: ApiToken[];
+  revisions: QuoteRevision[];
+  customers: Customer[];
+  salesPeople: SalesPerson[];
+  catalogItems: CatalogItem[];
+  catalogImportMappings: CatalogImportMapping[];
+  bomKits: BomKit[];
+  attachments: QuoteAttachment[];
+  auditEvents: AuditEvent[];
+  quoteSequence: number;
+};
+
+// FileStorage keeps the MemStorage maps in memory and mirrors them to a JSON file on disk.
+// Every write goes to a temporary file that is flushed and then renamed over the store,
+// so a crash mid-save leaves either the previous or the new snapshot, never a partial one.
+export class FileStorage extends MemStorage {
+  private writeQueue: Promise<void> = Promise.resolve();
+
+  constructor(private readonly filePath: string) {
+    super();
+    this.load();
+  }
+
+  private load() {
+    if (!fs.existsSync(this.filePath)) return;
+    const snapshot = JSON.parse(fs.readFileSync(this.filePath, "utf8")) as FileStorageSnapshot;
+    this.quotes = new Map((snapshot.quotes || []).map(quote => [quote.id!, quote]));
+    this.settings = { ...defaultTemplateSettings, ...snapshot.settings };
+    // Files written before roles existed have users without one
+    this.users = new Map((snapshot.users || []).map(user => [user.id, { ...user, role: user.role ?? "sales" }]));
+    this.apiTokens = new Map((snapshot.apiTokens || []).map(token => [token.id, token]));
+    this.customers = new Map((snapshot.customers || []).map(customer => [customer.id, customer]));
+    this.salesPeople = new Map((snapshot.salesPeople || []).map(salesPerson => [salesPerson.id, salesPerson]));
+    this.catalogItems = new Map((snapshot.catalogItems || []).map(item => [item.id, item]));
+    this.catalogImportMappings = new Map((snapshot.catalogImportMappings || []).map(mapping => [mapping.vendor, mapping]));
+    this.bomKits = new Map((snapshot.bomKits || []).map(kit => [kit.id, kit]));
+    this.attachments = new Map((snapshot.attachments || []).map(attachment => [attachment.id, attachment]));
+    this.auditEvents = snapshot.auditEvents || [];
+    this.quoteSequence = snapshot.quoteSequence || 0;
+    this.revisions = new Map();
+    for (const revision of snapshot.revisions || []) {
+      const history = this.revisions.get(revision.quoteId) || [];
+      history.push(revision);
+      this.revisions.set(revision.quoteId, history);
+    }
+  }
+
+  private snapshot(): FileStorageSnapshot {
+    return {
+      formatVersion: 1,
+      quotes: Array.from(this.quotes.values()),
+      settings: this.settings,
+      users: Array.from(this.users.values()),
+      apiTokens: Array.from(this.apiTokens.values()),
+      revisions: Array.from(this.revisions.values()).flat(),
+      customers: Array.from(this.customers.values()),
+      salesPeople: Array.from(this.salesPeople.values()),
+      catalogItems: Array.from(this.catalogItems.values()),
+      catalogImportMappings: Array.from(this.catalogImportMappings.values()),
+      bomKits: Array.from(this.bomKits.values()),
+      attachments: Array.from(this.attachments.values()),
+      auditEvents: this.auditEvents,
+      quoteSequence: this.quoteSequence,
+    };
+  }
+
+  protected async persist(): Promise<void> {
+    // Take the snapshot now, but serialize the disk writes so they land in order
+    const contents = JSON.stringify(this.snapshot());
+    const write = this.writeQueue.then(() => this.writeAtomically(contents));
+    this.writeQueue = write.catch(() => undefined);
+    return write;
+  }
+
+  private async writeAtomically(contents: string): Promise<void> {
+    await fs.promises.mkdir(path.dirname(this.filePath), { recursive: true });
+    const tempPath = `${this.filePath}.${process.pid}.tmp`;
+    const handle = await fs.promises.open(tempPath, "w");
+    try {
+      await handle.writeFile(contents, "utf8");
+      await handle.sync();
+    } finally {
+      await handle.close();
+    }
+    await fs.promises.rename(tempPath, this.filePath);
+  }
+}
+
+// Pick the storage backend from STORAGE_BACKEND (memory | file | database).
+// Without it, production uses the database and development keeps quotes in memory.
+function createStorage(): IStorage {
+  const backend = process.env.STORAGE_BACKEND
+    || (process.env.NODE_ENV === "production" ? "database" : "memory");
+
+  switch (backend) {
+    case "database":
+      if (!process.env.DATABASE_URL) {
+        throw new Error(
+          "DATABASE_URL must be set. Did you forget to provision a database?",
+        );
+      }
+      return new DatabaseStorage();
+    case "file":
+      return new FileStorage(path.resolve(process.env.STORAGE_FILE || "data/moonquote.json"));
+    case "memory":
+      return new MemStorage();
+    default:
+      throw new Error(`Unknown STORAGE_BACKEND "${backend}" - expected memory, file or database`);
+  }
+}
+
+export const storage: IStorage = createStorage();
@@ -0,0 +1,57 @@
+// Roles and what each may do. Reading customers, the catalog, kits, settings and the user list is open
+// to every logged-in user; sales see their own quotes and managers the whole team's.
+// The permissions below guard everything else.
+
+export const USER_ROLES = ["sales", "manager", "admin"] as const;
+
+export type UserRole = typeof USER_ROLES[number];
+
+export const USER_ROLE_LABELS: Record<UserRole, string> = {
+  sales: "Sales",
+  manager: "Manager",
+  admin: "Admin",
+};
+
+export const PERMISSIONS = [
+  "quotes.edit", // create, edit, clone, change status, restore revisions, manage attachments
+  "quotes.deleteOwn", // move quotes the user owns to the trash, and restore them
+  "quotes.deleteAny", // the same for everyone's quotes
+  "quotes.purge", // delete from the trash permanently
+  "quotes.viewTeam", // see and work on quotes owned by others
+  "quotes.reassign", // hand any quote to another user; owners can always hand over their own
+  "quotes.approve", // approve or reject discounts beyond the limits in settings
+  "customers.edit",
+  "kits.edit",
+  "salesTeam.edit",
+  "catalog.edit", // includes price list imports
+  "settings.edit",
+  "audit.view", // the full audit log; a quote's own activity is visible to anyone who can see the quote
+  "backup.manage",
+  "users.manage",
+] as const;
+
+export type Permission = typeof PERMISSIONS[number];
+
+const SALES_PERMISSIONS: Permission[] = ["quotes.edit", "quotes.deleteOwn", "customers.edit", "kits.edit"];
+
+const MANAGER_PERMISSIONS: Permission[] = [
+  ...SALES_PERMISSIONS,
+  "quotes.deleteAny",
+  "quotes.purge",
+  "quotes.viewTeam",
+  "quotes.reassign",
+  "quotes.approve",
+  "salesTeam.edit",
+  "catalog.edit",
+  "audit.view",
+];
+
+export const ROLE_PERMISSIONS: Record<UserRole, readonly Permission[]> = {
+  sales: SALES_PERMISSIONS,
+  manager: MANAGER_PERMISSIONS,
+  admin: PERMISSIONS,
+};
+
+export function hasPermission(role: UserRole, permission: Permission): boolean {
+  return ROLE_PERMISSIONS[role].includes(permission);
+}
@@ -0,0 +1,108 @@
+import type { QuoteApproval, QuoteFormData } from "./schema";
+import { calculateQuoteTotals, getQuoteBomLines } from "./quoteTotals";
+
+// Discount approval: a quote whose discount lines exceed a share of the subtotal, or whose margin over
+// catalog cost falls below a minimum, needs a manager's approval before its PDF is exported or it is sent.
+
+export const DEFAULT_MAX_DISCOUNT_PERCENT = 10;
+export const DEFAULT_MIN_MARGIN_PERCENT = 0; // Only quotes sold below cost
+
+export type QuoteDiscountLimits = {
+  maxDiscountPercent: number;
+  minMarginPercent: number;
+};
+
+type QuoteDiscountInput = Pick<QuoteFormData, "bomGroups" | "bomItems" | "costItems">;
+
+export type QuoteDiscountCheck = {
+  subtotal: number; // BOM lines plus cost lines that are not discounts
+  discountTotal: number;
+  discountPercent: number; // Discount lines as a share of the subtotal
+  cost: number | null; // Catalog cost of the BOM lines that have one; null when none has
+  marginPercent: number | null; // Grand total less cost, as a share of the grand total
+  uncostedParts: string[]; // Part numbers without a catalog cost; the margin leaves them out
+  discountExceeded: boolean;
+  marginTooLow: boolean; // Also set when the total is zero or less but there is a cost
+  reasons: string[]; // Why the quote needs approval, for people; empty when it does not
+};
+
+const roundPercent = (value: number) => Math.round(value * 10) / 10;
+
+// unitCosts holds the catalog cost per part number, in the quote's currency
+export function checkQuoteDiscount(
+  quote: QuoteDiscountInput,
+  limits: QuoteDiscountLimits,
+  unitCosts: Map<string, number>,
+): QuoteDiscountCheck {
+  // Same rounding and skipped lines as the totals in the preview
+  const { grandTotal } = calculateQuoteTotals(quote);
+  const discountTotal = (quote.costItems || [])
+    .filter(item => item.isDiscount && item.productDescription && item.productDescription.trim() !== "")
+    .reduce((sum, item) => sum + Math.round(item.totalPrice), 0);
+  const subtotal = grandTotal + discountTotal;
+  const discountPercent = subtotal > 0 ? roundPercent((discountTotal / subtotal) * 100) : discountTotal > 0 ? 100 : 0;
+
+  let cost: number | null = null;
+  const uncostedParts: string[] = [];
+  for (const line of getQuoteBomLines(quote)) {
+    const partNumber = line.partNumber.trim();
+    if (!partNumber) continue;
+    const unitCost = unitCosts.get(partNumber);
+    if (unitCost === undefined) {
+      if (!uncostedParts.includes(partNumber)) uncostedParts.push(partNumber);
+      continue;
+    }
+    cost = (cost ?? 0) + unitCost * (line.quantity || 0);
+  }
+  const marginPercent = cost !== null && grandTotal > 0 ? roundPercent(((grandTotal - cost) / grandTotal) * 100) : null;
+
+  const discountExceeded = discountPercent > limits.maxDiscountPercent;
+  const marginTooLow = cost !== null && (marginPercent === null || marginPercent < limits.minMarginPercent);
+  const reasons: string[] = [];
+  if (discountExceeded) {
+    reasons.push(`Discount of ${discountPercent}% exceeds the ${limits.maxDiscountPercent}% limit`);
+  }
+  if (marginTooLow) {
+    reasons.push(marginPercent === null
+      ? "The quote total does not cover the catalog cost"
+      : `Margin of ${marginPercent}% is below the ${limits.minMarginPercent}% minimum`);
+  }
+
+  return { subtotal, discountTotal, discountPercent, cost, marginPercent, uncostedParts, discountExceeded, marginTooLow, reasons };
+}
+
+// An approval also covers later edits that give no more discount and keep at least the approved margin
+export function approvalCovers(approval: QuoteApproval | undefined, check: QuoteDiscountCheck): boolean {
+  if (approval?.status !== "approved") return false;
+  const discountCovered = !check.discountExceeded || check.discountPercent <= approval.discountPercent;
+  const marginCovered = !check.marginTooLow
+    || check.marginPercent === approval.marginPercent
+    || (check.marginPercent !== null && approval.marginPercent !== null && check.marginPercent >= approval.marginPercent);
+  return discountCovered && marginCovered;
+}
+
+// Approval state after a save. Quotes within the limits need none; a pending request is updated
+// with the new figures, and a rejected one stays rejected until the figures change.
+export function nextQuoteApproval(
+  previous: QuoteApproval | undefined,
+  check: QuoteDiscountCheck,
+  requestedBy: string,
+  now: string,
+): QuoteApproval | undefined {
+  if (check.reasons.length === 0) return undefined;
+  if (approvalCovers(previous, check)) return previous;
+
+  const figures = { reasons: check.reasons, discountPercent: check.discountPercent, marginPercent: check.marginPercent };
+  if (previous?.status === "pending") {
+    return { ...previous, ...figures };
+  }
+  if (previous?.status === "rejected" && previous.discountPercent === check.discountPercent && previous.marginPercent === check.marginPercent) {
+    return previous;
+  }
+  return { status: "pending", ...figures, requestedAt: now, requestedBy };
+}
+
+// PDF export and sending wait until a required approval has been given
+export function isAwaitingApproval(approval: QuoteApproval | undefined): boolean {
+  return approval !== undefined && approval.status !== "approved";
+}
@@ -0,0 +1,24 @@
+// Quote number patterns, e.g. "Q-{YYYY}-{SEQ:4}" -> "Q-2026-0042".
+// Supported tokens: {YYYY}, {YY}, {MM}, {DD} and {SEQ} / {SEQ:width}.
+// The sequence is a global counter that never resets, so every pattern must contain {SEQ}.
+
+export const DEFAULT_QUOTE_NUMBER_PATTERN = "Q-{YYYY}-{SEQ:4}";
+
+export const QUOTE_NUMBER_SEQ_TOKEN = /\{SEQ(?::(\d{1,2}))?\}/;
+
+export function isValidQuoteNumberPattern(pattern: string): boolean {
+  return QUOTE_NUMBER_SEQ_TOKEN.test(pattern);
+}
+
+export function formatQuoteNumber(pattern: string, sequence: number, date: Date = new Date()): string {
+  const pad = (value: number, width: number) => String(value).padStart(width, "0");
+
+  return pattern
+    .replace(/\{YYYY\}/g, String(date.getFullYear()))
+    .replace(/\{YY\}/g, pad(date.getFullYear() % 100, 2))
+    .replace(/\{MM\}/g, pad(date.getMonth() + 1, 2))
+    .replace(/\{DD\}/g, pad(date.getDate(), 2))
+    .replace(new RegExp(QUOTE_NUMBER_SEQ_TOKEN.source, "g"), (_, width?: string) =>
+      pad(sequence, width ? parseInt(width, 10) : 1)
+    );
+}
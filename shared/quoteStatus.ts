@@ -0,0 +1,26 @@
+// Quote lifecycle: draft -> sent -> accepted / rejected / expired.
+// Rejected and expired quotes can go back to draft to be reworked; accepted is final.
+
+export const QUOTE_STATUSES = ["draft", "sent", "accepted", "rejected", "expired"] as const;
+
+export type QuoteStatus = typeof QUOTE_STATUSES[number];
+
+export const QUOTE_STATUS_LABELS: Record<QuoteStatus, string> = {
+  draft: "Draft",
+  sent: "Sent",
+  accepted: "Accepted",
+  rejected: "Rejected",
+  expired: "Expired",
+};
+
+export const QUOTE_STATUS_TRANSITIONS: Record<QuoteStatus, QuoteStatus[]> = {
+  draft: ["sent"],
+  sent: ["accepted", "rejected", "expired", "draft"],
+  accepted: [],
+  rejected: ["draft"],
+  expired: ["draft", "sent"],
+};
+
+export function canTransitionQuoteStatus(from: QuoteStatus, to: QuoteStatus): boolean {
+  return QUOTE_STATUS_TRANSITIONS[from].includes(to);
+}
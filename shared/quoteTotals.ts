@@ -0,0 +1,28 @@
+import type { QuoteFormData } from "./schema";
+
+type QuoteTotalsInput = Pick<QuoteFormData, "bomGroups" | "bomItems" | "costItems">;
+
+// All BOM lines of a quote, falling back to the legacy flat bomItems list
+export function getQuoteBomLines(quote: QuoteTotalsInput): NonNullable<QuoteFormData["bomItems"]> {
+  if (quote.bomGroups && quote.bomGroups.length > 0) {
+    return quote.bomGroups.flatMap(group => group.items);
+  }
+  return quote.bomItems || [];
+}
+
+// Totals rounded per line, matching what QuotePreview shows
+export function calculateQuoteTotals(quote: QuoteTotalsInput): { bomTotal: number; costTotal: number; grandTotal: number } {
+  const bomTotal = getQuoteBomLines(quote).reduce(
+    (sum, item) => sum + (item.totalPrice ? Math.round(item.totalPrice) : 0),
+    0
+  );
+
+  // Cost lines without a description are skipped, as in the preview
+  const costTotal = (quote.costItems || []).reduce((sum, item) => {
+    if (!item.productDescription || item.productDescription.trim() === "") return sum;
+    const roundedAmount = Math.round(item.totalPrice);
+    return sum + (item.isDiscount ? -roundedAmount : roundedAmount);
+  }, 0);
+
+  return { bomTotal, costTotal, grandTotal: bomTotal + costTotal };
+}
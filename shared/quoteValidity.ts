@@ -0,0 +1,45 @@
+// Offer validity: a quote is valid for a number of days from its date, or until an explicit date.
+// Dates are plain YYYY-MM-DD strings, as stored in QuoteFormData.date.
+
+export const DEFAULT_VALIDITY_DAYS = 14;
+
+export type QuoteValidityInput = {
+  date: string;
+  validityDays?: number; // Overrides the default from settings
+  validUntilDate?: string; // Explicit end date; takes precedence over validityDays
+};
+
+function toDateString(date: Date): string {
+  return date.toISOString().split("T")[0];
+}
+
+// Last day on which the offer is valid (YYYY-MM-DD)
+export function getQuoteValidUntil(quote: QuoteValidityInput, defaultValidityDays: number = DEFAULT_VALIDITY_DAYS): string {
+  if (quote.validUntilDate) return quote.validUntilDate;
+
+  const start = new Date(`${quote.date}T00:00:00Z`);
+  const validFrom = Number.isNaN(start.getTime()) ? new Date(`${toDateString(new Date())}T00:00:00Z`) : start;
+  validFrom.setUTCDate(validFrom.getUTCDate() + (quote.validityDays ?? defaultValidityDays));
+  return toDateString(validFrom);
+}
+
+// A quote expires the day after its valid-until date
+export function isQuoteValidityExpired(validUntil: string, now: Date = new Date()): boolean {
+  const today = `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, "0")}-${String(now.getDate()).padStart(2, "0")}`;
+  return validUntil < today;
+}
+
+// DD/MM/YYYY, matching the en-GB dates printed elsewhere in the quote
+export function formatValidityDate(date: string): string {
+  const [year, month, day] = date.split("-");
+  return `${day}/${month}/${year}`;
+}
+
+// Payment terms clause 4, e.g. "Our offer is valid for a period of 14 days, until 02/11/2026."
+export function formatValidityClause(quote: QuoteValidityInput, defaultValidityDays: number = DEFAULT_VALIDITY_DAYS): string {
+  const validUntil = formatValidityDate(getQuoteValidUntil(quote, defaultValidityDays));
+  if (quote.validUntilDate) {
+    return `Our offer is valid until ${validUntil}.`;
+  }
+  return `Our offer is valid for a period of ${quote.validityDays ?? defaultValidityDays} days, until ${validUntil}.`;
+}
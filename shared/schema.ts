@@ -1,7 +1,12 @@
 import { sql } from "drizzle-orm";
-import { pgTable, text, varchar, integer, decimal, boolean, index } from "drizzle-orm/pg-core";
-import { createInsertSchema } from "drizzle-zod";
+import { pgTable, pgSequence, text, varchar, integer, decimal, doublePrecision, boolean, index, uniqueIndex, jsonb, type AnyPgColumn } from "drizzle-orm/pg-core";
+import { createInsertSchema, createSelectSchema } from "drizzle-zod";
 import { z } from "zod";
+import { DEFAULT_QUOTE_NUMBER_PATTERN, isValidQuoteNumberPattern } from "./quoteNumber";
+import { QUOTE_STATUSES, type QuoteStatus } from "./quoteStatus";
+import { USER_ROLES, type UserRole } from "./permissions";
+import { DEFAULT_VALIDITY_DAYS } from "./quoteValidity";
+import { DEFAULT_MAX_DISCOUNT_PERCENT, DEFAULT_MIN_MARGIN_PERCENT } from "./quoteApproval";
 
 export const quotes = pgTable("quotes", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -43,6 +48,67 @@ export const costItems = pgTable("cost_items", {
   quoteIdSortOrderIdx: index("cost_items_quote_id_sort_order_idx").on(table.quoteId, table.sortOrder),
 }));
 
+// Quote forms - stores the full QuoteFormData document used by the editor.
+// Scalar header fields get their own columns, nested structures are kept as JSON.
+export const quoteForms = pgTable("quote_forms", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  quoteNumber: text("quote_number").unique(),
+  quoteSubject: text("quote_subject").notNull(),
+  customerCompany: text("customer_company").notNull().default(""),
+  customerLogo: text("customer_logo"),
+  salesPersonName: text("sales_person_name").notNull(),
+  date: text("date").notNull(),
+  version: text("version").notNull().default("1"),
+  paymentTerms: text("payment_terms").notNull().default("Current +30"),
+  currency: text("currency").notNull().default("USD"),
+  customerId: varchar("customer_id").references(() => customers.id, { onDelete: "set null" }),
+  parentQuoteId: varchar("parent_quote_id").references((): AnyPgColumn => quoteForms.id, { onDelete: "set null" }),
+  validityDays: integer("validity_days"),
+  validUntilDate: text("valid_until_date"),
+  bomEnabled: boolean("bom_enabled").notNull().default(true),
+  costsEnabled: boolean("costs_enabled").notNull().default(true),
+  columnVisibility: jsonb("column_visibility").$type<ColumnVisibility>().notNull(),
+  contactInfo: jsonb("contact_info").$type<ContactInfo>().notNull(),
+  bomGroups: jsonb("bom_groups").$type<BomGroup[]>(),
+  bomItems: jsonb("bom_items").$type<NonNullable<QuoteFormData["bomItems"]>>(),
+  costItems: jsonb("cost_items").$type<QuoteFormData["costItems"]>().notNull(),
+  templateSettings: jsonb("template_settings").$type<TemplateSettings>(),
+  revision: integer("revision").notNull().default(1),
+  status: text("status").$type<QuoteStatus>().notNull().default("draft"),
+  statusHistory: jsonb("status_history").$type<QuoteStatusChange[]>().notNull().default([]),
+  createdBy: varchar("created_by").references((): AnyPgColumn => users.id, { onDelete: "set null" }),
+  ownerId: varchar("owner_id").references((): AnyPgColumn => users.id, { onDelete: "set null" }),
+  approval: jsonb("approval").$type<QuoteApproval>(),
+  lastModified: text("last_modified").notNull(),
+  deletedAt: text("deleted_at"),
+}, (table) => ({
+  lastModifiedIdx: index("quote_forms_last_modified_idx").on(table.lastModified),
+  deletedAtIdx: index("quote_forms_deleted_at_idx").on(table.deletedAt),
+  statusIdx: index("quote_forms_status_idx").on(table.status),
+  ownerIdIdx: index("quote_forms_owner_id_idx").on(table.ownerId),
+}));
+
+// Quote revisions - an immutable snapshot of the quote written on every save
+export const quoteRevisions = pgTable("quote_revisions", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  quoteId: varchar("quote_id").notNull().references(() => quoteForms.id, { onDelete: "cascade" }),
+  revision: integer("revision").notNull(),
+  author: text("author").notNull(),
+  createdAt: text("created_at").notNull(),
+  data: jsonb("data").$type<QuoteFormData>().notNull(),
+}, (table) => ({
+  quoteIdRevisionIdx: uniqueIndex("quote_revisions_quote_id_revision_idx").on(table.quoteId, table.revision),
+}));
+
+// Quote number counter - a database sequence so numbers are never handed out twice
+export const quoteNumberSequence = pgSequence("quote_number_seq", { startWith: 1, increment: 1 });
+
+// Application settings - a single row keyed by id holding the template settings
+export const appSettings = pgTable("app_settings", {
+  id: varchar("id").primaryKey(),
+  templateSettings: jsonb("template_settings").$type<TemplateSettings>().notNull(),
+});
+
 // Helper schemas for decimal/numeric fields
 const moneyOptional = z.union([z.number(), z.string(), z.null(), z.undefined()])
   .transform(v => (v == null || v === '') ? null : v.toString());
@@ -84,6 +150,8 @@ export type BomItem = typeof bomItems.$inferSelect;
 export type InsertBomItem = z.infer<typeof insertBomItemSchema>;
 export type CostItem = typeof costItems.$inferSelect;
 export type InsertCostItem = z.infer<typeof insertCostItemSchema>;
+export type QuoteFormRow = typeof quoteForms.$inferSelect;
+export type InsertQuoteFormRow = typeof quoteForms.$inferInsert;
 
 // Complete quote data type for the application
 export type QuoteData = {
@@ -105,8 +173,10 @@ export type ColumnVisibility = {
 // Contact information for quotes
 export type ContactInfo = {
   salesPersonName: string;
+  role?: string; // Printed in the contact table, e.g. "Account Manager"
   phone: string;
   email: string;
+  signature?: string; // Data URL of the salesperson's signature image
 };
 
 // BOM Group for supporting multiple BOMs
@@ -131,6 +201,11 @@ export type TemplateSettings = {
   introText: string;
   introImage?: string; // base64 encoded image
   tableHeaderColor: string;
+  quoteNumberPattern?: string; // e.g. "Q-{YYYY}-{SEQ:4}"
+  trashRetentionDays?: number; // Trashed quotes are purged after this many days
+  defaultValidityDays?: number; // Offer validity used when a quote does not set its own
+  maxDiscountPercent?: number; // Larger discounts, as a share of the subtotal, need manager approval
+  minMarginPercent?: number; // Lower margins over catalog cost need manager approval
 };
 
 // Default template settings
@@ -139,6 +214,11 @@ export const defaultTemplateSettings: TemplateSettings = {
   frameColor: '#1f2937', // Default dark gray
   introText: 'This quote outlines the proposed solution for your requirements. Please review the specifications and pricing details.',
   tableHeaderColor: '#f3f4f6', // Default light gray
+  quoteNumberPattern: DEFAULT_QUOTE_NUMBER_PATTERN,
+  trashRetentionDays: 30,
+  defaultValidityDays: DEFAULT_VALIDITY_DAYS,
+  maxDiscountPercent: DEFAULT_MAX_DISCOUNT_PERCENT,
+  minMarginPercent: DEFAULT_MIN_MARGIN_PERCENT,
 };
 
 // Validation schema for TemplateSettings
@@ -149,6 +229,13 @@ export const insertTemplateSettingsSchema = z.object({
   introText: z.string().min(1, "Intro text is required"),
   introImage: z.string().optional(),
   tableHeaderColor: z.string().regex(/^#[0-9A-Fa-f]{6}$/, "Table header color must be a valid hex color"),
+  quoteNumberPattern: z.string()
+    .refine(isValidQuoteNumberPattern, "Quote number pattern must contain {SEQ} or {SEQ:width}")
+    .optional(),
+  trashRetentionDays: z.number().int().min(1, "Retention must be at least 1 day").max(3650).optional(),
+  defaultValidityDays: z.number().int().min(1, "Validity must be at least 1 day").max(365).optional(),
+  maxDiscountPercent: z.number().min(0, "Discount limit cannot be negative").max(100, "Discount limit cannot exceed 100%").optional(),
+  minMarginPercent: z.number().min(0, "Minimum margin cannot be negative").max(100, "Minimum margin cannot exceed 100%").optional(),
 });
 
 export type InsertTemplateSettings = z.infer<typeof insertTemplateSettingsSchema>;
@@ -156,14 +243,27 @@ export type InsertTemplateSettings = z.infer<typeof insertTemplateSettingsSchema
 // Form data types for the input components
 export type QuoteFormData = {
   id?: string; // For saving/loading quotes
+  quoteNumber?: string; // Assigned by the server on first save, e.g. "Q-2026-0042"
   quoteSubject: string;
   customerCompany: string;
   customerLogo?: File | string;
+  customerId?: string; // Customer directory entry the header was filled from
+  parentQuoteId?: string; // Quote this one was cloned from as a new version
+  // Users who created and currently own the quote; set by the server, changed only by reassigning.
+  // Quotes saved before ownership existed have neither.
+  createdBy?: string;
+  ownerId?: string;
   salesPersonName: string;
   date: string;
   version: string;
   paymentTerms: string;
   currency: string;
+  // Offer validity: days from the quote date (default from settings) or an explicit end date
+  validityDays?: number;
+  validUntilDate?: string;
+  // Computed by the server in responses: last valid day and whether it has passed
+  validUntil?: string;
+  isExpired?: boolean;
   bomEnabled: boolean;
   costsEnabled: boolean;
   columnVisibility: ColumnVisibility;
@@ -190,19 +290,227 @@ export type QuoteFormData = {
   templateSettings?: TemplateSettings;
   // Metadata for organization
   lastModified?: string;
+  // Head revision number, assigned by the server on every save
+  revision?: number;
+  // Set when the quote is moved to the trash
+  deletedAt?: string;
+  // Lifecycle status, changed only through the status endpoint
+  status?: QuoteStatus;
+  statusHistory?: QuoteStatusChange[];
+  // Set by the server on save when the discount or margin needs manager approval
+  approval?: QuoteApproval;
+};
+
+// One entry of a quote's status history
+export type QuoteStatusChange = {
+  status: QuoteStatus;
+  changedAt: string;
+  changedBy: string;
+  reason?: string; // Required when a quote is rejected
+};
+
+// Discount approval of a quote; see shared/quoteApproval.ts for the rules
+export const QUOTE_APPROVAL_STATUSES = ["pending", "approved", "rejected"] as const;
+export type QuoteApprovalStatus = typeof QUOTE_APPROVAL_STATUSES[number];
+
+export type QuoteApproval = {
+  status: QuoteApprovalStatus;
+  reasons: string[]; // Why approval is needed, e.g. "Discount of 18% exceeds the 10% limit"
+  discountPercent: number;
+  marginPercent: number | null; // Not known when no BOM line has a catalog cost
+  requestedAt: string;
+  requestedBy: string;
+  decidedAt?: string;
+  decidedBy?: string;
+  comment?: string; // From the approver; required when rejecting
+};
+
+// Body of POST /api/quote-forms/:id/approval
+export const quoteApprovalDecisionSchema = z.object({
+  decision: z.enum(["approved", "rejected"], { errorMap: () => ({ message: 'Decision must be "approved" or "rejected"' }) }),
+  comment: z.string().trim().optional(),
+}).refine(
+  (decision) => decision.decision !== "rejected" || !!decision.comment,
+  { message: "A comment is required when rejecting", path: ["comment"] },
+);
+
+export type QuoteApprovalDecision = z.infer<typeof quoteApprovalDecisionSchema>;
+
+// Entry of the approval queue (GET /api/quote-forms/approvals)
+export type QuoteApprovalQueueItem = Pick<QuoteFormData,
+  "id" | "quoteNumber" | "quoteSubject" | "customerCompany" | "salesPersonName" | "currency" | "ownerId" | "lastModified"
+> & {
+  grandTotal: number;
+  approval: QuoteApproval;
+};
+
+// Body of PUT /api/quote-forms/:id/owner
+export const quoteOwnerChangeSchema = z.object({
+  ownerId: z.string({ required_error: "Owner is required" }).min(1, "Owner is required"),
+});
+
+export type QuoteOwnerChange = z.infer<typeof quoteOwnerChangeSchema>;
+
+// Request body of POST /api/quote-forms/:id/status
+export const quoteStatusChangeSchema = z.object({
+  status: z.enum(QUOTE_STATUSES),
+  reason: z.string().trim().optional(),
+}).refine(
+  (change) => change.status !== "rejected" || !!change.reason,
+  { message: "A reason is required when rejecting a quote", path: ["reason"] },
+);
+
+// Immutable snapshot of a quote as it was saved
+export type QuoteRevision = {
+  id: string;
+  quoteId: string;
+  revision: number;
+  author: string;
+  createdAt: string;
+  data: QuoteFormData;
+};
+
+// Revision list entry without the snapshot payload
+export type QuoteRevisionSummary = Omit<QuoteRevision, "data"> & {
+  quoteSubject: string;
+};
+
+// Query parameters accepted by GET /api/quote-forms
+export const quoteListSortFields = ["lastModified", "date", "quoteNumber", "quoteSubject", "customerCompany", "salesPersonName"] as const;
+
+// "mine" lists the quotes the user owns, "team" everyone's
+export const QUOTE_LIST_SCOPES = ["mine", "team"] as const;
+export type QuoteListScope = typeof QUOTE_LIST_SCOPES[number];
+
+export const quoteListQuerySchema = z.object({
+  page: z.coerce.number().int().min(1).default(1),
+  pageSize: z.coerce.number().int().min(1).max(100).default(20),
+  sort: z.enum(quoteListSortFields).default("lastModified"),
+  order: z.enum(["asc", "desc"]).default("desc"),
+  customer: z.string().optional(), // Case-insensitive substring of customerCompany
+  salesPerson: z.string().optional(), // Case-insensitive substring of salesPersonName
+  currency: z.string().optional(),
+  dateFrom: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "dateFrom must be YYYY-MM-DD").optional(),
+  dateTo: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "dateTo must be YYYY-MM-DD").optional(),
+  search: z.string().optional(), // Subject, customer, sales person or quote number
+  status: z.enum(QUOTE_STATUSES).optional(),
+  scope: z.enum(QUOTE_LIST_SCOPES).default("mine"), // "team" needs the quotes.viewTeam permission
+  ownerId: z.string().optional(), // Narrows the team view to one user's quotes
+});
+
+export type QuoteListQuery = z.infer<typeof quoteListQuerySchema>;
+
+// Lightweight list projection of a quote (no logo, template settings or BOM lines)
+export type QuoteFormSummary = Pick<QuoteFormData,
+  "id" | "quoteNumber" | "quoteSubject" | "customerCompany" | "salesPersonName" | "date" | "version" | "currency" | "lastModified" | "revision" | "status"
+  | "validityDays" | "validUntilDate" | "validUntil" | "isExpired" | "ownerId"
+> & {
+  itemCount: number; // Number of BOM lines
+  grandTotal: number;
+};
+
+export type QuoteListPage = {
+  items: QuoteFormSummary[];
+  total: number; // Number of quotes matching the filters
+  page: number;
+  pageSize: number;
+};
+
+// Full-text search over quote contents (GET /api/quote-forms/search)
+export type QuoteSearchField =
+  | "quoteSubject"
+  | "customerCompany"
+  | "salesPersonName"
+  | "quoteNumber"
+  | "bomGroupName"
+  | "partNumber"
+  | "productDescription"
+  | "costDescription";
+
+export type QuoteSearchMatch = {
+  field: QuoteSearchField;
+  value: string;
+  groupName?: string; // BOM group of a matching BOM line or group name
+  line?: number; // 1-based line number within the BOM group or cost table
+};
+
+export type QuoteSearchResult = {
+  quote: Pick<QuoteFormData, "id" | "quoteNumber" | "quoteSubject" | "customerCompany" | "salesPersonName" | "date" | "lastModified">;
+  matches: QuoteSearchMatch[];
+};
+
+// Prices charged for one part number across stored quotes (GET /api/quote-forms/price-history)
+export type PartPriceHistoryLine = {
+  quote: Pick<QuoteFormData, "id" | "quoteNumber" | "quoteSubject" | "customerCompany" | "date" | "status">;
+  groupName: string;
+  line: number; // 1-based line number within the BOM group
+  quantity: number;
+  unitPrice?: number; // Lines without a unit price are listed but not counted in the stats
+  currency: string;
+};
+
+// Prices are only comparable within a currency, so stats are kept per currency
+export type PartPriceStats = {
+  currency: string;
+  count: number;
+  last: number; // Unit price on the most recent quote
+  lastDate: string;
+  min: number;
+  max: number;
+};
+
+export type PartPriceHistory = {
+  partNumber: string;
+  lines: PartPriceHistoryLine[]; // Most recent quote date first
+  stats: PartPriceStats[];
+};
+
+// "version": the next version of the same offer, linked to its parent.
+// "customer": the same offer for another customer, with a fresh date and number.
+export const QUOTE_CLONE_MODES = ["version", "customer"] as const;
+export type QuoteCloneMode = typeof QUOTE_CLONE_MODES[number];
+
+// Request body of POST /api/quote-forms/:id/clone
+export const quoteCloneRequestSchema = z.object({
+  mode: z.enum(QUOTE_CLONE_MODES),
+  reprice: z.boolean().default(false), // Take unit prices from the current catalog
+  customerId: z.string().optional(), // "customer" mode only: fill the header from this directory entry
+});
+
+export type QuoteCloneRequest = z.infer<typeof quoteCloneRequestSchema>;
+
+// What repricing from the catalog did to the BOM lines of a clone
+export type QuoteRepriceSummary = {
+  repriced: number; // Lines whose unit price changed
+  unchanged: number;
+  notInCatalog: string[]; // Part numbers with no catalog list price
+  currencyMismatch: string[]; // Part numbers listed in another currency than the quote
+};
+
+// Response of POST /api/quote-forms/:id/clone
+export type QuoteCloneResult = {
+  quote: QuoteFormData;
+  reprice?: QuoteRepriceSummary;
 };
 
 // Insert schema for quotes with new features
 export const insertQuoteFormDataSchema = z.object({
   id: z.string().optional(),
+  quoteNumber: z.string().optional(),
+  // Revision the client last saw; updates against an older revision are rejected
+  revision: z.number().int().optional(),
   quoteSubject: z.string().min(1, "Quote subject is required"),
   customerCompany: z.string(),
   customerLogo: z.string().optional(),
+  customerId: z.string().optional(),
+  parentQuoteId: z.string().optional(),
   salesPersonName: z.string().min(1, "Sales person name is required"),
   date: z.string(),
   version: z.string().default("1"),
   paymentTerms: z.string().default("Current +30"),
   currency: z.string().default("USD"),
+  validityDays: z.number().int().min(1, "Validity must be at least 1 day").max(365).optional(),
+  validUntilDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Valid-until date must be YYYY-MM-DD").optional(),
   bomEnabled: z.boolean().default(true),
   costsEnabled: z.boolean().default(true),
   columnVisibility: z.object({
@@ -215,8 +523,10 @@ export const insertQuoteFormDataSchema = z.object({
   }),
   contactInfo: z.object({
     salesPersonName: z.string(),
+    role: z.string().optional(),
     phone: z.string(),
     email: z.string(),
+    signature: z.string().optional(),
   }),
   bomGroups: z.array(z.object({
     id: z.string(),
@@ -252,23 +562,509 @@ export const insertQuoteFormDataSchema = z.object({
     introText: z.string(),
     introImage: z.string().optional(),
     tableHeaderColor: z.string(),
+    quoteNumberPattern: z.string().optional(),
+    trashRetentionDays: z.number().optional(),
+    defaultValidityDays: z.number().optional(),
   }).optional(),
   lastModified: z.string().optional(),
 });
 
 export type InsertQuoteFormData = z.infer<typeof insertQuoteFormDataSchema>;
 
+// Body of POST /api/quote-forms/discount-check - the lines of a quote that may not be saved yet
+export const quoteDiscountCheckRequestSchema = insertQuoteFormDataSchema.pick({
+  currency: true,
+  bomGroups: true,
+  bomItems: true,
+  costItems: true,
+});
+
+export type QuoteDiscountCheckRequest = z.infer<typeof quoteDiscountCheckRequestSchema>;
+
 // Legacy user types (keeping for compatibility)
 export const users = pgTable("users", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   username: text("username").notNull().unique(),
   password: text("password").notNull(),
+  role: text("role").$type<UserRole>().notNull().default("sales"),
 });
 
 export const insertUserSchema = createInsertSchema(users).pick({
   username: true,
   password: true,
+}).extend({
+  role: z.enum(USER_ROLES).optional(),
 });
 
 export type InsertUser = z.infer<typeof insertUserSchema>;
-export type User = typeof users.$inferSelect;
\ No newline at end of file
+export type User = typeof users.$inferSelect;
+
+// A user as the API returns it, without the password hash
+export type PublicUser = Omit<User, "password">;
+
+export const loginSchema = z.object({
+  username: z.string().trim().min(1, "Username is required"),
+  password: z.string().min(1, "Password is required"),
+});
+
+// The first account, created through /api/setup while no user exists yet
+export const setupAccountSchema = loginSchema.extend({
+  password: z.string().min(8, "Password must be at least 8 characters"),
+});
+
+export type LoginCredentials = z.infer<typeof loginSchema>;
+
+// Accounts added by an admin; the password is hashed before it is stored
+export const createUserSchema = setupAccountSchema.extend({
+  role: z.enum(USER_ROLES),
+});
+
+export const updateUserSchema = z.object({
+  role: z.enum(USER_ROLES).optional(),
+  password: z.string().min(8, "Password must be at least 8 characters").optional(),
+});
+
+export type CreateUserRequest = z.infer<typeof createUserSchema>;
+export type UpdateUserRequest = z.infer<typeof updateUserSchema>;
+
+// Personal API tokens for scripts, sent as "Authorization: Bearer <token>". A token acts as its
+// user, limited to its scopes; only a hash is stored, so the token itself is shown once on creation.
+export const API_TOKEN_SCOPES = ["quotes.read", "quotes.write", "pdf.render"] as const;
+export type ApiTokenScope = typeof API_TOKEN_SCOPES[number];
+
+export const API_TOKEN_SCOPE_LABELS: Record<ApiTokenScope, string> = {
+  "quotes.read": "Read quotes",
+  "quotes.write": "Write quotes",
+  "pdf.render": "Render PDFs",
+};
+
+export const apiTokens = pgTable("api_tokens", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  name: text("name").notNull(),
+  tokenHash: text("token_hash").notNull().unique(), // SHA-256 of the token, hex
+  tokenPrefix: text("token_prefix").notNull(), // First characters of the token, to tell tokens apart
+  scopes: jsonb("scopes").$type<ApiTokenScope[]>().notNull(),
+  createdAt: text("created_at").notNull(),
+  lastUsedAt: text("last_used_at"), // Not set until the token is first used
+}, (table) => ({
+  userIdIdx: index("api_tokens_user_id_idx").on(table.userId),
+}));
+
+export type ApiToken = typeof apiTokens.$inferSelect;
+export type PublicApiToken = Omit<ApiToken, "tokenHash">; // Listed without the hash
+export type InsertApiToken = Pick<ApiToken, "userId" | "name" | "tokenHash" | "tokenPrefix" | "scopes">;
+
+export const createApiTokenSchema = z.object({
+  name: z.string().trim().min(1, "Token name is required").max(100, "Token name must be at most 100 characters"),
+  scopes: z.array(z.enum(API_TOKEN_SCOPES)).min(1, "Choose at least one scope"),
+});
+
+export type CreateApiTokenRequest = z.infer<typeof createApiTokenSchema>;
+
+// Response to creating a token - the only time the token itself is returned
+export type CreatedApiToken = PublicApiToken & { token: string };
+
+// Customer directory - reusable company profiles that fill the quote header
+export type CustomerContact = {
+  name: string;
+  role?: string;
+  email?: string;
+  phone?: string;
+};
+
+export const customers = pgTable("customers", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  name: text("name").notNull(),
+  logo: text("logo"), // Data URL of the company logo
+  address: text("address"),
+  vatId: text("vat_id"), // VAT / company registration number
+  defaultCurrency: text("default_currency"),
+  defaultPaymentTerms: text("default_payment_terms"),
+  contacts: jsonb("contacts").$type<CustomerContact[]>().notNull().default([]),
+  createdAt: text("created_at").notNull(),
+  updatedAt: text("updated_at").notNull(),
+}, (table) => ({
+  nameIdx: index("customers_name_idx").on(table.name),
+}));
+
+export const customerContactSchema = z.object({
+  name: z.string().min(1, "Contact name is required"),
+  role: z.string().optional(),
+  email: z.string().email("Contact email must be a valid email address").or(z.literal("")).optional(),
+  phone: z.string().optional(),
+});
+
+export const insertCustomerSchema = createInsertSchema(customers).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+}).extend({
+  name: z.string().trim().min(1, "Customer name is required"),
+  contacts: z.array(customerContactSchema).default([]),
+});
+
+export type InsertCustomer = z.infer<typeof insertCustomerSchema>;
+export type Customer = typeof customers.$inferSelect;
+
+// Sales team directory - picking a salesperson fills the quote's contact block
+export const salesPeople = pgTable("sales_people", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  name: text("name").notNull(),
+  role: text("role"),
+  phone: text("phone"),
+  email: text("email"),
+  signature: text("signature"), // Data URL of the signature image
+  createdAt: text("created_at").notNull(),
+  updatedAt: text("updated_at").notNull(),
+}, (table) => ({
+  nameIdx: index("sales_people_name_idx").on(table.name),
+}));
+
+export const insertSalesPersonSchema = createInsertSchema(salesPeople).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+}).extend({
+  name: z.string().trim().min(1, "Sales person name is required"),
+  email: z.string().email("Email must be a valid email address").or(z.literal("")).nullish(),
+});
+
+export type InsertSalesPerson = z.infer<typeof insertSalesPersonSchema>;
+export type SalesPerson = typeof salesPeople.$inferSelect;
+
+// Product catalog - part numbers with list price and cost, suggested while editing BOM rows
+export const catalogItems = pgTable("catalog_items", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  partNumber: text("part_number").notNull().unique(),
+  description: text("description").notNull().default(""),
+  manufacturer: text("manufacturer"),
+  listPrice: doublePrecision("list_price"),
+  cost: doublePrecision("cost"),
+  currency: text("currency").notNull().default("USD"),
+  createdAt: text("created_at").notNull(),
+  updatedAt: text("updated_at").notNull(),
+}, (table) => ({
+  manufacturerIdx: index("catalog_items_manufacturer_idx").on(table.manufacturer),
+}));
+
+export const insertCatalogItemSchema = createInsertSchema(catalogItems).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+}).extend({
+  partNumber: z.string().trim().min(1, "Part number is required"),
+  listPrice: z.number().min(0, "List price cannot be negative").nullish(),
+  cost: z.number().min(0, "Cost cannot be negative").nullish(),
+});
+
+export type InsertCatalogItem = z.infer<typeof insertCatalogItemSchema>;
+export type CatalogItem = typeof catalogItems.$inferSelect;
+
+// Catalog price-list import - vendor columns are mapped onto these catalog fields
+export const catalogImportFields = ["partNumber", "description", "manufacturer", "listPrice", "cost", "currency"] as const;
+export type CatalogImportField = typeof catalogImportFields[number];
+
+// Column mapping per vendor, keyed by the header text in the vendor's price list
+export const catalogImportMappings = pgTable("catalog_import_mappings", {
+  vendor: text("vendor").primaryKey(),
+  columns: jsonb("columns").$type<Partial<Record<CatalogImportField, string>>>().notNull(),
+  defaultCurrency: text("default_currency").notNull().default("USD"), // For lists without a currency column
+  updatedAt: text("updated_at").notNull(),
+});
+
+export const catalogImportMappingSchema = z.object({
+  vendor: z.string().trim().min(1, "Vendor is required"),
+  columns: z.object({
+    partNumber: z.string().min(1, "The part number column must be mapped"),
+    description: z.string().optional(),
+    manufacturer: z.string().optional(),
+    listPrice: z.string().optional(),
+    cost: z.string().optional(),
+    currency: z.string().optional(),
+  }),
+  defaultCurrency: z.string().default("USD"),
+});
+
+// One mapped price-list row; fields the vendor does not provide are left out and keep their catalog value
+export const catalogImportRowSchema = z.object({
+  sourceRow: z.number().int().optional(), // Line in the vendor file, for reporting
+  partNumber: z.string().trim().min(1, "Part number is required"),
+  description: z.string().optional(),
+  manufacturer: z.string().optional(),
+  listPrice: z.number().min(0, "List price cannot be negative").optional(),
+  cost: z.number().min(0, "Cost cannot be negative").optional(),
+  currency: z.string().optional(),
+});
+
+export const catalogImportRequestSchema = z.object({
+  mapping: catalogImportMappingSchema,
+  rows: z.array(catalogImportRowSchema).min(1, "The price list has no rows").max(50000, "Price lists are limited to 50000 rows"),
+  dryRun: z.boolean().default(true), // Preview unless the caller explicitly commits
+});
+
+export type CatalogImportMapping = typeof catalogImportMappings.$inferSelect;
+export type InsertCatalogImportMapping = z.infer<typeof catalogImportMappingSchema>;
+export type CatalogImportRow = z.infer<typeof catalogImportRowSchema>;
+export type CatalogImportRequest = z.infer<typeof catalogImportRequestSchema>;
+
+export type CatalogImportAction = "added" | "updated" | "unchanged" | "skipped";
+
+export type CatalogImportRowResult = {
+  sourceRow?: number;
+  partNumber: string;
+  action: CatalogImportAction;
+  changes?: string[]; // Catalog fields that differ, for "updated" rows
+  reason?: string; // Why a row was skipped
+};
+
+export type CatalogImportResult = {
+  dryRun: boolean;
+  vendor: string;
+  added: number;
+  updated: number;
+  unchanged: number;
+  skipped: number;
+  rows: CatalogImportRowResult[];
+};
+
+// BOM kits - named BOM groups saved to a shared library and inserted into any quote
+export const bomKits = pgTable("bom_kits", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  name: text("name").notNull(),
+  description: text("description").notNull().default(""),
+  tags: jsonb("tags").$type<string[]>().notNull().default([]),
+  currency: text("currency").notNull().default("USD"), // Currency of the saved unit prices
+  items: jsonb("items").$type<BomGroup["items"]>().notNull(),
+  createdAt: text("created_at").notNull(),
+  updatedAt: text("updated_at").notNull(),
+}, (table) => ({
+  nameIdx: index("bom_kits_name_idx").on(table.name),
+}));
+
+export const bomKitItemSchema = z.object({
+  no: z.number(),
+  partNumber: z.string(),
+  productDescription: z.string(),
+  quantity: z.number().min(1),
+  unitPrice: z.number().optional(),
+  totalPrice: z.number().optional(),
+});
+
+export const insertBomKitSchema = createInsertSchema(bomKits).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+}).extend({
+  name: z.string().trim().min(1, "Kit name is required"),
+  description: z.string().trim().default(""),
+  tags: z.array(z.string().trim().min(1)).default([]),
+  items: z.array(bomKitItemSchema).min(1, "A kit needs at least one line"),
+});
+
+export type InsertBomKit = z.infer<typeof insertBomKitSchema>;
+export type BomKit = typeof bomKits.$inferSelect;
+
+// Files attached to a quote, such as vendor datasheets and drawings. The content is kept as a
+// data URL like the uploaded logos. Attachments marked appendToPdf are added to the generated
+// PDF after the IP & Contact page, in position order.
+export const QUOTE_ATTACHMENT_MIME_TYPES = ["application/pdf", "image/png", "image/jpeg"] as const;
+export const QUOTE_ATTACHMENT_MAX_BYTES = 20 * 1024 * 1024;
+
+export const quoteAttachments = pgTable("quote_attachments", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  quoteId: varchar("quote_id").notNull().references(() => quoteForms.id, { onDelete: "cascade" }),
+  fileName: text("file_name").notNull(),
+  mimeType: text("mime_type").notNull(),
+  size: integer("size").notNull(), // Bytes of the uploaded file
+  content: text("content").notNull(),
+  appendToPdf: boolean("append_to_pdf").notNull().default(true),
+  position: integer("position").notNull(),
+  createdAt: text("created_at").notNull(),
+}, (table) => ({
+  quoteIdPositionIdx: index("quote_attachments_quote_id_position_idx").on(table.quoteId, table.position),
+}));
+
+export type QuoteAttachment = typeof quoteAttachments.$inferSelect;
+export type QuoteAttachmentInfo = Omit<QuoteAttachment, "content">; // Listed without the file content
+export type InsertQuoteAttachment = Pick<QuoteAttachment, "quoteId" | "fileName" | "mimeType" | "size" | "content">;
+
+// Body of PUT /api/quote-forms/:id/attachments - every attachment of the quote, in PDF order
+export const quoteAttachmentOrderSchema = z.object({
+  attachments: z.array(z.object({
+    id: z.string().min(1),
+    appendToPdf: z.boolean(),
+  })),
+});
+
+export type QuoteAttachmentOrder = z.infer<typeof quoteAttachmentOrderSchema>;
+
+// Audit log - who changed what and when. Events are only ever added; they outlive the
+// records they describe, so they keep a label and do not reference other tables.
+export const AUDIT_ACTIONS = ["create", "update", "delete", "restore", "purge", "download", "import"] as const;
+export type AuditAction = typeof AUDIT_ACTIONS[number];
+
+export const AUDIT_ENTITY_TYPES = ["quote", "attachment", "customer", "salesPerson", "catalogItem", "catalog", "bomKit", "settings", "backup", "user"] as const;
+export type AuditEntityType = typeof AUDIT_ENTITY_TYPES[number];
+
+// One changed value, e.g. { path: "bomGroups.0.items.2.unitPrice", oldValue: 120, newValue: 95 }
+export type AuditChange = {
+  path: string;
+  oldValue: unknown;
+  newValue: unknown;
+};
+
+export const auditEvents = pgTable("audit_events", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  occurredAt: text("occurred_at").notNull(),
+  actor: text("actor").notNull(),
+  action: text("action").$type<AuditAction>().notNull(),
+  entityType: text("entity_type").$type<AuditEntityType>().notNull(),
+  entityId: varchar("entity_id"), // Not set for settings and backups
+  entityLabel: text("entity_label").notNull().default(""), // Quote number, customer name, ... at the time of the event
+  quoteId: varchar("quote_id"), // Quote the event belongs to, also set for its attachments and PDF downloads
+  changes: jsonb("changes").$type<AuditChange[]>().notNull().default([]),
+}, (table) => ({
+  occurredAtIdx: index("audit_events_occurred_at_idx").on(table.occurredAt),
+  entityIdx: index("audit_events_entity_idx").on(table.entityType, table.entityId),
+  quoteIdIdx: index("audit_events_quote_id_idx").on(table.quoteId),
+}));
+
+export type AuditEvent = typeof auditEvents.$inferSelect;
+export type InsertAuditEvent = Omit<typeof auditEvents.$inferInsert, "id" | "occurredAt">;
+
+export const auditQuerySchema = z.object({
+  page: z.coerce.number().int().min(1).default(1),
+  pageSize: z.coerce.number().int().min(1).max(200).default(50),
+  entityType: z.enum(AUDIT_ENTITY_TYPES).optional(),
+  entityId: z.string().optional(),
+  quoteId: z.string().optional(),
+  action: z.enum(AUDIT_ACTIONS).optional(),
+  actor: z.string().optional(), // Case-insensitive substring
+  path: z.string().optional(), // Case-insensitive substring of a changed field path, e.g. "unitPrice"
+  dateFrom: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "dateFrom must be YYYY-MM-DD").optional(),
+  dateTo: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "dateTo must be YYYY-MM-DD").optional(),
+});
+
+export type AuditQuery = z.infer<typeof auditQuerySchema>;
+
+// Newest events first
+export type AuditEventPage = {
+  items: AuditEvent[];
+  total: number; // Number of events matching the filters
+  page: number;
+  pageSize: number;
+};
+
+// Backup archives - a full export of the store that can be imported again by an admin.
+// Bump BACKUP_SCHEMA_VERSION when the archived data changes shape; older archives must stay importable.
+export const BACKUP_SCHEMA_VERSION = 1;
+export const BACKUP_IMPORT_MODES = ["merge", "replace"] as const;
+export type BackupImportMode = typeof BACKUP_IMPORT_MODES[number];
+
+// Everything a backup holds. Users and their API tokens, the audit log and the legacy quotes tables are not part of it.
+export type BackupData = {
+  settings: TemplateSettings;
+  quotes: QuoteFormData[]; // Including quotes in the trash
+  revisions: QuoteRevision[];
+  customers: Customer[];
+  salesPeople: SalesPerson[];
+  catalogItems: CatalogItem[];
+  catalogImportMappings: CatalogImportMapping[];
+  bomKits: BomKit[];
+  attachments: QuoteAttachment[]; // Follow their quotes like revisions
+  quoteSequence: number; // Last quote number sequence value handed out
+};
+
+export const backupSections = ["quotes", "customers", "salesPeople", "catalogItems", "catalogImportMappings", "bomKits"] as const;
+export type BackupSection = typeof backupSections[number];
+
+export const backupManifestSchema = z.object({
+  format: z.literal("moonquote-backup"),
+  schemaVersion: z.number().int().min(1),
+  exportedAt: z.string(),
+  counts: z.record(z.number()), // Records per section, for display before importing
+  assetCount: z.number().int().min(0),
+});
+
+export type BackupManifest = z.infer<typeof backupManifestSchema>;
+
+const backupStatusChangeSchema = z.object({
+  status: z.enum(QUOTE_STATUSES),
+  changedAt: z.string(),
+  changedBy: z.string(),
+  reason: z.string().optional(),
+});
+
+// A stored quote: the editor payload plus the fields the server manages
+const backupQuoteSchema = insertQuoteFormDataSchema.extend({
+  id: z.string().min(1),
+  revision: z.number().int().min(1),
+  status: z.enum(QUOTE_STATUSES),
+  statusHistory: z.array(backupStatusChangeSchema),
+  createdBy: z.string().optional(),
+  ownerId: z.string().optional(),
+  approval: z.object({
+    status: z.enum(QUOTE_APPROVAL_STATUSES),
+    reasons: z.array(z.string()),
+    discountPercent: z.number(),
+    marginPercent: z.number().nullable(),
+    requestedAt: z.string(),
+    requestedBy: z.string(),
+    decidedAt: z.string().optional(),
+    decidedBy: z.string().optional(),
+    comment: z.string().optional(),
+  }).optional(),
+  lastModified: z.string(),
+  deletedAt: z.string().optional(),
+});
+
+export const backupDataSchema = z.object({
+  settings: insertTemplateSettingsSchema,
+  quotes: z.array(backupQuoteSchema),
+  revisions: z.array(z.object({
+    id: z.string().min(1),
+    quoteId: z.string().min(1),
+    revision: z.number().int().min(1),
+    author: z.string(),
+    createdAt: z.string(),
+    data: backupQuoteSchema.partial({ id: true, revision: true, status: true, statusHistory: true, lastModified: true }),
+  })),
+  customers: z.array(createSelectSchema(customers).extend({ contacts: z.array(customerContactSchema) })),
+  salesPeople: z.array(createSelectSchema(salesPeople)),
+  catalogItems: z.array(createSelectSchema(catalogItems)),
+  catalogImportMappings: z.array(createSelectSchema(catalogImportMappings).extend({ columns: catalogImportMappingSchema.shape.columns })),
+  bomKits: z.array(createSelectSchema(bomKits).extend({ tags: z.array(z.string()), items: z.array(bomKitItemSchema) })),
+  attachments: z.array(createSelectSchema(quoteAttachments)).default([]), // Not in archives made before attachments existed
+  quoteSequence: z.number().int().min(0),
+});
+
+// Uploaded files (logos, signatures, intro images, attachments) are stored once per archive and
+// referenced from the data as "asset:<id>" instead of repeating the data URL everywhere
+export const backupAssetSchema = z.object({
+  mimeType: z.string(),
+  base64: z.string(),
+});
+
+export type BackupAsset = z.infer<typeof backupAssetSchema>;
+
+export type BackupArchive = {
+  manifest: BackupManifest;
+  data: BackupData;
+  assets: Record<string, BackupAsset>;
+};
+
+export type BackupImportSectionResult = {
+  added: number;
+  updated: number;
+  removed: number; // Only in replace mode
+  skipped: number;
+};
+
+export type BackupImportResult = {
+  mode: BackupImportMode;
+  dryRun: boolean;
+  manifest: BackupManifest;
+  sections: Record<BackupSection, BackupImportSectionResult>;
+  warnings: string[];
+};